@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  AIRuntime,
+  EmbeddingIndexService,
+  MarkdownChunker,
+  PlaceholderEmbeddingRepository,
+  SemanticSearchService,
+  StubEmbeddingProvider,
+} from "../index.js";
+import { EventBus } from "../../core/event-bus.js";
+import { MemoryNoteRepository } from "../../repositories/memory-note-repository.js";
+import { EventType } from "../../types/index.js";
+import type { Note } from "../../types/index.js";
+
+const makeNote = (id: string, content = `# ${id}\n\nBody of ${id}.`): Note => ({
+  id,
+  path: id,
+  content,
+  mtime: new Date("2024-01-01"),
+  ctime: new Date("2024-01-01"),
+  size: content.length,
+});
+
+describe("AIRuntime.reconcile", () => {
+  let eventBus: EventBus;
+  let notes: MemoryNoteRepository;
+  let repo: PlaceholderEmbeddingRepository;
+  let indexService: EmbeddingIndexService;
+  let runtime: AIRuntime;
+
+  const createRuntime = (intervalMs?: number) => {
+    const provider = new StubEmbeddingProvider(4);
+    indexService = new EmbeddingIndexService(
+      new MarkdownChunker(),
+      provider,
+      repo,
+    );
+    return new AIRuntime(
+      eventBus,
+      indexService,
+      new SemanticSearchService(provider, repo),
+      notes,
+      { intervalMs },
+    );
+  };
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    notes = new MemoryNoteRepository();
+    repo = new PlaceholderEmbeddingRepository();
+    runtime = createRuntime();
+  });
+
+  afterEach(() => {
+    runtime.stop();
+    vi.useRealTimers();
+  });
+
+  it("indexes missing and stale notes and removes orphaned indices", async () => {
+    await notes.saveMany([
+      makeNote("a.md"),
+      makeNote("b.md"),
+      makeNote("c.md"),
+    ]);
+    await indexService.indexNote(makeNote("a.md"));
+    await indexService.indexNote(makeNote("b.md", "old content"));
+    await indexService.indexNote(makeNote("gone.md"));
+
+    const report = await runtime.reconcile();
+
+    expect(report).toMatchObject({
+      notes: 3,
+      indexed: 2,
+      unchanged: 1,
+      removed: 1,
+      failed: 0,
+    });
+    expect((await repo.listAll()).map((i) => i.noteId).sort()).toEqual([
+      "a.md",
+      "b.md",
+      "c.md",
+    ]);
+    expect((await repo.load("b.md"))?.chunks[0].text).toContain("Body of b.md");
+
+    expect(await runtime.reconcile()).toMatchObject({
+      indexed: 0,
+      unchanged: 3,
+      removed: 0,
+    });
+  });
+
+  it("loads plain-text notes one at a time and never reads binaries", async () => {
+    await notes.saveMany([
+      makeNote("a.md"),
+      makeNote("image.png", "binary"),
+      makeNote("b.md"),
+    ]);
+    await indexService.indexNote(makeNote("image.png", "stale"));
+    const getAll = vi.spyOn(notes, "getAll");
+    const get = vi.spyOn(notes, "get");
+    // removed.md is deleted between listing and loading
+    vi.spyOn(notes, "listIds").mockResolvedValue([
+      "a.md",
+      "image.png",
+      "b.md",
+      "removed.md",
+    ]);
+
+    expect(await runtime.reconcile()).toMatchObject({
+      notes: 2,
+      indexed: 2,
+      removed: 1,
+      failed: 0,
+    });
+    expect(getAll).not.toHaveBeenCalled();
+    expect(get.mock.calls.map(([id]) => id)).toEqual([
+      "a.md",
+      "b.md",
+      "removed.md",
+    ]);
+    expect((await repo.listNoteIds()).sort()).toEqual(["a.md", "b.md"]);
+  });
+
+  it("counts failures and keeps going", async () => {
+    await notes.saveMany([makeNote("a.md"), makeNote("b.md")]);
+    vi.spyOn(indexService, "indexNote").mockImplementation(async (note) => {
+      if (note.id === "a.md") {
+        throw new Error("provider down");
+      }
+      return true;
+    });
+
+    expect(await runtime.reconcile()).toMatchObject({
+      notes: 2,
+      indexed: 1,
+      failed: 1,
+    });
+  });
+
+  it("shares one run between concurrent calls", async () => {
+    await notes.save(makeNote("a.md"));
+    const listIds = vi.spyOn(notes, "listIds");
+
+    const [first, second] = await Promise.all([
+      runtime.reconcile(),
+      runtime.reconcile(),
+    ]);
+
+    expect(first).toBe(second);
+    expect(listIds).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs after queued event handling", async () => {
+    const calls: string[] = [];
+    vi.spyOn(indexService, "deleteNoteIndex").mockImplementation(async () => {
+      calls.push("delete");
+    });
+    vi.spyOn(notes, "listIds").mockImplementation(async () => {
+      calls.push("reconcile");
+      return [];
+    });
+    runtime.start();
+
+    const deleted = eventBus.emit({
+      type: EventType.NoteDeleted,
+      timestamp: new Date(),
+      source: "test",
+      payload: { noteId: "a.md" },
+    });
+    await Promise.all([runtime.reconcile(), deleted]);
+
+    expect(calls).toEqual(["delete", "reconcile"]);
+  });
+
+  it("reconciles on the configured interval while started", async () => {
+    vi.useFakeTimers();
+    runtime = createRuntime(1000);
+    const reconcile = vi.spyOn(runtime, "reconcile");
+
+    runtime.start();
+    await vi.advanceTimersByTimeAsync(2500);
+    expect(reconcile).toHaveBeenCalledTimes(2);
+
+    runtime.stop();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(reconcile).toHaveBeenCalledTimes(2);
+  });
+});
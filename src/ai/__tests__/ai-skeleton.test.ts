@@ -15,6 +15,7 @@ import {
   AIRuntime,
 } from "../index.js";
 import { EventBus } from "../../core/event-bus.js";
+import { MemoryNoteRepository } from "../../repositories/memory-note-repository.js";
 import { EventType } from "../../types/index.js";
 import type { Note } from "../../types/index.js";
 
@@ -250,6 +251,16 @@ describe("PlaceholderEmbeddingRepository", () => {
     expect(all).toHaveLength(2);
   });
 
+  it("iterate() yields every saved index", async () => {
+    await repo.save(makeIndex({ noteId: "note-1" }));
+    await repo.save(makeIndex({ noteId: "note-2" }));
+    const ids: string[] = [];
+    for await (const index of repo.iterate()) {
+      ids.push(index.noteId);
+    }
+    expect(ids).toEqual(["note-1", "note-2"]);
+  });
+
   it("listAll() returns empty array when nothing saved", async () => {
     const all = await repo.listAll();
     expect(all).toHaveLength(0);
@@ -291,9 +302,15 @@ describe("EmbeddingIndexService", () => {
     expect(service).toBeInstanceOf(EmbeddingIndexService);
   });
 
-  it("indexNote() does not throw (no-op placeholder)", async () => {
+  it("indexNote() saves an index for the note", async () => {
     const note = makeNote();
-    await expect(service.indexNote(note)).resolves.toBeUndefined();
+    await expect(service.indexNote(note)).resolves.toBe(true);
+    expect(await repo.load("note-1")).toMatchObject({
+      noteId: "note-1",
+      notePath: "folder/note.md",
+      chunkerVersion: "placeholder-v1",
+      embeddingModelId: "stub-v1",
+    });
   });
 
   it("deleteNoteIndex() calls repository.delete()", async () => {
@@ -302,7 +319,7 @@ describe("EmbeddingIndexService", () => {
     expect(deleteSpy).toHaveBeenCalledWith("note-1");
   });
 
-  it("shouldReindex() always returns true", async () => {
+  it("shouldReindex() returns true for a note without an index", async () => {
     const result = await service.shouldReindex("note-1", "abc123");
     expect(result).toBe(true);
   });
@@ -327,7 +344,7 @@ describe("SemanticSearchService", () => {
     expect(service).toBeInstanceOf(SemanticSearchService);
   });
 
-  it("search() returns empty array (placeholder)", async () => {
+  it("search() returns an empty array when nothing is indexed", async () => {
     const results = await service.search({ query: "anything", topK: 5 });
     expect(results).toEqual([]);
   });
@@ -341,16 +358,19 @@ describe("AIRuntime", () => {
   let eventBus: EventBus;
   let indexService: EmbeddingIndexService;
   let searchService: SemanticSearchService;
+  let notes: MemoryNoteRepository;
+  let repo: PlaceholderEmbeddingRepository;
   let runtime: AIRuntime;
 
   beforeEach(() => {
     eventBus = new EventBus();
     const chunker = new PlaceholderChunker();
     const provider = new StubEmbeddingProvider();
-    const repo = new PlaceholderEmbeddingRepository();
+    repo = new PlaceholderEmbeddingRepository();
+    notes = new MemoryNoteRepository();
     indexService = new EmbeddingIndexService(chunker, provider, repo);
     searchService = new SemanticSearchService(provider, repo);
-    runtime = new AIRuntime(eventBus, indexService, searchService);
+    runtime = new AIRuntime(eventBus, indexService, searchService, notes);
   });
 
   it("can be instantiated", () => {
@@ -420,6 +440,49 @@ describe("AIRuntime", () => {
     runtime.stop();
   });
 
+  it("indexes upserted notes and drops the index of deleted ones", async () => {
+    await notes.save(makeNote({ id: "note-42" }));
+    runtime.start();
+
+    await eventBus.emit({
+      type: EventType.NoteUpserted,
+      timestamp: new Date(),
+      source: "test",
+      payload: { noteId: "note-42" },
+    });
+    expect(await repo.load("note-42")).toMatchObject({ noteId: "note-42" });
+
+    await eventBus.emit({
+      type: EventType.NoteDeleted,
+      timestamp: new Date(),
+      source: "test",
+      payload: { noteId: "note-42" },
+    });
+    expect(await repo.load("note-42")).toBeNull();
+
+    runtime.stop();
+  });
+
+  it("logs indexing failures without rejecting the emit", async () => {
+    await notes.save(makeNote());
+    vi.spyOn(indexService, "indexNote").mockRejectedValueOnce(
+      new Error("provider down"),
+    );
+    runtime.start();
+
+    const event = {
+      type: EventType.NoteUpserted,
+      timestamp: new Date(),
+      source: "test",
+      payload: { noteId: "note-1" },
+    };
+    await expect(eventBus.emit(event)).resolves.toBeUndefined();
+    await eventBus.emit(event);
+    expect(await repo.load("note-1")).not.toBeNull();
+
+    runtime.stop();
+  });
+
   it("getSearchService() returns the search service", () => {
     const svc = runtime.getSearchService();
     expect(svc).toBe(searchService);
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  EmbeddingIndexService,
+  EMBEDDING_SCHEMA_VERSION,
+  MarkdownChunker,
+  PlaceholderEmbeddingRepository,
+  StubEmbeddingProvider,
+} from "../index.js";
+import type { Note } from "../../types/index.js";
+
+const makeNote = (overrides?: Partial<Note>): Note => ({
+  id: "note-1",
+  path: "folder/note.md",
+  content: "# Title\n\nFirst section.\n\n## Next\n\nSecond section.",
+  mtime: new Date("2024-01-01"),
+  ctime: new Date("2024-01-01"),
+  size: 48,
+  ...overrides,
+});
+
+describe("EmbeddingIndexService.indexNote", () => {
+  let provider: StubEmbeddingProvider;
+  let repo: PlaceholderEmbeddingRepository;
+  let service: EmbeddingIndexService;
+
+  beforeEach(() => {
+    provider = new StubEmbeddingProvider(4);
+    repo = new PlaceholderEmbeddingRepository();
+    service = new EmbeddingIndexService(new MarkdownChunker(), provider, repo);
+  });
+
+  it("stores one embedding per chunk with the versioning metadata", async () => {
+    await expect(service.indexNote(makeNote())).resolves.toBe(true);
+
+    const index = await repo.load("note-1");
+    expect(index).toMatchObject({
+      schemaVersion: EMBEDDING_SCHEMA_VERSION,
+      noteId: "note-1",
+      notePath: "folder/note.md",
+      sourceMtime: new Date("2024-01-01").getTime(),
+      embeddingModelId: "stub-v1",
+      chunkerVersion: new MarkdownChunker().version(),
+    });
+    expect(index?.contentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(index?.chunks).toEqual([
+      {
+        chunkId: "note-1-0",
+        order: 0,
+        text: "# Title\n\nFirst section.",
+        start: 0,
+        end: 23,
+        headingContext: "Title",
+        embedding: [0, 0, 0, 0],
+      },
+      {
+        chunkId: "note-1-1",
+        order: 1,
+        text: "## Next\n\nSecond section.",
+        start: 25,
+        end: 49,
+        headingContext: "Title > Next",
+        embedding: [0, 0, 0, 0],
+      },
+    ]);
+  });
+
+  it("skips unchanged notes and reindexes changed content", async () => {
+    const embed = vi.spyOn(provider, "embed");
+    await service.indexNote(makeNote());
+
+    await expect(service.indexNote(makeNote())).resolves.toBe(false);
+    expect(embed).toHaveBeenCalledTimes(1);
+
+    await expect(
+      service.indexNote(makeNote({ content: "Changed" })),
+    ).resolves.toBe(true);
+    expect((await repo.load("note-1"))?.chunks[0].text).toBe("Changed");
+
+    await expect(service.indexNote(makeNote(), { force: true })).resolves.toBe(
+      true,
+    );
+    expect(embed).toHaveBeenCalledTimes(3);
+  });
+
+  it("reindexes when the model, chunker or schema version changed", async () => {
+    await service.indexNote(makeNote());
+    const stored = (await repo.load("note-1"))!;
+    const hash = stored.contentHash;
+
+    expect(await service.shouldReindex("note-1", hash)).toBe(false);
+
+    await repo.save({ ...stored, embeddingModelId: "old-model" });
+    expect(await service.shouldReindex("note-1", hash)).toBe(true);
+
+    await repo.save({ ...stored, chunkerVersion: "placeholder-v1" });
+    expect(await service.shouldReindex("note-1", hash)).toBe(true);
+
+    await repo.save({ ...stored, schemaVersion: "0" });
+    expect(await service.shouldReindex("note-1", hash)).toBe(true);
+  });
+
+  it("embeds chunks in batches", async () => {
+    const embed = vi.spyOn(provider, "embed");
+    service = new EmbeddingIndexService(
+      new MarkdownChunker({ maxChars: 20, overlapChars: 0 }),
+      provider,
+      repo,
+      { batchSize: 2 },
+    );
+    const content = ["# A", "alpha", "# B", "beta", "# C", "gamma"].join("\n");
+
+    await service.indexNote(makeNote({ content }));
+
+    expect(embed.mock.calls.map(([texts]) => texts)).toEqual([
+      ["# A\nalpha", "# B\nbeta"],
+      ["# C\ngamma"],
+    ]);
+    expect((await repo.load("note-1"))?.chunks).toHaveLength(3);
+  });
+
+  it("fails without saving when the provider returns too few vectors", async () => {
+    vi.spyOn(provider, "embed").mockResolvedValueOnce([]);
+
+    await expect(service.indexNote(makeNote())).rejects.toThrow(
+      "Embedding provider returned 0 vectors for 2 chunks",
+    );
+    expect(await repo.load("note-1")).toBeNull();
+  });
+
+  it("does not index binary notes", async () => {
+    const note = makeNote({ path: "image.png", content: Buffer.from([1, 2]) });
+    await expect(service.indexNote(note)).resolves.toBe(false);
+    expect(await repo.load("note-1")).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { FileEmbeddingRepository, SemanticSearchService } from "../index.js";
+import type { NoteEmbeddingIndex } from "../index.js";
+import { encodeNoteId } from "../repositories/index.js";
+import { StubEmbeddingProvider } from "../providers/index.js";
+
+const makeIndex = (
+  overrides?: Partial<NoteEmbeddingIndex>,
+): NoteEmbeddingIndex => ({
+  schemaVersion: "1",
+  noteId: "folder/note.md",
+  notePath: "folder/note.md",
+  sourceMtime: 1704067200000,
+  indexedAt: 1704067300000,
+  embeddingModelId: "stub-v1",
+  chunkerVersion: "markdown-v1-1500-200",
+  contentHash: "abc123",
+  chunks: [
+    {
+      chunkId: "folder/note.md-0",
+      order: 0,
+      text: "Hello",
+      start: 0,
+      end: 5,
+      embedding: [0.1, 0.2],
+    },
+  ],
+  ...overrides,
+});
+
+describe("encodeNoteId", () => {
+  it("produces a flat, case-safe file name", () => {
+    expect(encodeNoteId("folder/note.md")).toBe("folder%2Fnote%2Emd.json");
+    expect(encodeNoteId("../Note.md")).toBe("%2E%2E%2F%4Eote%2Emd.json");
+    expect(encodeNoteId("Note")).not.toBe(encodeNoteId("note"));
+    expect(encodeNoteId("日記")).toBe("%E6%97%A5%E8%A8%98.json");
+  });
+
+  it("shortens long ids with a hash suffix", () => {
+    const long = "a".repeat(200);
+    const name = encodeNoteId(`${long}/one.md`);
+    expect(name.length).toBeLessThanOrEqual(185);
+    expect(name).toMatch(/~[0-9a-f]{16}\.json$/);
+    expect(name).not.toBe(encodeNoteId(`${long}/two.md`));
+  });
+});
+
+describe("FileEmbeddingRepository", () => {
+  let dir: string;
+  let repo: FileEmbeddingRepository;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "obsls-embeddings-"));
+    repo = new FileEmbeddingRepository(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("persists one file per note across instances", async () => {
+    await repo.save(makeIndex());
+    await repo.save(makeIndex({ noteId: "other.md", notePath: "other.md" }));
+
+    expect(readdirSync(dir).sort()).toEqual([
+      "folder%2Fnote%2Emd.json",
+      "other%2Emd.json",
+    ]);
+    const reopened = new FileEmbeddingRepository(dir);
+    expect(await reopened.load("folder/note.md")).toEqual(makeIndex());
+    expect(await reopened.listAll()).toHaveLength(2);
+  });
+
+  it("overwrites atomically without leaving temp files", async () => {
+    await repo.save(makeIndex({ contentHash: "first" }));
+    await repo.save(makeIndex({ contentHash: "second" }));
+
+    expect(readdirSync(dir)).toEqual(["folder%2Fnote%2Emd.json"]);
+    expect((await repo.load("folder/note.md"))?.contentHash).toBe("second");
+  });
+
+  it("deletes indices and tolerates missing ones", async () => {
+    await repo.save(makeIndex());
+    await repo.delete("folder/note.md");
+    await expect(repo.delete("folder/note.md")).resolves.toBeUndefined();
+    expect(await repo.load("folder/note.md")).toBeNull();
+  });
+
+  it("treats a missing directory as empty", async () => {
+    const missing = new FileEmbeddingRepository(path.join(dir, "nope"));
+    expect(await missing.listAll()).toEqual([]);
+    expect(await missing.load("a.md")).toBeNull();
+  });
+
+  it("iterates indices one at a time", async () => {
+    await repo.save(makeIndex({ noteId: "a.md" }));
+    await repo.save(makeIndex({ noteId: "b.md" }));
+
+    const seen: string[] = [];
+    for await (const index of repo.iterate()) {
+      seen.push(index.noteId);
+    }
+    expect(seen.sort()).toEqual(["a.md", "b.md"]);
+  });
+
+  it("lists note ids from file names, reading only hash-suffixed ones", async () => {
+    const long = `${"a".repeat(200)}.md`;
+    await repo.save(makeIndex());
+    await repo.save(makeIndex({ noteId: long, notePath: long }));
+
+    expect((await repo.listNoteIds()).sort()).toEqual([long, "folder/note.md"]);
+  });
+
+  it("loads metadata without the chunks", async () => {
+    const { chunks: _chunks, ...metadata } = makeIndex();
+    await repo.save(makeIndex());
+
+    expect(await repo.loadMetadata("folder/note.md")).toEqual(metadata);
+    expect(await repo.loadMetadata("missing.md")).toBeNull();
+  });
+
+  it("loads metadata from files with the chunks first", async () => {
+    const { chunks, ...metadata } = makeIndex();
+    writeFileSync(
+      path.join(dir, encodeNoteId("folder/note.md")),
+      JSON.stringify({ chunks, ...metadata }),
+    );
+
+    expect(await repo.loadMetadata("folder/note.md")).toEqual(metadata);
+  });
+
+  it("quarantines corrupt files instead of failing search", async () => {
+    await repo.save(makeIndex({ noteId: "good.md" }));
+    writeFileSync(
+      path.join(dir, "broken%2Emd.json"),
+      '{"noteId": "broken.md", ',
+    );
+    writeFileSync(path.join(dir, "wrong%2Emd.json"), '{"noteId": 42}');
+
+    const search = new SemanticSearchService(
+      new StubEmbeddingProvider(2),
+      repo,
+    );
+    const results = await search.search({ query: "hello" });
+
+    expect(results.map((r) => r.noteId)).toEqual(["good.md"]);
+    expect(readdirSync(dir).sort()).toEqual(["good%2Emd.json", "quarantine"]);
+    expect(readdirSync(path.join(dir, "quarantine")).sort()).toEqual([
+      expect.stringMatching(/^broken%2Emd\.json\.\d+$/),
+      expect.stringMatching(/^wrong%2Emd\.json\.\d+$/),
+    ]);
+    expect(await repo.load("broken.md")).toBeNull();
+    expect(await repo.loadMetadata("wrong.md")).toBeNull();
+  });
+});
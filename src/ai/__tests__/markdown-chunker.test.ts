@@ -0,0 +1,204 @@
+import { describe, it, expect } from "vitest";
+import { MarkdownChunker } from "../index.js";
+import type { SemanticChunk } from "../index.js";
+
+const expectAccurateOffsets = (content: string, chunks: SemanticChunk[]) => {
+  for (const chunk of chunks) {
+    expect(content.slice(chunk.start, chunk.end)).toBe(chunk.text);
+  }
+};
+
+const paragraph = (words: number, seed: string) =>
+  Array.from({ length: words }, (_, i) => `${seed}${i}`).join(" ") + ".";
+
+describe("MarkdownChunker", () => {
+  it("splits on headings and fills in the heading breadcrumb", () => {
+    const content = [
+      "---",
+      "tags: [ai]",
+      "---",
+      "Intro before any heading.",
+      "",
+      "# Project",
+      "",
+      "## Goals",
+      "",
+      "Ship the chunker.",
+      "",
+      "### Details",
+      "Offsets must be exact.",
+      "",
+      "## Risks ##",
+      "",
+      "- one",
+      "- two",
+    ].join("\n");
+
+    const chunks = new MarkdownChunker().chunk("note-1", content);
+
+    expect(chunks.map((c) => [c.text, c.headingContext])).toEqual([
+      ["Intro before any heading.", undefined],
+      ["## Goals\n\nShip the chunker.", "Project > Goals"],
+      ["### Details\nOffsets must be exact.", "Project > Goals > Details"],
+      ["## Risks ##\n\n- one\n- two", "Project > Risks"],
+    ]);
+    expect(chunks.map((c) => c.chunkId)).toEqual([
+      "note-1-0",
+      "note-1-1",
+      "note-1-2",
+      "note-1-3",
+    ]);
+    expect(chunks.map((c) => c.order)).toEqual([0, 1, 2, 3]);
+    expectAccurateOffsets(content, chunks);
+  });
+
+  it("recognises setext headings", () => {
+    const content = "Title\n=====\n\nBody text.\n\nPart\n----\nMore text.";
+    const chunks = new MarkdownChunker().chunk("n", content);
+    expect(chunks.map((c) => c.headingContext)).toEqual([
+      "Title",
+      "Title > Part",
+    ]);
+  });
+
+  it("packs blocks up to maxChars and overlaps chunks within a section", () => {
+    const paragraphs = [
+      paragraph(20, "a"),
+      paragraph(20, "b"),
+      paragraph(20, "c"),
+    ];
+    const content = `# Notes\n\n${paragraphs.join("\n\n")}`;
+    const chunker = new MarkdownChunker({ maxChars: 160, overlapChars: 30 });
+
+    const chunks = chunker.chunk("n", content);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(160);
+      expect(chunk.headingContext).toBe("Notes");
+    }
+    for (let i = 1; i < chunks.length; i++) {
+      // Overlap starts on a word inside the previous chunk
+      expect(chunks[i].start!).toBeLessThan(chunks[i - 1].end!);
+      expect(chunks[i].start!).toBeGreaterThan(chunks[i - 1].start!);
+      expect(content[chunks[i].start! - 1]).toMatch(/\s/);
+    }
+    expect(chunks[chunks.length - 1].end).toBe(content.length);
+    expectAccurateOffsets(content, chunks);
+  });
+
+  it("splits an oversized paragraph at sentence or word boundaries", () => {
+    const content = Array.from(
+      { length: 12 },
+      (_, i) => `Sentence number ${i} talks about something.`,
+    ).join(" ");
+    const chunks = new MarkdownChunker({
+      maxChars: 120,
+      overlapChars: 0,
+    }).chunk("n", content);
+
+    expect(chunks.length).toBeGreaterThan(3);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(120);
+      expect(chunk.text.endsWith(".")).toBe(true);
+    }
+    expect(chunks.map((c) => c.text).join(" ")).toBe(content);
+    expectAccurateOffsets(content, chunks);
+  });
+
+  it("keeps code fences and tables intact even when over budget", () => {
+    const code = [
+      "```ts",
+      "const a = 1;",
+      "",
+      "# not a heading",
+      "const b = 2;",
+      "```",
+    ].join("\n");
+    const table = [
+      "| key | value |",
+      "| --- | ----- |",
+      "| one | 1     |",
+      "| two | 2     |",
+    ].join("\n");
+    const content = `## Code\n\n${paragraph(6, "x")}\n\n${code}\n\n${table}\n\nAfter.`;
+
+    const chunks = new MarkdownChunker({
+      maxChars: 30,
+      overlapChars: 10,
+    }).chunk("n", content);
+
+    expect(chunks.map((c) => c.text)).toContain(code);
+    expect(chunks.map((c) => c.text)).toContain(table);
+    expect(chunks.every((c) => c.headingContext === "Code")).toBe(true);
+    expectAccurateOffsets(content, chunks);
+  });
+
+  it("keeps a list with a nested code fence together", () => {
+    const list =
+      "- step one\n  ```sh\n  npm test\n\n  npm run build\n  ```\n- step two";
+    const content = `${list}\n\nDone.`;
+    const chunks = new MarkdownChunker({
+      maxChars: 20,
+      overlapChars: 0,
+    }).chunk("n", content);
+
+    expect(chunks.map((c) => c.text)).toEqual([list, "Done."]);
+  });
+
+  it("skips headings carried by a subheading and empty notes", () => {
+    const chunker = new MarkdownChunker();
+    expect(chunker.chunk("n", "")).toEqual([]);
+    expect(chunker.chunk("n", "---\ntitle: x\n---\n")).toEqual([]);
+
+    const chunks = chunker.chunk("n", "# A\n## B\ntext");
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({
+      text: "## B\ntext",
+      headingContext: "A > B",
+    });
+  });
+
+  it("keeps headings that no later section carries", () => {
+    const chunker = new MarkdownChunker();
+
+    expect(chunker.chunk("n", "# Meeting with Alex")).toEqual([
+      expect.objectContaining({
+        text: "# Meeting with Alex",
+        headingContext: "Meeting with Alex",
+      }),
+    ]);
+    expect(
+      chunker.chunk("n", "# A\n## B").map((c) => [c.text, c.headingContext]),
+    ).toEqual([["## B", "A > B"]]);
+    expect(
+      chunker
+        .chunk("n", "## A\n# B\ntext")
+        .map((c) => [c.text, c.headingContext]),
+    ).toEqual([
+      ["## A", "A"],
+      ["# B\ntext", "B"],
+    ]);
+    expect(chunker.chunk("n", "#")).toEqual([]);
+  });
+
+  it("handles CRLF line endings", () => {
+    const content = "# Title\r\n\r\nLine one\r\n\r\n## Sub\r\nLine two\r\n";
+    const chunks = new MarkdownChunker().chunk("n", content);
+    expect(chunks.map((c) => c.text)).toEqual([
+      "# Title\r\n\r\nLine one",
+      "## Sub\r\nLine two",
+    ]);
+    expectAccurateOffsets(content, chunks);
+  });
+
+  it("version() reflects the algorithm and budget", () => {
+    expect(new MarkdownChunker().version()).toBe("markdown-v2-1500-200");
+    expect(
+      new MarkdownChunker({ maxChars: 800, overlapChars: 100 }).version(),
+    ).toBe("markdown-v2-800-100");
+    expect(new MarkdownChunker().version()).not.toBe(
+      new MarkdownChunker({ maxChars: 800 }).version(),
+    );
+  });
+});
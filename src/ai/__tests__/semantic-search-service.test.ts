@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  EmbeddingIndexService,
+  MarkdownChunker,
+  PlaceholderEmbeddingRepository,
+  SemanticSearchService,
+} from "../index.js";
+import type { IEmbeddingProvider } from "../index.js";
+import { cosineSimilarity } from "../services/semantic-search-service.js";
+import type { Note } from "../../types/index.js";
+
+const VOCABULARY = ["cat", "dog", "car", "engine"];
+
+/** Bag-of-words vectors over a tiny vocabulary, so similarity is predictable */
+class KeywordEmbeddingProvider implements IEmbeddingProvider {
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const words = text.toLowerCase().match(/[a-z]+/g) ?? [];
+      return VOCABULARY.map(
+        (term) => words.filter((word) => word === term).length,
+      );
+    });
+  }
+
+  modelId(): string {
+    return "keywords-v1";
+  }
+
+  dimensions(): number {
+    return VOCABULARY.length;
+  }
+}
+
+const makeNote = (id: string, content: string): Note => ({
+  id,
+  path: `${id}.md`,
+  content,
+  mtime: new Date("2024-01-01"),
+  ctime: new Date("2024-01-01"),
+  size: content.length,
+});
+
+describe("cosineSimilarity", () => {
+  it("scores identical, orthogonal and opposite vectors", () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+  });
+
+  it("returns 0 for zero vectors", () => {
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe("SemanticSearchService", () => {
+  let repo: PlaceholderEmbeddingRepository;
+  let service: SemanticSearchService;
+
+  beforeEach(async () => {
+    const provider = new KeywordEmbeddingProvider();
+    repo = new PlaceholderEmbeddingRepository();
+    service = new SemanticSearchService(provider, repo);
+    const indexer = new EmbeddingIndexService(
+      new MarkdownChunker(),
+      provider,
+      repo,
+    );
+    await indexer.indexNote(
+      makeNote(
+        "pets",
+        "# Pets\n\n## Cats\n\ncat cat cat\n\n## Dogs\n\ndog\n\n## Both\n\ncat dog",
+      ),
+    );
+    await indexer.indexNote(makeNote("garage", "# Garage\n\ncar engine cat"));
+  });
+
+  it("ranks chunks by cosine similarity and applies topK", async () => {
+    const results = await service.search({ query: "cat", topK: 3 });
+
+    expect(results.map((r) => [r.notePath, r.headingContext])).toEqual([
+      ["pets.md", "Pets > Cats"],
+      ["pets.md", "Pets > Both"],
+      ["garage.md", "Garage"],
+    ]);
+    expect(results[0]).toMatchObject({
+      noteId: "pets",
+      chunkId: "pets-0",
+      chunkText: "## Cats\n\ncat cat cat",
+      order: 0,
+    });
+    expect(results[0].score).toBeCloseTo(1);
+    expect(results[1].score).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it("drops results below minScore", async () => {
+    const results = await service.search({ query: "cat", minScore: 0.9 });
+    expect(results.map((r) => r.chunkId)).toEqual(["pets-0"]);
+  });
+
+  it("groups matches per note with the best chunk and supporting snippets", async () => {
+    const notes = await service.searchNotes({
+      query: "cat dog",
+      minScore: 0.1,
+      snippetsPerNote: 1,
+    });
+
+    expect(notes.map((n) => n.noteId)).toEqual(["pets", "garage"]);
+    expect(notes[0].score).toBeCloseTo(1);
+    expect(notes[0].bestChunk.headingContext).toBe("Pets > Both");
+    expect(notes[0].snippets).toHaveLength(1);
+    expect(notes[0].snippets[0].score).toBeCloseTo(Math.SQRT1_2);
+    expect(notes[1].snippets).toEqual([]);
+
+    expect(
+      await service.searchNotes({ query: "cat dog", topK: 1 }),
+    ).toHaveLength(1);
+  });
+
+  it("does not let one note's many matches crowd out other notes", async () => {
+    const indexer = new EmbeddingIndexService(
+      new MarkdownChunker(),
+      new KeywordEmbeddingProvider(),
+      repo,
+    );
+    await indexer.indexNote(
+      makeNote("cats", "# A\n\ncat\n\n# B\n\ncat\n\n# C\n\ncat\n\n# D\n\ncat"),
+    );
+
+    const notes = await service.searchNotes({
+      query: "cat",
+      topK: 2,
+      snippetsPerNote: 1,
+    });
+
+    expect(notes.map((n) => n.noteId)).toEqual(["cats", "pets"]);
+    expect(notes[0].snippets.map((r) => r.headingContext)).toEqual(["B"]);
+  });
+
+  it("skips indices built with a different embedding model", async () => {
+    const stored = (await repo.load("garage"))!;
+    await repo.save({ ...stored, embeddingModelId: "other-model" });
+
+    const results = await service.search({ query: "engine" });
+    expect(results.every((r) => r.noteId !== "garage")).toBe(true);
+  });
+
+  it("returns nothing for a blank query", async () => {
+    await expect(service.search({ query: "  " })).resolves.toEqual([]);
+  });
+});
@@ -1,2 +1,4 @@
 export type { IChunker } from "./chunker.js";
 export { PlaceholderChunker } from "./placeholder-chunker.js";
+export { MarkdownChunker } from "./markdown-chunker.js";
+export type { MarkdownChunkerOptions } from "./markdown-chunker.js";
@@ -0,0 +1,434 @@
+import type { SemanticChunk } from "../types/index.js";
+import type { IChunker } from "./chunker.js";
+
+/**
+ * Bump whenever the splitting rules change so existing indices are rebuilt.
+ */
+const ALGORITHM_VERSION = "markdown-v2";
+
+export interface MarkdownChunkerOptions {
+  /** Target chunk size in characters (roughly 4 characters per token) */
+  maxChars?: number;
+  /** Characters of the previous chunk repeated at the start of the next one in the same section */
+  overlapChars?: number;
+}
+
+type BlockType =
+  | "frontmatter"
+  | "heading"
+  | "code"
+  | "table"
+  | "list"
+  | "paragraph";
+
+interface Block {
+  type: BlockType;
+  start: number;
+  end: number;
+  /** Code fences, tables and lists containing a fence are never split */
+  atomic: boolean;
+  level?: number;
+  title?: string;
+}
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Section {
+  breadcrumb: string[];
+  blocks: Block[];
+}
+
+interface Piece {
+  start: number;
+  end: number;
+  atomic: boolean;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}\s*$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])[ \t]+/;
+const TABLE_ROW = /^\s*\|/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const isBlank = (line: Line | undefined) =>
+  line !== undefined && line.text.trim() === "";
+
+/**
+ * Chunker that follows the structure of a Markdown note.
+ *
+ * Headings start a new chunk and contribute to the `headingContext`
+ * breadcrumb ("Title > Section > Subsection"). Within a section, paragraphs,
+ * lists, tables and code fences are packed into chunks of up to `maxChars`;
+ * paragraphs and lists longer than that are split at line, sentence or word
+ * boundaries, while code fences and tables are always kept whole even if
+ * they exceed the budget. Consecutive chunks of a section overlap by up to
+ * `overlapChars`. Frontmatter is not indexed.
+ *
+ * Every chunk's `text` is exactly `content.slice(start, end)`.
+ */
+export class MarkdownChunker implements IChunker {
+  private readonly maxChars: number;
+  private readonly overlapChars: number;
+
+  constructor(options: MarkdownChunkerOptions = {}) {
+    this.maxChars = Math.max(1, options.maxChars ?? 1500);
+    this.overlapChars = Math.min(
+      Math.max(0, options.overlapChars ?? 200),
+      Math.floor(this.maxChars / 2),
+    );
+  }
+
+  chunk(noteId: string, content: string): SemanticChunk[] {
+    const chunks: SemanticChunk[] = [];
+    const sections = this.sections(this.parse(content));
+    for (const [i, section] of sections.entries()) {
+      if (this.isCarriedByNext(section, sections[i + 1])) {
+        continue;
+      }
+      const headingContext =
+        section.breadcrumb.length > 0
+          ? section.breadcrumb.join(" > ")
+          : undefined;
+      for (const [start, end] of this.pack(content, section.blocks)) {
+        chunks.push({
+          chunkId: `${noteId}-${chunks.length}`,
+          noteId,
+          order: chunks.length,
+          text: content.slice(start, end),
+          start,
+          end,
+          ...(headingContext !== undefined && { headingContext }),
+        });
+      }
+    }
+    return chunks;
+  }
+
+  version(): string {
+    return `${ALGORITHM_VERSION}-${this.maxChars}-${this.overlapChars}`;
+  }
+
+  private parse(content: string): Block[] {
+    const lines: Line[] = [];
+    let offset = 0;
+    for (const text of content.split("\n")) {
+      lines.push({
+        text,
+        start: offset,
+        end: offset + text.trimEnd().length,
+      });
+      offset += text.length + 1;
+    }
+
+    const blocks: Block[] = [];
+    const push = (type: BlockType, from: number, to: number, extra = {}) => {
+      blocks.push({
+        type,
+        start:
+          lines[from].start +
+          lines[from].text.length -
+          lines[from].text.trimStart().length,
+        end: lines[to].end,
+        atomic: type === "code" || type === "table",
+        ...extra,
+      });
+    };
+
+    let i = 0;
+    if (lines[0]?.text.trimEnd() === "---") {
+      const close = lines.findIndex(
+        (line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line.text),
+      );
+      if (close > 0) {
+        push("frontmatter", 0, close);
+        i = close + 1;
+      }
+    }
+
+    while (i < lines.length) {
+      const line = lines[i];
+      const text = line.text;
+      if (isBlank(line)) {
+        i++;
+        continue;
+      }
+
+      const fence = FENCE.exec(text);
+      if (fence) {
+        const close = this.findFenceEnd(lines, i, fence[1]);
+        push("code", i, close);
+        i = close + 1;
+        continue;
+      }
+
+      const heading = ATX_HEADING.exec(text);
+      if (heading) {
+        const title = (heading[2] ?? "").replace(/[ \t]+#+$/, "").trim();
+        push("heading", i, i, { level: heading[1].length, title });
+        i++;
+        continue;
+      }
+
+      const next = lines[i + 1];
+      if (
+        next &&
+        !TABLE_ROW.test(text) &&
+        !LIST_ITEM.test(text) &&
+        SETEXT_UNDERLINE.test(next.text)
+      ) {
+        const level = next.text.trim().startsWith("=") ? 1 : 2;
+        push("heading", i, i + 1, { level, title: text.trim() });
+        i += 2;
+        continue;
+      }
+
+      if (THEMATIC_BREAK.test(text)) {
+        i++;
+        continue;
+      }
+
+      if (
+        TABLE_ROW.test(text) ||
+        (text.includes("|") && next && TABLE_SEPARATOR.test(next.text))
+      ) {
+        let end = i;
+        while (
+          lines[end + 1] &&
+          !isBlank(lines[end + 1]) &&
+          lines[end + 1].text.includes("|")
+        ) {
+          end++;
+        }
+        push("table", i, end);
+        i = end + 1;
+        continue;
+      }
+
+      if (LIST_ITEM.test(text)) {
+        let end = i;
+        let hasFence = false;
+        let j = i + 1;
+        while (j < lines.length) {
+          const candidate = lines[j];
+          if (isBlank(candidate)) {
+            // A blank line only continues the list if more list content follows
+            let k = j;
+            while (isBlank(lines[k])) {
+              k++;
+            }
+            if (
+              k < lines.length &&
+              (LIST_ITEM.test(lines[k].text) || /^\s{2,}\S/.test(lines[k].text))
+            ) {
+              j = k;
+              continue;
+            }
+            break;
+          }
+          // Fences indented under an item belong to the list
+          const nested =
+            /^\s/.test(candidate.text) &&
+            FENCE.exec(candidate.text.trimStart());
+          if (nested) {
+            hasFence = true;
+            j = this.findFenceEnd(lines, j, nested[1]);
+            end = j;
+            j++;
+            continue;
+          }
+          if (
+            !LIST_ITEM.test(candidate.text) &&
+            !/^\s/.test(candidate.text) &&
+            (ATX_HEADING.test(candidate.text) ||
+              FENCE.test(candidate.text) ||
+              TABLE_ROW.test(candidate.text) ||
+              THEMATIC_BREAK.test(candidate.text))
+          ) {
+            break;
+          }
+          end = j;
+          j++;
+        }
+        push("list", i, end, { atomic: hasFence });
+        i = end + 1;
+        continue;
+      }
+
+      let end = i;
+      while (lines[end + 1] && !this.interruptsParagraph(lines[end + 1])) {
+        end++;
+      }
+      push("paragraph", i, end);
+      i = end + 1;
+    }
+    return blocks;
+  }
+
+  /** Index of the closing fence line, or the last line if the fence is never closed */
+  private findFenceEnd(lines: Line[], open: number, marker: string): number {
+    const closing = new RegExp(
+      `^\\s*${marker[0] === "`" ? "`" : "~"}{${marker.length},}\\s*$`,
+    );
+    for (let j = open + 1; j < lines.length; j++) {
+      if (closing.test(lines[j].text)) {
+        return j;
+      }
+    }
+    return lines.length - 1;
+  }
+
+  private interruptsParagraph(line: Line): boolean {
+    return (
+      isBlank(line) ||
+      FENCE.test(line.text) ||
+      ATX_HEADING.test(line.text) ||
+      TABLE_ROW.test(line.text) ||
+      LIST_ITEM.test(line.text) ||
+      THEMATIC_BREAK.test(line.text)
+    );
+  }
+
+  private sections(blocks: Block[]): Section[] {
+    const sections: Section[] = [{ breadcrumb: [], blocks: [] }];
+    const trail: { level: number; title: string }[] = [];
+    for (const block of blocks) {
+      if (block.type === "frontmatter") {
+        continue;
+      }
+      if (block.type === "heading") {
+        while (
+          trail.length > 0 &&
+          trail[trail.length - 1].level >= block.level!
+        ) {
+          trail.pop();
+        }
+        trail.push({ level: block.level!, title: block.title! });
+        sections.push({
+          breadcrumb: trail.map((entry) => entry.title).filter(Boolean),
+          blocks: [],
+        });
+      }
+      sections[sections.length - 1].blocks.push(block);
+    }
+    return sections.filter((section) => section.blocks.length > 0);
+  }
+
+  /**
+   * A heading without content of its own is skipped when the next section
+   * is nested under it, since it lives on in that section's breadcrumb.
+   * Otherwise (e.g. a note that is just a title) the heading is its own
+   * chunk; untitled headings are never worth one.
+   */
+  private isCarriedByNext(
+    section: Section,
+    next: Section | undefined,
+  ): boolean {
+    const [heading, ...rest] = section.blocks;
+    if (heading.type !== "heading" || rest.length > 0) {
+      return false;
+    }
+    return !heading.title || (next?.blocks[0].level ?? 0) > heading.level!;
+  }
+
+  /** Group a section's blocks into [start, end) ranges within the budget */
+  private pack(content: string, blocks: Block[]): [number, number][] {
+    const pieces = blocks.flatMap((block) =>
+      block.atomic ? [block] : this.split(content, block),
+    );
+    const ranges: [number, number][] = [];
+    let start = pieces[0].start;
+    let end = pieces[0].end;
+    for (const piece of pieces.slice(1)) {
+      if (piece.end - start <= this.maxChars) {
+        end = piece.end;
+        continue;
+      }
+      ranges.push([start, end]);
+      start = this.overlapStart(content, pieces, start, end, piece);
+      end = piece.end;
+    }
+    ranges.push([start, end]);
+    return ranges;
+  }
+
+  /**
+   * Split a paragraph or list so each piece plus overlap fits the budget,
+   * preferring line breaks, then sentence ends, then whitespace.
+   */
+  private split(content: string, block: Block): Piece[] {
+    const size = Math.max(1, this.maxChars - this.overlapChars);
+    const pieces: Piece[] = [];
+    let start = block.start;
+    while (block.end - start > size) {
+      const limit = start + size;
+      const window = content.slice(start, limit + 1);
+      const floor = Math.floor(size / 2);
+      let cut = -1;
+      for (const pattern of [/\n/g, /[.!?。！？][ \t]/g, /\s/g]) {
+        for (const match of window.matchAll(pattern)) {
+          const at = match.index! + match[0].length;
+          if (at > floor) {
+            cut = at;
+          }
+        }
+        if (cut > 0) {
+          break;
+        }
+      }
+      const cutAt = cut > 0 ? start + cut : limit;
+      const pieceEnd = start + content.slice(start, cutAt).trimEnd().length;
+      pieces.push({ start, end: pieceEnd, atomic: false });
+      start = cutAt;
+      while (start < block.end && /\s/.test(content[start])) {
+        start++;
+      }
+    }
+    pieces.push({ start, end: block.end, atomic: false });
+    return pieces;
+  }
+
+  /**
+   * Start of the chunk that follows [prevStart, prevEnd): up to overlapChars
+   * earlier than `next`, beginning on a word and never inside a code fence
+   * or table.
+   */
+  private overlapStart(
+    content: string,
+    pieces: Piece[],
+    prevStart: number,
+    prevEnd: number,
+    next: Piece,
+  ): number {
+    if (
+      this.overlapChars === 0 ||
+      next.end - next.start + this.overlapChars > this.maxChars
+    ) {
+      return next.start;
+    }
+    let candidate = Math.max(prevEnd - this.overlapChars, prevStart + 1);
+    const inside = pieces.find(
+      (piece) =>
+        piece.atomic && piece.start < candidate && candidate < piece.end,
+    );
+    if (inside) {
+      candidate = inside.end;
+    }
+    if (candidate > 0 && !/\s/.test(content[candidate - 1])) {
+      const boundary = content.slice(candidate, next.start).search(/\s/);
+      if (boundary < 0) {
+        return next.start;
+      }
+      candidate += boundary;
+    }
+    while (candidate < next.start && /\s/.test(content[candidate])) {
+      candidate++;
+    }
+    return candidate;
+  }
+}
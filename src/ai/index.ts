@@ -2,20 +2,32 @@ export type {
   SemanticChunk,
   ChunkEmbedding,
   NoteEmbeddingIndex,
+  NoteEmbeddingMetadata,
   SearchRequest,
   SearchResult,
+  NoteSearchRequest,
+  NoteSearchResult,
+  ReconcileReport,
 } from "./types/index.js";
 
-export type { IChunker } from "./chunking/index.js";
-export { PlaceholderChunker } from "./chunking/index.js";
+export type { IChunker, MarkdownChunkerOptions } from "./chunking/index.js";
+export { PlaceholderChunker, MarkdownChunker } from "./chunking/index.js";
 
 export type { IEmbeddingProvider } from "./providers/index.js";
 export { StubEmbeddingProvider } from "./providers/index.js";
 
 export type { IEmbeddingRepository } from "./repositories/index.js";
-export { PlaceholderEmbeddingRepository } from "./repositories/index.js";
+export {
+  PlaceholderEmbeddingRepository,
+  FileEmbeddingRepository,
+} from "./repositories/index.js";
 
-export { EmbeddingIndexService } from "./services/index.js";
+export {
+  EmbeddingIndexService,
+  EMBEDDING_SCHEMA_VERSION,
+} from "./services/index.js";
+export type { EmbeddingIndexServiceOptions } from "./services/index.js";
 export { SemanticSearchService } from "./services/index.js";
 
-export { AIRuntime } from "./runtime/index.js";
+export { AIRuntime, createAIRuntime } from "./runtime/index.js";
+export type { AIRuntimeOptions, ReconcileOptions } from "./runtime/index.js";
@@ -1,4 +1,7 @@
-import type { NoteEmbeddingIndex } from "../types/index.js";
+import type {
+  NoteEmbeddingIndex,
+  NoteEmbeddingMetadata,
+} from "../types/index.js";
 
 /**
  * Interface for persisting and retrieving embedding indices.
@@ -9,8 +12,14 @@ export interface IEmbeddingRepository {
   save(index: NoteEmbeddingIndex): Promise<void>;
   /** Load a note's embedding index, or null if not found */
   load(noteId: string): Promise<NoteEmbeddingIndex | null>;
+  /** Load a note's index without its chunks, or null if not found */
+  loadMetadata(noteId: string): Promise<NoteEmbeddingMetadata | null>;
   /** Delete a note's embedding index */
   delete(noteId: string): Promise<void>;
+  /** Ids of every note with a stored index, without loading the indices */
+  listNoteIds(): Promise<string[]>;
   /** List all stored embedding indices */
   listAll(): Promise<NoteEmbeddingIndex[]>;
+  /** Yield stored indices one at a time, without holding all of them in memory */
+  iterate(): AsyncIterable<NoteEmbeddingIndex>;
 }
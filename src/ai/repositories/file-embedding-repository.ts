@@ -0,0 +1,278 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type {
+  NoteEmbeddingIndex,
+  NoteEmbeddingMetadata,
+} from "../types/index.js";
+import type { IEmbeddingRepository } from "./embedding-repository.js";
+import logger from "../../utils/logger.js";
+
+const MAX_NAME_LENGTH = 180;
+const QUARANTINE_DIR = "quarantine";
+/** Key that ends the metadata of a serialized index; chunks are written last */
+const CHUNKS_KEY = ',"chunks":';
+const HEAD_READ_SIZE = 4096;
+
+/**
+ * File name for a note's index.
+ *
+ * Lower-case letters, digits, '-' and '_' are kept; every other UTF-8 byte
+ * becomes %XX. That leaves no path separators or dot segments, and no two
+ * ids that differ only in case collide on case-insensitive filesystems.
+ * Names that would get too long are truncated and suffixed with a hash
+ * of the full id.
+ */
+export function encodeNoteId(noteId: string): string {
+  let encoded = "";
+  for (const byte of Buffer.from(noteId, "utf-8")) {
+    const char = String.fromCharCode(byte);
+    encoded += /[a-z0-9_-]/.test(char)
+      ? char
+      : `%${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+  }
+  if (encoded.length > MAX_NAME_LENGTH) {
+    const hash = createHash("sha256").update(noteId).digest("hex");
+    encoded = `${encoded.slice(0, MAX_NAME_LENGTH - 17)}~${hash.slice(0, 16)}`;
+  }
+  return `${encoded}.json`;
+}
+
+/**
+ * Note id of an index file name, or null when the name cannot be decoded
+ * (hash-suffixed names, files not written by encodeNoteId).
+ */
+function decodeNoteId(name: string): string | null {
+  if (!name.endsWith(".json") || name.includes("~")) {
+    return null;
+  }
+  try {
+    const noteId = decodeURIComponent(name.slice(0, -".json".length));
+    return encodeNoteId(noteId) === name ? noteId : null;
+  } catch {
+    return null;
+  }
+}
+
+const isNoteEmbeddingMetadata = (
+  value: unknown,
+): value is NoteEmbeddingMetadata => {
+  const metadata = value as NoteEmbeddingMetadata | null;
+  return (
+    typeof metadata === "object" &&
+    metadata !== null &&
+    typeof metadata.noteId === "string" &&
+    typeof metadata.notePath === "string" &&
+    typeof metadata.schemaVersion === "string" &&
+    typeof metadata.contentHash === "string" &&
+    typeof metadata.embeddingModelId === "string" &&
+    typeof metadata.chunkerVersion === "string"
+  );
+};
+
+const isNoteEmbeddingIndex = (value: unknown): value is NoteEmbeddingIndex => {
+  const index = value as NoteEmbeddingIndex | null;
+  return (
+    isNoteEmbeddingMetadata(index) &&
+    Array.isArray(index.chunks) &&
+    index.chunks.every(
+      (chunk) =>
+        typeof chunk?.chunkId === "string" &&
+        typeof chunk.text === "string" &&
+        Array.isArray(chunk.embedding),
+    )
+  );
+};
+
+/**
+ * Embedding repository storing one JSON file per note.
+ *
+ * Writes go to a temp file that is renamed over the index, so a crash never
+ * leaves a half-written index. Files that cannot be parsed are moved to
+ * `<dir>/quarantine` and treated as missing, which gets the note reindexed
+ * instead of failing every search.
+ */
+export class FileEmbeddingRepository implements IEmbeddingRepository {
+  constructor(private readonly dir: string) {}
+
+  async save(index: NoteEmbeddingIndex): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const filePath = this.filePath(index.noteId);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      // Chunks go last so loadMetadata() can stop reading before them
+      const { chunks, ...metadata } = index;
+      await fs.writeFile(
+        tempPath,
+        JSON.stringify({ ...metadata, chunks }),
+        "utf-8",
+      );
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true }).catch(() => {});
+      throw error;
+    }
+  }
+
+  async load(noteId: string): Promise<NoteEmbeddingIndex | null> {
+    const index = await this.read(encodeNoteId(noteId));
+    // Hash-suffixed names could in theory be shared by two ids
+    return index?.noteId === noteId ? index : null;
+  }
+
+  async loadMetadata(noteId: string): Promise<NoteEmbeddingMetadata | null> {
+    const metadata = await this.readMetadata(encodeNoteId(noteId));
+    return metadata?.noteId === noteId ? metadata : null;
+  }
+
+  async delete(noteId: string): Promise<void> {
+    await fs.rm(this.filePath(noteId), { force: true });
+  }
+
+  async listNoteIds(): Promise<string[]> {
+    const noteIds: string[] = [];
+    for (const name of await this.listFileNames()) {
+      const noteId =
+        decodeNoteId(name) ?? (await this.readMetadata(name))?.noteId;
+      if (noteId !== undefined) {
+        noteIds.push(noteId);
+      }
+    }
+    return noteIds;
+  }
+
+  async listAll(): Promise<NoteEmbeddingIndex[]> {
+    const indices: NoteEmbeddingIndex[] = [];
+    for await (const index of this.iterate()) {
+      indices.push(index);
+    }
+    return indices;
+  }
+
+  async *iterate(): AsyncIterable<NoteEmbeddingIndex> {
+    for (const name of await this.listFileNames()) {
+      const index = await this.read(name);
+      if (index) {
+        yield index;
+      }
+    }
+  }
+
+  private filePath(noteId: string): string {
+    return path.join(this.dir, encodeNoteId(noteId));
+  }
+
+  /** Index file names; a missing directory has none */
+  private async listFileNames(): Promise<string[]> {
+    try {
+      const names = await fs.readdir(this.dir);
+      return names.filter((entry) => entry.endsWith(".json"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse only the fields before the chunks. Files laid out differently
+   * fall back to a full read, which also quarantines corrupt ones.
+   */
+  private async readMetadata(
+    name: string,
+  ): Promise<NoteEmbeddingMetadata | null> {
+    let head: string | null;
+    try {
+      head = await this.readHead(path.join(this.dir, name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+
+    if (head !== null) {
+      try {
+        const metadata: unknown = JSON.parse(`${head}}`);
+        if (isNoteEmbeddingMetadata(metadata)) {
+          return metadata;
+        }
+      } catch {
+        // Falls through to a full read
+      }
+    }
+    const index = await this.read(name);
+    if (!index) {
+      return null;
+    }
+    const { chunks: _chunks, ...metadata } = index;
+    return metadata;
+  }
+
+  /** File content up to the chunks key, or null if it has none */
+  private async readHead(filePath: string): Promise<string | null> {
+    const handle = await fs.open(filePath, "r");
+    try {
+      const buffer = Buffer.alloc(HEAD_READ_SIZE);
+      let head = Buffer.alloc(0);
+      for (;;) {
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length);
+        if (bytesRead === 0) {
+          return null;
+        }
+        // The key may straddle two reads
+        const from = Math.max(0, head.length - CHUNKS_KEY.length);
+        head = Buffer.concat([head, buffer.subarray(0, bytesRead)]);
+        const end = head.indexOf(CHUNKS_KEY, from);
+        if (end !== -1) {
+          return head.subarray(0, end).toString("utf-8");
+        }
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /** Parse one index file; null if it is gone or had to be quarantined */
+  private async read(name: string): Promise<NoteEmbeddingIndex | null> {
+    const filePath = path.join(this.dir, name);
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      const index: unknown = JSON.parse(raw);
+      if (isNoteEmbeddingIndex(index)) {
+        return index;
+      }
+    } catch {
+      // Falls through to quarantine
+    }
+    await this.quarantine(name);
+    return null;
+  }
+
+  private async quarantine(name: string): Promise<void> {
+    const target = path.join(this.dir, QUARANTINE_DIR, `${name}.${Date.now()}`);
+    try {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.rename(path.join(this.dir, name), target);
+      logger.warn(
+        { file: name, quarantinedAs: target },
+        "AI: quarantined corrupt embedding index",
+      );
+    } catch (error) {
+      logger.error(
+        { file: name, error },
+        "AI: failed to quarantine corrupt embedding index",
+      );
+    }
+  }
+}
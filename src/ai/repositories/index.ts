@@ -1,2 +1,6 @@
 export type { IEmbeddingRepository } from "./embedding-repository.js";
 export { PlaceholderEmbeddingRepository } from "./placeholder-embedding-repository.js";
+export {
+  FileEmbeddingRepository,
+  encodeNoteId,
+} from "./file-embedding-repository.js";
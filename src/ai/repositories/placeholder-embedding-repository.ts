@@ -1,4 +1,7 @@
-import type { NoteEmbeddingIndex } from "../types/index.js";
+import type {
+  NoteEmbeddingIndex,
+  NoteEmbeddingMetadata,
+} from "../types/index.js";
 import type { IEmbeddingRepository } from "./embedding-repository.js";
 
 /**
@@ -16,11 +19,28 @@ export class PlaceholderEmbeddingRepository implements IEmbeddingRepository {
     return this.store.get(noteId) ?? null;
   }
 
+  async loadMetadata(noteId: string): Promise<NoteEmbeddingMetadata | null> {
+    const index = this.store.get(noteId);
+    if (!index) {
+      return null;
+    }
+    const { chunks: _chunks, ...metadata } = index;
+    return metadata;
+  }
+
   async delete(noteId: string): Promise<void> {
     this.store.delete(noteId);
   }
 
+  async listNoteIds(): Promise<string[]> {
+    return Array.from(this.store.keys());
+  }
+
   async listAll(): Promise<NoteEmbeddingIndex[]> {
     return Array.from(this.store.values());
   }
+
+  async *iterate(): AsyncIterable<NoteEmbeddingIndex> {
+    yield* Array.from(this.store.values());
+  }
 }
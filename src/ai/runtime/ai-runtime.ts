@@ -1,41 +1,65 @@
 import type { IEventBus } from "../../core/event-bus.js";
+import type { NoteRepository } from "../../repositories/note-repository.js";
 import { EventType } from "../../types/index.js";
 import type { LiveSyncEvent, EventListener } from "../../types/index.js";
 import type { EmbeddingIndexService } from "../services/index.js";
 import type { SemanticSearchService } from "../services/index.js";
+import type { ReconcileReport } from "../types/index.js";
+import { isPlainTextPath } from "../../utils/file-types.js";
 import logger from "../../utils/logger.js";
 
+export interface ReconcileOptions {
+  /** Run reconcile() this often while started; 0 disables the schedule */
+  intervalMs?: number;
+}
+
 export class AIRuntime {
   private noteUpsertedListener: EventListener | null = null;
   private noteDeletedListener: EventListener | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private reconciling: Promise<ReconcileReport> | null = null;
+  private reconcileTimer: NodeJS.Timeout | undefined;
 
   constructor(
     private readonly eventBus: IEventBus,
     private readonly indexService: EmbeddingIndexService,
     private readonly searchService: SemanticSearchService,
+    private readonly noteRepository: NoteRepository,
+    private readonly reconcileOptions: ReconcileOptions = {},
   ) {}
 
   start(): void {
-    void this.indexService;
-
-    this.noteUpsertedListener = async (event: LiveSyncEvent) => {
-      logger.info(
-        { noteId: event.payload?.noteId },
-        "AI: NoteUpserted received (placeholder)",
-      );
-    };
+    this.noteUpsertedListener = (event: LiveSyncEvent) =>
+      this.enqueue(event, async (noteId) => {
+        // Events only carry metadata; the content comes from the repository
+        const note = await this.noteRepository.get(noteId);
+        if (!note) {
+          logger.debug({ noteId }, "AI: note gone before it could be indexed");
+          return;
+        }
+        const indexed = await this.indexService.indexNote(note);
+        logger.debug({ noteId, indexed }, "AI: note index refreshed");
+      });
 
-    this.noteDeletedListener = async (event: LiveSyncEvent) => {
-      logger.info(
-        { noteId: event.payload?.noteId },
-        "AI: NoteDeleted received (placeholder)",
-      );
-    };
+    this.noteDeletedListener = (event: LiveSyncEvent) =>
+      this.enqueue(event, async (noteId) => {
+        await this.indexService.deleteNoteIndex(noteId);
+        logger.debug({ noteId }, "AI: note index deleted");
+      });
 
     this.eventBus.subscribe(EventType.NoteUpserted, this.noteUpsertedListener);
     this.eventBus.subscribe(EventType.NoteDeleted, this.noteDeletedListener);
 
-    logger.info("AI runtime started");
+    const intervalMs = this.reconcileOptions.intervalMs ?? 0;
+    if (intervalMs > 0) {
+      this.reconcileTimer = setInterval(() => {
+        this.reconcile().catch((error) => {
+          logger.error({ error }, "AI: scheduled reconciliation failed");
+        });
+      }, intervalMs);
+    }
+
+    logger.info({ reconcileIntervalMs: intervalMs }, "AI runtime started");
   }
 
   stop(): void {
@@ -53,6 +77,8 @@ export class AIRuntime {
       );
       this.noteDeletedListener = null;
     }
+    clearInterval(this.reconcileTimer);
+    this.reconcileTimer = undefined;
 
     logger.info("AI runtime stopped");
   }
@@ -60,4 +86,109 @@ export class AIRuntime {
   getSearchService(): SemanticSearchService {
     return this.searchService;
   }
+
+  /**
+   * Bring the indices in line with the note repository: index notes whose
+   * index is missing or stale and delete indices of notes that no longer
+   * exist. This heals missed events and indexing cut short by a crash.
+   *
+   * Runs in the same queue as event handling; a call while a run is
+   * pending or in progress gets that run's report.
+   */
+  reconcile(): Promise<ReconcileReport> {
+    if (!this.reconciling) {
+      const run = this.queue.then(() => this.runReconcile());
+      this.queue = run.then(
+        () => undefined,
+        () => undefined,
+      );
+      this.reconciling = run.finally(() => {
+        this.reconciling = null;
+      });
+    }
+    return this.reconciling;
+  }
+
+  private async runReconcile(): Promise<ReconcileReport> {
+    const startedAt = Date.now();
+    // Only plain-text notes get indices; binaries are never read
+    const noteIds = new Set(
+      (await this.noteRepository.listIds()).filter(isPlainTextPath),
+    );
+    const report: ReconcileReport = {
+      notes: 0,
+      indexed: 0,
+      unchanged: 0,
+      removed: 0,
+      failed: 0,
+      durationMs: 0,
+    };
+
+    // One note in memory at a time
+    for (const noteId of noteIds) {
+      try {
+        const note = await this.noteRepository.get(noteId);
+        if (!note) {
+          continue;
+        }
+        report.notes++;
+        if (await this.indexService.indexNote(note)) {
+          report.indexed++;
+        } else {
+          report.unchanged++;
+        }
+      } catch (error) {
+        report.failed++;
+        logger.error(
+          { noteId, error },
+          "AI: failed to index note during reconciliation",
+        );
+      }
+    }
+
+    for (const noteId of await this.indexService.listIndexedNoteIds()) {
+      if (noteIds.has(noteId)) {
+        continue;
+      }
+      try {
+        await this.indexService.deleteNoteIndex(noteId);
+        report.removed++;
+      } catch (error) {
+        report.failed++;
+        logger.error(
+          { noteId, error },
+          "AI: failed to delete orphaned index during reconciliation",
+        );
+      }
+    }
+
+    report.durationMs = Date.now() - startedAt;
+    logger.info(report, "AI: reconciliation finished");
+    return report;
+  }
+
+  /**
+   * Index work runs one task at a time, in event order, so an older upsert
+   * can never overwrite a newer index or resurrect a deleted one. Failures
+   * are logged and never reach sync.
+   */
+  private enqueue(
+    event: LiveSyncEvent,
+    task: (noteId: string) => Promise<void>,
+  ): Promise<void> {
+    const noteId = event.payload?.noteId;
+    if (typeof noteId !== "string") {
+      logger.warn({ eventType: event.type }, "AI: event without noteId");
+      return Promise.resolve();
+    }
+    this.queue = this.queue.then(() =>
+      task(noteId).catch((error) => {
+        logger.error(
+          { noteId, eventType: event.type, error },
+          "AI: failed to update note index",
+        );
+      }),
+    );
+    return this.queue;
+  }
 }
@@ -0,0 +1,51 @@
+import type { IEventBus } from "../../core/event-bus.js";
+import type { NoteRepository } from "../../repositories/note-repository.js";
+import { MarkdownChunker } from "../chunking/index.js";
+import { StubEmbeddingProvider } from "../providers/index.js";
+import {
+  FileEmbeddingRepository,
+  PlaceholderEmbeddingRepository,
+} from "../repositories/index.js";
+import {
+  EmbeddingIndexService,
+  SemanticSearchService,
+} from "../services/index.js";
+import { AIRuntime } from "./ai-runtime.js";
+
+export interface AIRuntimeOptions {
+  /** Target chunk size in characters */
+  chunkMaxChars?: number;
+  /** Overlap between consecutive chunks of a section in characters */
+  chunkOverlapChars?: number;
+  /** Directory of the per-note index files; indices stay in memory without it */
+  indexDir?: string;
+  /** Interval of the scheduled reconciliation; 0 disables it */
+  reconcileIntervalMs?: number;
+}
+
+/**
+ * Build the AI subsystem from configuration.
+ * The host only calls this and start(); the concrete chunker, provider
+ * and repository stay inside src/ai.
+ */
+export function createAIRuntime(
+  eventBus: IEventBus,
+  noteRepository: NoteRepository,
+  options: AIRuntimeOptions = {},
+): AIRuntime {
+  const chunker = new MarkdownChunker({
+    maxChars: options.chunkMaxChars,
+    overlapChars: options.chunkOverlapChars,
+  });
+  const provider = new StubEmbeddingProvider();
+  const repository = options.indexDir
+    ? new FileEmbeddingRepository(options.indexDir)
+    : new PlaceholderEmbeddingRepository();
+  return new AIRuntime(
+    eventBus,
+    new EmbeddingIndexService(chunker, provider, repository),
+    new SemanticSearchService(provider, repository),
+    noteRepository,
+    { intervalMs: options.reconcileIntervalMs },
+  );
+}
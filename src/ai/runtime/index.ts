@@ -1 +1,4 @@
 export { AIRuntime } from "./ai-runtime.js";
+export type { ReconcileOptions } from "./ai-runtime.js";
+export { createAIRuntime } from "./create-ai-runtime.js";
+export type { AIRuntimeOptions } from "./create-ai-runtime.js";
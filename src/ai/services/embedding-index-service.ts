@@ -1,29 +1,111 @@
 import type { Note } from "../../types/index.js";
+import { computeContentHash } from "../../utils/content-hash.js";
 import type { IChunker } from "../chunking/index.js";
 import type { IEmbeddingProvider } from "../providers/index.js";
 import type { IEmbeddingRepository } from "../repositories/index.js";
+import type { ChunkEmbedding, NoteEmbeddingIndex } from "../types/index.js";
+
+/** Version of the NoteEmbeddingIndex layout; bump to rebuild every index */
+export const EMBEDDING_SCHEMA_VERSION = "1";
+
+export interface EmbeddingIndexServiceOptions {
+  /** Maximum number of chunk texts sent to the provider per embed() call */
+  batchSize?: number;
+}
 
 /**
  * Orchestrates the building and refreshing of note embedding indices.
  * Coordinates Chunker, EmbeddingProvider, and EmbeddingRepository.
  */
 export class EmbeddingIndexService {
+  private readonly batchSize: number;
+
   constructor(
     private readonly chunker: IChunker,
     private readonly provider: IEmbeddingProvider,
     private readonly repository: IEmbeddingRepository,
-  ) {}
+    options: EmbeddingIndexServiceOptions = {},
+  ) {
+    this.batchSize = Math.max(1, options.batchSize ?? 64);
+  }
+
+  /**
+   * Chunk, embed and store a note's index.
+   * Returns false when the stored index is already current (unless forced)
+   * or the note is binary.
+   */
+  async indexNote(
+    note: Note,
+    options: { force?: boolean } = {},
+  ): Promise<boolean> {
+    if (typeof note.content !== "string") {
+      return false;
+    }
 
-  async indexNote(_note: Note): Promise<void> {
-    void this.chunker;
-    void this.provider;
+    const contentHash = computeContentHash(note.content);
+    if (!options.force && !(await this.shouldReindex(note.id, contentHash))) {
+      return false;
+    }
+
+    const chunks = this.chunker.chunk(note.id, note.content);
+    const embeddings: number[][] = [];
+    for (let i = 0; i < chunks.length; i += this.batchSize) {
+      const batch = chunks.slice(i, i + this.batchSize);
+      const vectors = await this.provider.embed(batch.map((c) => c.text));
+      if (vectors.length !== batch.length) {
+        throw new Error(
+          `Embedding provider returned ${vectors.length} vectors for ${batch.length} chunks`,
+        );
+      }
+      embeddings.push(...vectors);
+    }
+
+    const index: NoteEmbeddingIndex = {
+      schemaVersion: EMBEDDING_SCHEMA_VERSION,
+      noteId: note.id,
+      notePath: note.path,
+      sourceMtime: note.mtime.getTime(),
+      indexedAt: Date.now(),
+      embeddingModelId: this.provider.modelId(),
+      chunkerVersion: this.chunker.version(),
+      contentHash,
+      chunks: chunks.map(
+        (chunk, i): ChunkEmbedding => ({
+          chunkId: chunk.chunkId,
+          order: chunk.order,
+          text: chunk.text,
+          start: chunk.start,
+          end: chunk.end,
+          headingContext: chunk.headingContext,
+          embedding: embeddings[i],
+        }),
+      ),
+    };
+    await this.repository.save(index);
+    return true;
   }
 
   async deleteNoteIndex(noteId: string): Promise<void> {
     await this.repository.delete(noteId);
   }
 
-  async shouldReindex(_noteId: string, _contentHash: string): Promise<boolean> {
-    return true;
+  /** Ids of every note with a stored index */
+  async listIndexedNoteIds(): Promise<string[]> {
+    return this.repository.listNoteIds();
+  }
+
+  /**
+   * True unless the stored index matches the content hash, schema version,
+   * embedding model and chunker version.
+   */
+  async shouldReindex(noteId: string, contentHash: string): Promise<boolean> {
+    const stored = await this.repository.loadMetadata(noteId);
+    return (
+      !stored ||
+      stored.contentHash !== contentHash ||
+      stored.schemaVersion !== EMBEDDING_SCHEMA_VERSION ||
+      stored.embeddingModelId !== this.provider.modelId() ||
+      stored.chunkerVersion !== this.chunker.version()
+    );
   }
 }
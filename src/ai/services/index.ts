@@ -1,2 +1,6 @@
-export { EmbeddingIndexService } from "./embedding-index-service.js";
+export {
+  EmbeddingIndexService,
+  EMBEDDING_SCHEMA_VERSION,
+} from "./embedding-index-service.js";
+export type { EmbeddingIndexServiceOptions } from "./embedding-index-service.js";
 export { SemanticSearchService } from "./semantic-search-service.js";
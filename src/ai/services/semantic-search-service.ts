@@ -1,6 +1,57 @@
 import type { IEmbeddingProvider } from "../providers/index.js";
 import type { IEmbeddingRepository } from "../repositories/index.js";
-import type { SearchRequest, SearchResult } from "../types/index.js";
+import type {
+  NoteSearchRequest,
+  NoteSearchResult,
+  SearchRequest,
+  SearchResult,
+} from "../types/index.js";
+
+const DEFAULT_TOP_K = 10;
+const DEFAULT_SNIPPETS_PER_NOTE = 2;
+
+/**
+ * Cosine similarity of two vectors; 0 when either has no magnitude.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+const compareResults = (a: SearchResult, b: SearchResult): number =>
+  b.score - a.score ||
+  a.notePath.localeCompare(b.notePath) ||
+  a.order - b.order;
+
+/**
+ * Insert into a list kept sorted by compare, dropping whatever falls
+ * past limit.
+ */
+function insertRanked<T>(
+  list: T[],
+  item: T,
+  limit: number,
+  compare: (a: T, b: T) => number,
+): void {
+  let position = list.length;
+  while (position > 0 && compare(item, list[position - 1]) < 0) {
+    position--;
+  }
+  if (position >= limit) {
+    return;
+  }
+  list.splice(position, 0, item);
+  if (list.length > limit) {
+    list.pop();
+  }
+}
 
 /**
  * Performs semantic search across indexed note embeddings.
@@ -12,9 +63,93 @@ export class SemanticSearchService {
     private readonly repository: IEmbeddingRepository,
   ) {}
 
-  async search(_request: SearchRequest): Promise<SearchResult[]> {
-    void this.provider;
-    void this.repository;
-    return [];
+  /** The topK best-scoring chunks across all notes */
+  async search(request: SearchRequest): Promise<SearchResult[]> {
+    const topK = request.topK ?? DEFAULT_TOP_K;
+    const best: SearchResult[] = [];
+    for await (const results of this.scoreIndices(request)) {
+      for (const result of results) {
+        insertRanked(best, result, topK, compareResults);
+      }
+    }
+    return best;
+  }
+
+  /**
+   * The topK best-matching notes, each with its best chunk and up to
+   * snippetsPerNote further matching chunks.
+   */
+  async searchNotes(request: NoteSearchRequest): Promise<NoteSearchResult[]> {
+    const topK = request.topK ?? DEFAULT_TOP_K;
+    const snippetsPerNote =
+      request.snippetsPerNote ?? DEFAULT_SNIPPETS_PER_NOTE;
+    const notes: NoteSearchResult[] = [];
+    for await (const results of this.scoreIndices(request)) {
+      const best: SearchResult[] = [];
+      for (const result of results) {
+        insertRanked(best, result, snippetsPerNote + 1, compareResults);
+      }
+      if (best.length === 0) {
+        continue;
+      }
+      const [bestChunk, ...snippets] = best;
+      insertRanked(
+        notes,
+        {
+          noteId: bestChunk.noteId,
+          notePath: bestChunk.notePath,
+          score: bestChunk.score,
+          bestChunk,
+          snippets,
+        },
+        topK,
+        (a, b) => compareResults(a.bestChunk, b.bestChunk),
+      );
+    }
+    return notes;
+  }
+
+  /**
+   * Score the chunks of each stored index against the query, one note at
+   * a time; callers keep only their bounded top results.
+   * Indices built with another embedding model are not comparable and are skipped.
+   */
+  private async *scoreIndices(
+    request: SearchRequest,
+  ): AsyncIterable<SearchResult[]> {
+    const query = request.query.trim();
+    if (!query) {
+      return;
+    }
+    const [queryEmbedding] = await this.provider.embed([query]);
+    const modelId = this.provider.modelId();
+
+    for await (const index of this.repository.iterate()) {
+      if (index.embeddingModelId !== modelId) {
+        continue;
+      }
+      const results: SearchResult[] = [];
+      for (const chunk of index.chunks) {
+        if (chunk.embedding.length !== queryEmbedding.length) {
+          continue;
+        }
+        const score = cosineSimilarity(queryEmbedding, chunk.embedding);
+        if (request.minScore !== undefined && score < request.minScore) {
+          continue;
+        }
+        results.push({
+          noteId: index.noteId,
+          notePath: index.notePath,
+          chunkId: chunk.chunkId,
+          chunkText: chunk.text,
+          score,
+          order: chunk.order,
+          ...(chunk.headingContext !== undefined && {
+            headingContext: chunk.headingContext,
+          }),
+        });
+      }
+      yield results;
+    }
   }
 }
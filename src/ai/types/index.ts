@@ -21,6 +21,7 @@ export interface ChunkEmbedding {
   text: string;
   start?: number;
   end?: number;
+  headingContext?: string;
   embedding: number[];
 }
 
@@ -37,6 +38,9 @@ export interface NoteEmbeddingIndex {
   chunks: ChunkEmbedding[];
 }
 
+/** Everything in a note index except its chunks and their vectors */
+export type NoteEmbeddingMetadata = Omit<NoteEmbeddingIndex, "chunks">;
+
 /** Request to perform a semantic search */
 export interface SearchRequest {
   query: string;
@@ -44,6 +48,12 @@ export interface SearchRequest {
   minScore?: number;
 }
 
+/** Semantic search grouped by note */
+export interface NoteSearchRequest extends SearchRequest {
+  /** Further matching chunks returned per note besides the best one */
+  snippetsPerNote?: number;
+}
+
 /** A single result from a semantic search */
 export interface SearchResult {
   noteId: string;
@@ -52,4 +62,30 @@ export interface SearchResult {
   chunkText: string;
   score: number;
   order: number;
+  headingContext?: string;
+}
+
+/** Outcome of one reconciliation run between notes and embedding indices */
+export interface ReconcileReport {
+  /** Notes in the note repository */
+  notes: number;
+  /** Notes whose index was missing or stale and has been rebuilt */
+  indexed: number;
+  /** Notes whose index was current, and binary notes */
+  unchanged: number;
+  /** Indices deleted because their note no longer exists */
+  removed: number;
+  /** Notes that could not be indexed or indices that could not be deleted */
+  failed: number;
+  durationMs: number;
+}
+
+/** A note matching a semantic search, scored by its best chunk */
+export interface NoteSearchResult {
+  noteId: string;
+  notePath: string;
+  score: number;
+  bestChunk: SearchResult;
+  /** Other matching chunks of the note, best first */
+  snippets: SearchResult[];
 }
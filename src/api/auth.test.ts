@@ -0,0 +1,76 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import Fastify, { type FastifyInstance } from 'fastify';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { registerAuth } from './auth.js';
+import { TokenStore } from './token-store.js';
+
+describe('registerAuth', () => {
+  let dir: string;
+  let store: TokenStore;
+  let app: FastifyInstance;
+  let tokens: Record<string, string>;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'auth-'));
+    store = new TokenStore(join(dir, 'tokens.json'));
+    tokens = {
+      reader: (await store.create('reader', ['notes:read'])).token,
+      admin: (await store.create('admin', ['admin'])).token,
+    };
+
+    app = Fastify();
+    registerAuth(app, store);
+    app.get('/health', { config: { public: true } }, async () => ({ status: 'ok' }));
+    app.get('/notes', { config: { scope: 'notes:read' } }, async (request) => ({
+      token: request.apiToken?.name,
+    }));
+    app.post('/sync/trigger', { config: { scope: 'sync:trigger' } }, async () => ({ ok: true }));
+    app.get('/config', async () => ({ secret: true }));
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const get = (url: string, token?: string) =>
+    app.inject({ method: 'GET', url, headers: token ? { authorization: `Bearer ${token}` } : {} });
+
+  it('allows public routes without a token', async () => {
+    expect((await get('/health')).statusCode).toBe(200);
+  });
+
+  it('rejects missing or unknown tokens with 401', async () => {
+    const missing = await get('/notes');
+    expect(missing.statusCode).toBe(401);
+    expect(missing.headers['www-authenticate']).toBe('Bearer');
+    expect((await get('/notes', 'olh_unknown')).statusCode).toBe(401);
+  });
+
+  it('enforces route scopes', async () => {
+    const notes = await get('/notes', tokens.reader);
+    expect(notes.statusCode).toBe(200);
+    expect(notes.json()).toEqual({ token: 'reader' });
+
+    const trigger = await app.inject({
+      method: 'POST',
+      url: '/sync/trigger',
+      headers: { authorization: `Bearer ${tokens.reader}` },
+    });
+    expect(trigger.statusCode).toBe(403);
+  });
+
+  it('requires admin for routes without a declared scope', async () => {
+    expect((await get('/config', tokens.reader)).statusCode).toBe(403);
+    expect((await get('/config', tokens.admin)).statusCode).toBe(200);
+  });
+
+  it('lets admin tokens use every scope', async () => {
+    expect((await get('/notes', tokens.admin)).statusCode).toBe(200);
+  });
+});
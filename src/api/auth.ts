@@ -0,0 +1,65 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { ApiScope, ApiToken } from '../types/index.js';
+import type { TokenStore } from './token-store.js';
+import logger from '../utils/logger.js';
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    /** Scope a token needs to call the route; routes without one require admin */
+    scope?: ApiScope;
+    /** Route is reachable without a token (e.g. health check) */
+    public?: boolean;
+    /** Route also accepts the token as `access_token` query parameter (EventSource cannot set headers) */
+    queryToken?: boolean;
+  }
+
+  interface FastifyRequest {
+    apiToken?: ApiToken;
+  }
+}
+
+/**
+ * Whether a token grants a scope (admin grants every scope)
+ */
+export function hasScope(token: ApiToken, scope: ApiScope): boolean {
+  return token.scopes.includes('admin') || token.scopes.includes(scope);
+}
+
+/**
+ * Require a bearer token on every route of the app
+ *
+ * Routes declare the scope they need via `config: { scope }`; routes without
+ * a scope require `admin`, and `config: { public: true }` opts out. CORS
+ * preflight requests carry no credentials and are let through.
+ * Routes with `config: { queryToken: true }` also read `?access_token=`.
+ */
+export function registerAuth(app: FastifyInstance, tokenStore: TokenStore): void {
+  app.decorateRequest('apiToken', undefined);
+
+  app.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
+    const config = request.routeOptions.config ?? {};
+    if (config.public || request.method === 'OPTIONS') {
+      return;
+    }
+
+    const header = request.headers.authorization ?? '';
+    const match = /^Bearer\s+(\S+)$/i.exec(header);
+    const query = request.query as Record<string, unknown> | undefined;
+    const queryToken = config.queryToken && typeof query?.access_token === 'string' ? query.access_token : null;
+    const raw = match?.[1] ?? queryToken;
+    const token = raw ? await tokenStore.verify(raw) : null;
+    if (!token) {
+      logger.debug({ url: request.url }, 'Rejected request without valid API token');
+      reply.header('WWW-Authenticate', 'Bearer');
+      return reply.code(401).send({ error: 'Unauthorized' });
+    }
+
+    const scope = config.scope ?? 'admin';
+    if (!hasScope(token, scope)) {
+      logger.debug({ url: request.url, token: token.id, scope }, 'Rejected request with insufficient scope');
+      return reply.code(403).send({ error: `Token lacks required scope "${scope}"` });
+    }
+
+    request.apiToken = token;
+  });
+}
@@ -0,0 +1,156 @@
+import { get, type IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import Fastify from 'fastify';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { EventBus } from '../core/event-bus.js';
+import { EventType, type AppConfig } from '../types/index.js';
+import type { SyncService } from '../services/sync-service.js';
+import { EventStream } from './event-stream.js';
+import { registerRoutes } from './routes.js';
+
+const emit = (bus: EventBus, type: EventType, payload?: Record<string, unknown>) =>
+  bus.emit({ type, timestamp: new Date('2024-01-01T00:00:00Z'), source: 'test', payload });
+
+function createResponse() {
+  const chunks: string[] = [];
+  return {
+    chunks,
+    write: vi.fn((chunk: string) => {
+      chunks.push(chunk);
+      return true;
+    }),
+    end: vi.fn(),
+    events: () => chunks.filter((chunk) => chunk.startsWith('id: ')),
+  };
+}
+
+describe('EventStream', () => {
+  let bus: EventBus;
+  let stream: EventStream;
+
+  beforeEach(() => {
+    bus = new EventBus();
+    stream = new EventStream(bus, { bufferSize: 3 });
+  });
+
+  afterEach(() => {
+    stream.close();
+  });
+
+  it('writes events in SSE format with increasing ids', async () => {
+    const res = createResponse();
+    stream.attach(res);
+
+    await emit(bus, EventType.SyncStarted, { mode: 'full' });
+    await emit(bus, EventType.SyncCompleted);
+
+    const [first, second] = res.events();
+    expect(first).toBe(
+      'id: 1\nevent: SyncStarted\ndata: ' +
+        JSON.stringify({
+          type: 'SyncStarted',
+          timestamp: '2024-01-01T00:00:00.000Z',
+          source: 'test',
+          payload: { mode: 'full' },
+          metadata: {},
+        }) +
+        '\n\n'
+    );
+    expect(second.startsWith('id: 2\nevent: SyncCompleted\n')).toBe(true);
+  });
+
+  it('filters events by type', async () => {
+    const res = createResponse();
+    stream.attach(res, { types: [EventType.NoteUpserted] });
+
+    await emit(bus, EventType.SyncStarted);
+    await emit(bus, EventType.NoteUpserted);
+
+    expect(res.events()).toHaveLength(1);
+    expect(res.events()[0]).toContain('event: NoteUpserted');
+  });
+
+  it('replays buffered events after Last-Event-ID', async () => {
+    const types = [EventType.SyncStarted, EventType.NoteUpserted, EventType.NoteDeleted, EventType.SyncCompleted];
+    for (const type of types) {
+      await emit(bus, type);
+    }
+
+    const res = createResponse();
+    stream.attach(res, { lastEventId: '2' });
+
+    expect(res.events().map((chunk) => chunk.split('\n')[0])).toEqual(['id: 3', 'id: 4']);
+  });
+
+  it('replays the whole buffer for ids from a previous run', async () => {
+    await emit(bus, EventType.SyncStarted);
+
+    const res = createResponse();
+    stream.attach(res, { lastEventId: '999' });
+
+    expect(res.events()).toHaveLength(1);
+  });
+
+  it('stops writing to detached clients and ends clients on close', async () => {
+    const detachedRes = createResponse();
+    const openRes = createResponse();
+    const detach = stream.attach(detachedRes);
+    stream.attach(openRes);
+
+    detach();
+    await emit(bus, EventType.SyncStarted);
+    stream.close();
+
+    expect(detachedRes.events()).toHaveLength(0);
+    expect(openRes.events()).toHaveLength(1);
+    expect(openRes.end).toHaveBeenCalled();
+    expect(stream.clientCount).toBe(0);
+  });
+});
+
+describe('GET /api/events', () => {
+  const app = Fastify();
+  const bus = new EventBus();
+  const stream = new EventStream(bus);
+
+  beforeAll(async () => {
+    await registerRoutes(app, {} as SyncService, {} as AppConfig, { eventStream: stream });
+    await app.listen({ port: 0, host: '127.0.0.1' });
+  });
+
+  afterAll(async () => {
+    stream.close();
+    await app.close();
+  });
+
+  it('streams matching events to connected clients', async () => {
+    const { port } = app.server.address() as AddressInfo;
+    const res = await new Promise<IncomingMessage>((resolve) => {
+      get(`http://127.0.0.1:${port}/api/events?types=NoteDeleted`, resolve);
+    });
+    res.setEncoding('utf-8');
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['content-type']).toBe('text/event-stream; charset=utf-8');
+
+    const received = new Promise<string>((resolve) => {
+      res.on('data', (chunk: string) => {
+        if (chunk.includes('event: ')) resolve(chunk);
+      });
+    });
+    await emit(bus, EventType.SyncStarted);
+    await emit(bus, EventType.NoteDeleted, { noteId: 'a.md' });
+
+    const chunk = await received;
+    expect(chunk).toContain('event: NoteDeleted');
+    expect(chunk).toContain('"noteId":"a.md"');
+    res.destroy();
+  });
+
+  it('rejects unknown event types', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/events?types=Bogus' });
+    expect(response.statusCode).toBe(400);
+  });
+});
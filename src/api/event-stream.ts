@@ -0,0 +1,135 @@
+import type { ServerResponse } from 'node:http';
+import type { IEventBus } from '../core/event-bus.js';
+import { EventType, LiveSyncEvent } from '../types/index.js';
+import logger from '../utils/logger.js';
+
+export interface EventStreamOptions {
+  /** Events kept for Last-Event-ID replay (default 256) */
+  bufferSize?: number;
+  /** Interval of keep-alive comments sent to idle clients (default 15s) */
+  heartbeatMs?: number;
+}
+
+interface BufferedEvent {
+  id: number;
+  event: LiveSyncEvent;
+}
+
+interface StreamClient {
+  res: Pick<ServerResponse, 'write' | 'end'>;
+  types?: Set<string>;
+}
+
+/**
+ * Fans out event bus events to Server-Sent Events clients
+ *
+ * Every event gets an increasing numeric id and is kept in a ring buffer,
+ * so a reconnecting client sending `Last-Event-ID` receives what it missed.
+ * Ids restart with the process; an id newer than anything buffered is
+ * treated as coming from a previous run and the whole buffer is replayed.
+ */
+export class EventStream {
+  private readonly buffer: BufferedEvent[] = [];
+  private readonly clients = new Set<StreamClient>();
+  private readonly bufferSize: number;
+  private readonly heartbeat: NodeJS.Timeout;
+  private nextId = 1;
+  private readonly listener = (event: LiveSyncEvent) => this.publish(event);
+
+  constructor(private readonly eventBus: IEventBus, options: EventStreamOptions = {}) {
+    this.bufferSize = options.bufferSize ?? 256;
+    this.eventBus.subscribe('*', this.listener);
+    this.heartbeat = setInterval(() => this.writeAll(': keep-alive\n\n'), options.heartbeatMs ?? 15000);
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Attach an SSE response; replays buffered events after lastEventId
+   *
+   * @returns A function that detaches the client
+   */
+  attach(
+    res: StreamClient['res'],
+    options: { types?: string[]; lastEventId?: string } = {}
+  ): () => void {
+    const client: StreamClient = {
+      res,
+      types: options.types && options.types.length > 0 ? new Set(options.types) : undefined,
+    };
+
+    res.write('retry: 3000\n\n');
+    for (const entry of this.replayAfter(options.lastEventId)) {
+      this.send(client, entry);
+    }
+
+    this.clients.add(client);
+    logger.debug({ clients: this.clients.size, types: options.types }, 'Event stream client attached');
+    return () => {
+      if (this.clients.delete(client)) {
+        logger.debug({ clients: this.clients.size }, 'Event stream client detached');
+      }
+    };
+  }
+
+  /**
+   * Number of connected clients
+   */
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Stop streaming: unsubscribe from the bus and end all client responses
+   */
+  close(): void {
+    clearInterval(this.heartbeat);
+    this.eventBus.unsubscribe('*', this.listener);
+    this.clients.forEach((client) => client.res.end());
+    this.clients.clear();
+  }
+
+  /**
+   * Valid event type names, for validating `types` filters
+   */
+  static isEventType(type: string): boolean {
+    return (Object.values(EventType) as string[]).includes(type);
+  }
+
+  private publish(event: LiveSyncEvent): void {
+    const entry: BufferedEvent = { id: this.nextId++, event };
+    this.buffer.push(entry);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.shift();
+    }
+    this.clients.forEach((client) => this.send(client, entry));
+  }
+
+  private replayAfter(lastEventId?: string): BufferedEvent[] {
+    if (lastEventId === undefined) {
+      return [];
+    }
+    const lastId = Number(lastEventId);
+    if (!Number.isInteger(lastId) || lastId < 0 || lastId >= this.nextId) {
+      return [...this.buffer];
+    }
+    return this.buffer.filter((entry) => entry.id > lastId);
+  }
+
+  private send(client: StreamClient, { id, event }: BufferedEvent): void {
+    if (client.types && !client.types.has(event.type)) {
+      return;
+    }
+    const data = JSON.stringify({
+      type: event.type,
+      timestamp: event.timestamp.toISOString(),
+      source: event.source,
+      payload: event.payload ?? {},
+      metadata: event.metadata ?? {},
+    });
+    client.res.write(`id: ${id}\nevent: ${event.type}\ndata: ${data}\n\n`);
+  }
+
+  private writeAll(chunk: string): void {
+    this.clients.forEach((client) => client.res.write(chunk));
+  }
+}
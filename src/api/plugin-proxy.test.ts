@@ -0,0 +1,103 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import Fastify, { type FastifyInstance } from 'fastify';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { PluginManager } from '../plugins/plugin-manager.js';
+import { registerPluginProxy } from './plugin-proxy.js';
+
+const fixture = (name: string) =>
+  path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../plugins/test-fixtures', name);
+
+describe('registerPluginProxy', () => {
+  let app: FastifyInstance;
+  let manager: PluginManager;
+
+  beforeAll(async () => {
+    manager = new PluginManager([
+      { name: 'web', command: process.execPath, args: [fixture('plugin-http.js')], env: { PLUGIN_NAME: 'web' } },
+      { name: 'offline', command: process.execPath, args: [fixture('plugin-silent-handshake.js')], handshakeTimeoutMs: 100 },
+    ]);
+    await manager.startAll();
+
+    app = Fastify();
+    await app.register(async (api) => registerPluginProxy(api, manager), { prefix: '/api' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await manager.stopAll();
+  });
+
+  it('forwards method, path, query, headers and body', async () => {
+    const res = await app.inject({
+      method: 'GET',
+      url: '/api/plugins/web/echo?tag=a&tag=b',
+      headers: { authorization: 'Bearer secret', 'x-trace': '1' },
+    });
+
+    expect(res.statusCode).toBe(200);
+    const forwarded = res.json();
+    expect(forwarded).toMatchObject({ method: 'GET', route: '/echo', path: '/echo', query: { tag: ['a', 'b'] } });
+    expect(forwarded.headers['x-trace']).toBe('1');
+    expect(forwarded.headers.authorization).toBeUndefined();
+  });
+
+  it('maps the plugin response status, headers and body', async () => {
+    const res = await app.inject({ method: 'POST', url: '/api/plugins/web/items/42', payload: { title: 'x' } });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.headers['x-plugin']).toBe('web');
+    expect(res.json()).toEqual({ id: '42', saved: { title: 'x' } });
+
+    const text = await app.inject({ method: 'GET', url: '/api/plugins/web/text' });
+    expect(text.headers['content-type']).toBe('text/plain');
+    expect(text.body).toBe('plain text');
+  });
+
+  it('drops cookie, CORS and hop-by-hop headers from plugin responses', async () => {
+    const res = await app.inject({ method: 'GET', url: '/api/plugins/web/unsafe-headers' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toEqual({ ok: true });
+    expect(res.headers['cache-control']).toBe('no-store');
+    expect(res.headers['set-cookie']).toBeUndefined();
+    expect(res.headers['access-control-allow-origin']).toBeUndefined();
+    expect(res.headers.connection).not.toBe('close');
+    expect(res.headers['content-length']).toBe(String(res.rawPayload.length));
+  });
+
+  it('decodes path parameters exactly once', async () => {
+    const percent = await app.inject({ method: 'POST', url: '/api/plugins/web/items/100%25', payload: {} });
+    expect(percent.statusCode).toBe(201);
+    expect(percent.json().id).toBe('100%');
+
+    const encoded = await app.inject({ method: 'POST', url: '/api/plugins/web/items/%2541', payload: {} });
+    expect(encoded.json().id).toBe('%41');
+  });
+
+  it('forwards non-JSON bodies as strings', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/api/plugins/web/items/7',
+      headers: { 'content-type': 'text/csv' },
+      payload: 'a,b',
+    });
+
+    expect(res.json()).toEqual({ id: '7', saved: 'a,b' });
+  });
+
+  it('maps errors to HTTP statuses', async () => {
+    expect((await app.inject({ method: 'GET', url: '/api/plugins/missing/echo' })).statusCode).toBe(404);
+    expect((await app.inject({ method: 'GET', url: '/api/plugins/web/nope' })).statusCode).toBe(404);
+    expect((await app.inject({ method: 'GET', url: '/api/plugins/web/no-leading-slash' })).statusCode).toBe(404);
+    expect((await app.inject({ method: 'GET', url: '/api/plugins/offline/echo' })).statusCode).toBe(503);
+    expect((await app.inject({ method: 'GET', url: '/api/plugins/web/boom' })).statusCode).toBe(502);
+
+    const slow = await app.inject({ method: 'GET', url: '/api/plugins/web/slow' });
+    expect(slow.statusCode).toBe(504);
+    expect(slow.json().error).toContain('100ms');
+  });
+});
@@ -0,0 +1,120 @@
+import type { IncomingHttpHeaders } from 'node:http';
+import type { FastifyInstance } from 'fastify';
+import type { PluginManager } from '../plugins/plugin-manager.js';
+import { PluginRequestError, type PluginRequestErrorCode } from '../plugins/plugin-routes.js';
+import { hasScope } from './auth.js';
+import logger from '../utils/logger.js';
+
+const ERROR_STATUS: Record<PluginRequestErrorCode, number> = {
+  'not-found': 404,
+  unavailable: 503,
+  timeout: 504,
+  'plugin-error': 502,
+};
+
+// Credentials for this API are never passed on to plugins
+const STRIPPED_HEADERS = new Set(['authorization', 'cookie', 'proxy-authorization']);
+
+// Plugins cannot set cookies, widen CORS or break framing on host responses
+const STRIPPED_RESPONSE_HEADERS = new Set([
+  'set-cookie',
+  'content-length',
+  'transfer-encoding',
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'upgrade',
+]);
+
+function isStrippedResponseHeader(name: string): boolean {
+  const lower = name.toLowerCase();
+  return STRIPPED_RESPONSE_HEADERS.has(lower) || lower.startsWith('access-control-');
+}
+
+function forwardedHeaders(headers: IncomingHttpHeaders): Record<string, string | string[]> {
+  const forwarded: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined && !STRIPPED_HEADERS.has(name)) {
+      forwarded[name] = value;
+    }
+  }
+  return forwarded;
+}
+
+function responseHeaders(headers: Record<string, string>): Record<string, string> {
+  const allowed: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (isStrippedResponseHeader(name)) {
+      logger.debug({ header: name }, 'Dropping plugin response header');
+      continue;
+    }
+    allowed[name] = value;
+  }
+  return allowed;
+}
+
+/**
+ * Proxy /plugins/<name>/<path> to the routes plugins declared in their handshake
+ *
+ * Routes are looked up per request, so plugins that restart with different
+ * declarations take effect immediately. Every proxied route needs
+ * `notes:read`; a route may declare a further scope. Bodies that are not
+ * JSON are forwarded as strings.
+ */
+export async function registerPluginProxy(api: FastifyInstance, pluginManager: PluginManager): Promise<void> {
+  await api.register(async (scope) => {
+    scope.addContentTypeParser('*', { parseAs: 'string' }, (_request, body, done) => done(null, body));
+
+    scope.all<{ Params: { plugin: string; '*': string }; Querystring: Record<string, string | string[]> }>(
+      '/plugins/:plugin/*',
+      { config: { scope: 'notes:read' } },
+      async (request, reply) => {
+        const { plugin } = request.params;
+        const path = `/${request.params['*']}`;
+
+        try {
+          const { route, params } = pluginManager.resolveRoute(plugin, request.method, path);
+          if (route.scope && request.apiToken && !hasScope(request.apiToken, route.scope)) {
+            reply.code(403);
+            return { error: `Token lacks required scope "${route.scope}"` };
+          }
+
+          const response = await pluginManager.sendHttpRequest(
+            plugin,
+            {
+              method: route.method,
+              route: route.path,
+              path,
+              params,
+              query: request.query,
+              headers: forwardedHeaders(request.headers),
+              body: request.body,
+            },
+            route.timeoutMs
+          );
+
+          const status = response.status ?? 200;
+          if (!Number.isInteger(status) || status < 200 || status > 599) {
+            throw new PluginRequestError('plugin-error', `Plugin ${plugin} returned invalid status ${status}`);
+          }
+          reply.code(status);
+          if (response.headers) {
+            reply.headers(responseHeaders(response.headers));
+          }
+          return reply.send(response.body);
+        } catch (error) {
+          if (!(error instanceof PluginRequestError)) {
+            throw error;
+          }
+          const status = ERROR_STATUS[error.code];
+          logger.warn({ plugin, path, method: request.method, code: error.code }, error.message);
+          reply.code(status);
+          return { error: error.message };
+        }
+      }
+    );
+  });
+}
@@ -0,0 +1,103 @@
+import Fastify, { type FastifyInstance } from 'fastify';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createAIRuntime, type AIRuntime } from '../ai/index.js';
+import { EventBus } from '../core/event-bus.js';
+import { MemoryNoteRepository } from '../repositories/memory-note-repository.js';
+import type { SyncService } from '../services/sync-service.js';
+import type { AppConfig } from '../types/index.js';
+import { registerRoutes } from './routes.js';
+
+describe('GET /api/search/semantic', () => {
+  let app: FastifyInstance;
+  let aiRuntime: AIRuntime;
+
+  beforeEach(async () => {
+    aiRuntime = createAIRuntime(new EventBus(), new MemoryNoteRepository());
+    app = Fastify();
+    await registerRoutes(app, {} as SyncService, {} as AppConfig, { aiRuntime });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const get = (url: string) => app.inject({ method: 'GET', url });
+
+  it('returns chunk results, passing topK and minScore through', async () => {
+    const result = { noteId: 'a', notePath: 'a.md', chunkId: 'a-0', chunkText: 'text', score: 0.9, order: 0 };
+    const search = vi.spyOn(aiRuntime.getSearchService(), 'search').mockResolvedValue([result]);
+
+    const res = await get('/api/search/semantic?q=hello%20world&topK=5&minScore=0.5');
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toEqual([result]);
+    expect(search).toHaveBeenCalledWith({ query: 'hello world', topK: 5, minScore: 0.5 });
+  });
+
+  it('groups results per note with groupBy=note', async () => {
+    const searchNotes = vi.spyOn(aiRuntime.getSearchService(), 'searchNotes').mockResolvedValue([]);
+
+    const res = await get('/api/search/semantic?q=hello&groupBy=note');
+
+    expect(res.statusCode).toBe(200);
+    expect(searchNotes).toHaveBeenCalledWith({ query: 'hello', topK: undefined, minScore: undefined });
+  });
+
+  it.each([
+    ['/api/search/semantic', 'Query parameter "q" is required'],
+    ['/api/search/semantic?q=x&topK=0', 'topK must be an integer between 1 and 100'],
+    ['/api/search/semantic?q=x&topK=2.5', 'topK must be an integer between 1 and 100'],
+    ['/api/search/semantic?q=x&minScore=abc', 'minScore must be a number between -1 and 1'],
+    ['/api/search/semantic?q=x&groupBy=folder', 'groupBy must be "note"'],
+  ])('rejects %s', async (url, error) => {
+    const res = await get(url);
+    expect(res.statusCode).toBe(400);
+    expect(res.json()).toEqual({ error });
+  });
+
+  it('responds 503 when the AI runtime is disabled', async () => {
+    const bare = Fastify();
+    await registerRoutes(bare, {} as SyncService, {} as AppConfig);
+
+    const res = await bare.inject({ method: 'GET', url: '/api/search/semantic?q=x' });
+
+    expect(res.statusCode).toBe(503);
+    await bare.close();
+  });
+});
+
+describe('POST /api/ai/reconcile', () => {
+  it('runs a reconciliation and returns its report', async () => {
+    const notes = new MemoryNoteRepository();
+    await notes.save({
+      id: 'a.md',
+      path: 'a.md',
+      content: '# A\n\ntext',
+      mtime: new Date(),
+      ctime: new Date(),
+      size: 10,
+    });
+    const app = Fastify();
+    await registerRoutes(app, {} as SyncService, {} as AppConfig, {
+      aiRuntime: createAIRuntime(new EventBus(), notes),
+    });
+
+    const res = await app.inject({ method: 'POST', url: '/api/ai/reconcile' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toMatchObject({ notes: 1, indexed: 1, unchanged: 0, removed: 0, failed: 0 });
+    await app.close();
+  });
+
+  it('responds 503 when the AI runtime is disabled', async () => {
+    const app = Fastify();
+    await registerRoutes(app, {} as SyncService, {} as AppConfig);
+
+    const res = await app.inject({ method: 'POST', url: '/api/ai/reconcile' });
+
+    expect(res.statusCode).toBe(503);
+    await app.close();
+  });
+});
@@ -1,60 +1,237 @@
+import type { OutgoingHttpHeaders } from 'node:http';
 import { FastifyInstance } from 'fastify';
 import { SyncService } from '../services/sync-service.js';
-import { AppConfig } from '../types/index.js';
+import { AppConfig, Note, SyncMode } from '../types/index.js';
+import { getMimeType } from '../utils/file-types.js';
+import { EventStream } from './event-stream.js';
+import { PluginManager } from '../plugins/plugin-manager.js';
+import { registerPluginProxy } from './plugin-proxy.js';
+import { PROMETHEUS_CONTENT_TYPE, registry } from '../utils/metrics.js';
+import type { AIRuntime } from '../ai/index.js';
+
+/**
+ * Optional services exposed through the API
+ */
+export interface RouteDependencies {
+  eventStream?: EventStream;
+  pluginManager?: PluginManager;
+  aiRuntime?: AIRuntime;
+}
+
+/**
+ * JSON view of a note; binary content is served via /notes/:id/raw instead
+ */
+function toNoteResponse(note: Note) {
+  if (typeof note.content === 'string') {
+    return note;
+  }
+  return { ...note, content: null, binary: true, mimeType: getMimeType(note.path) };
+}
 
 export async function registerRoutes(
   app: FastifyInstance,
   syncService: SyncService,
-  config: AppConfig
+  config: AppConfig,
+  deps: RouteDependencies = {}
 ) {
+  // Prometheus scrape endpoint (outside /api, as scrapers expect)
+  app.get('/metrics', { config: { scope: 'metrics:read' } }, async (_request, reply) => {
+    reply.header('Content-Type', PROMETHEUS_CONTENT_TYPE);
+    return registry.render();
+  });
+
   await app.register(
     async (api) => {
       // Health check
-      api.get('/health', async () => {
+      api.get('/health', { config: { public: true } }, async () => {
         return { status: 'ok', timestamp: new Date().toISOString() };
       });
 
       // Get sync status
-      api.get('/sync/status', async () => {
+      api.get('/sync/status', { config: { scope: 'notes:read' } }, async () => {
         return syncService.getStatus();
       });
 
       // Trigger manual sync
-      api.post('/sync/trigger', async () => {
+      api.post('/sync/trigger', { config: { scope: 'sync:trigger' } }, async () => {
         await syncService.sync();
         return { message: 'Sync triggered successfully' };
       });
 
       // Get all notes
-      api.get('/notes', async () => {
-        return syncService.getNotes();
+      api.get('/notes', { config: { scope: 'notes:read' } }, async () => {
+        const notes = await syncService.getNotes();
+        return notes.map(toNoteResponse);
       });
 
       // Get specific note
-      api.get<{ Params: { id: string } }>('/notes/:id', async (request, reply) => {
-        const note = await syncService.getNote(request.params.id);
-        if (!note) {
-          reply.code(404);
-          return { error: 'Note not found' };
+      api.get<{ Params: { id: string } }>(
+        '/notes/:id',
+        { config: { scope: 'notes:read' } },
+        async (request, reply) => {
+          const note = await syncService.getNote(request.params.id);
+          if (!note) {
+            reply.code(404);
+            return { error: 'Note not found' };
+          }
+          return toNoteResponse(note);
         }
-        return note;
-      });
+      );
+
+      // Get raw note content (text or binary) with its MIME type
+      api.get<{ Params: { id: string } }>(
+        '/notes/:id/raw',
+        { config: { scope: 'notes:read' } },
+        async (request, reply) => {
+          const note = await syncService.getNote(request.params.id);
+          if (!note) {
+            reply.code(404);
+            return { error: 'Note not found' };
+          }
+          reply.header('Content-Type', getMimeType(note.path));
+          return reply.send(note.content);
+        }
+      );
 
       // Search notes
       api.get<{ Querystring: { q: string } }>(
         '/notes/search',
+        { config: { scope: 'notes:read' } },
         async (request, reply) => {
           const query = request.query.q;
           if (!query) {
             reply.code(400);
             return { error: 'Query parameter "q" is required' };
           }
-          return syncService.searchNotes(query);
+          const notes = await syncService.searchNotes(query);
+          return notes.map(toNoteResponse);
+        }
+      );
+
+      // Semantic search over note embeddings; groupBy=note returns one result per note
+      api.get<{ Querystring: { q?: string; topK?: string; minScore?: string; groupBy?: string } }>(
+        '/search/semantic',
+        { config: { scope: 'notes:read' } },
+        async (request, reply) => {
+          if (!deps.aiRuntime) {
+            reply.code(503);
+            return { error: 'Semantic search not available' };
+          }
+          const { q: query, groupBy } = request.query;
+          if (!query) {
+            reply.code(400);
+            return { error: 'Query parameter "q" is required' };
+          }
+          const topK = request.query.topK === undefined ? undefined : Number(request.query.topK);
+          if (topK !== undefined && (!Number.isInteger(topK) || topK < 1 || topK > 100)) {
+            reply.code(400);
+            return { error: 'topK must be an integer between 1 and 100' };
+          }
+          const minScore = request.query.minScore === undefined ? undefined : Number(request.query.minScore);
+          if (minScore !== undefined && (!Number.isFinite(minScore) || minScore < -1 || minScore > 1)) {
+            reply.code(400);
+            return { error: 'minScore must be a number between -1 and 1' };
+          }
+          if (groupBy !== undefined && groupBy !== 'note') {
+            reply.code(400);
+            return { error: 'groupBy must be "note"' };
+          }
+
+          const searchService = deps.aiRuntime.getSearchService();
+          const search = { query, topK, minScore };
+          return groupBy === 'note' ? searchService.searchNotes(search) : searchService.search(search);
+        }
+      );
+
+      // Reconcile embedding indices with the vault now instead of waiting for the schedule
+      api.post('/ai/reconcile', { config: { scope: 'admin' } }, async (_request, reply) => {
+        if (!deps.aiRuntime) {
+          reply.code(503);
+          return { error: 'AI runtime not available' };
+        }
+        return deps.aiRuntime.reconcile();
+      });
+
+      // Stream events as Server-Sent Events, optionally filtered by type
+      api.get<{ Querystring: { types?: string; lastEventId?: string } }>(
+        '/events',
+        { config: { scope: 'notes:read', queryToken: true } },
+        async (request, reply) => {
+          const { eventStream } = deps;
+          if (!eventStream) {
+            reply.code(404);
+            return { error: 'Event stream not available' };
+          }
+
+          const types = (request.query.types ?? '')
+            .split(',')
+            .map((type) => type.trim())
+            .filter((type) => type.length > 0);
+          const unknown = types.filter((type) => !EventStream.isEventType(type));
+          if (unknown.length > 0) {
+            reply.code(400);
+            return { error: `Unknown event types: ${unknown.join(', ')}` };
+          }
+
+          const lastEventIdHeader = request.headers['last-event-id'];
+          const lastEventId =
+            (Array.isArray(lastEventIdHeader) ? lastEventIdHeader[0] : lastEventIdHeader) ??
+            request.query.lastEventId;
+
+          reply.hijack();
+          reply.raw.writeHead(200, {
+            ...(reply.getHeaders() as OutgoingHttpHeaders),
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+            'X-Accel-Buffering': 'no',
+          });
+          const detach = eventStream.attach(reply.raw, { types, lastEventId });
+          request.raw.on('close', detach);
+          return reply;
+        }
+      );
+
+      // Plugin health (running, restarting, failed, ...) as seen by the supervisor
+      api.get('/plugins', { config: { scope: 'metrics:read' } }, async () => {
+        return deps.pluginManager?.getStatuses() ?? [];
+      });
+
+      // Re-read the plugin config: start added, stop removed and restart changed plugins
+      api.post('/plugins/reload', { config: { scope: 'admin' } }, async (_request, reply) => {
+        if (!deps.pluginManager) {
+          reply.code(503);
+          return { error: 'Plugin manager not available' };
+        }
+        try {
+          return await deps.pluginManager.reload();
+        } catch (error) {
+          reply.code(400);
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      });
+
+      // Events at-least-once plugins never acknowledged
+      api.get<{ Querystring: { plugin?: string } }>(
+        '/plugins/dead-letters',
+        { config: { scope: 'admin' } },
+        async (request) => {
+          return deps.pluginManager?.getDeadLetters(request.query.plugin) ?? [];
         }
       );
 
-      // Get current configuration (excluding sensitive data)
-      api.get('/config', async () => {
+      // Routes declared by plugins, proxied over JSON-RPC
+      if (deps.pluginManager) {
+        await registerPluginProxy(api, deps.pluginManager);
+      }
+
+      // List notes with conflicting CouchDB revisions and how they were resolved
+      api.get('/conflicts', { config: { scope: 'notes:read' } }, async () => {
+        return syncService.getConflicts();
+      });
+
+      // Get current configuration (excluding sensitive data); admin only
+      api.get('/config', { config: { scope: 'admin' } }, async () => {
         return {
           sync: config.sync,
           server: {
@@ -69,25 +246,33 @@ export async function registerRoutes(
       });
 
       // Update sync configuration
-      api.put<{ Body: { interval?: number; autoSyncEnabled?: boolean } }>(
+      api.put<{ Body: { interval?: number; autoSyncEnabled?: boolean; mode?: SyncMode } }>(
         '/config/sync',
-        async (request) => {
-          const { interval, autoSyncEnabled } = request.body;
+        { config: { scope: 'admin' } },
+        async (request, reply) => {
+          const { interval, autoSyncEnabled, mode } = request.body;
+
+          if (mode !== undefined && mode !== 'interval' && mode !== 'longpoll') {
+            reply.code(400);
+            return { error: 'mode must be "interval" or "longpoll"' };
+          }
 
           if (interval !== undefined) {
             config.sync.interval = interval;
-            syncService.stopAutoSync();
-            if (config.sync.autoSyncEnabled) {
-              syncService.startAutoSync(interval);
-            }
           }
-
+          if (mode !== undefined) {
+            config.sync.mode = mode;
+          }
           if (autoSyncEnabled !== undefined) {
             config.sync.autoSyncEnabled = autoSyncEnabled;
-            if (autoSyncEnabled) {
-              syncService.startAutoSync(config.sync.interval);
+          }
+
+          syncService.stopAutoSync();
+          if (config.sync.autoSyncEnabled) {
+            if (config.sync.mode === 'longpoll') {
+              syncService.startChangesFeed({ heartbeatMs: config.sync.heartbeatMs });
             } else {
-              syncService.stopAutoSync();
+              syncService.startAutoSync(config.sync.interval);
             }
           }
 
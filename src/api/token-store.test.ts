@@ -0,0 +1,57 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { TokenStore, hashToken } from './token-store.js';
+
+describe('TokenStore', () => {
+  let dir: string;
+  let filePath: string;
+  let store: TokenStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'token-store-'));
+    filePath = join(dir, 'tokens.json');
+    store = new TokenStore(filePath);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates tokens that verify and persists only their hash', async () => {
+    const { token, record } = await store.create('ci', ['sync:trigger']);
+
+    expect(token.startsWith('olh_')).toBe(true);
+    expect(await store.verify(token)).toEqual(record);
+    expect(await store.verify('olh_wrong')).toBeNull();
+
+    const stored = readFileSync(filePath, 'utf-8');
+    expect(stored).not.toContain(token);
+    expect(JSON.parse(stored).tokens[0].hash).toBe(hashToken(token));
+  });
+
+  it('rejects unknown or empty scopes', async () => {
+    await expect(store.create('bad', ['write' as any])).rejects.toThrow('Invalid scopes');
+    await expect(store.create('none', [])).rejects.toThrow('Invalid scopes');
+  });
+
+  it('revokes tokens by id', async () => {
+    const { token, record } = await store.create('reader', ['notes:read']);
+
+    expect(await store.revoke(record.id)).toBe(true);
+    expect(await store.revoke(record.id)).toBe(false);
+    expect(await store.verify(token)).toBeNull();
+  });
+
+  it('picks up tokens added to the file by another process', async () => {
+    expect(await store.list()).toEqual([]);
+
+    const other = new TokenStore(filePath);
+    const { token } = await other.create('cli', ['admin']);
+
+    expect((await store.verify(token))?.name).toBe('cli');
+  });
+});
@@ -0,0 +1,119 @@
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { dirname } from 'node:path';
+import type { ApiScope, ApiToken } from '../types/index.js';
+import logger from '../utils/logger.js';
+
+export const API_SCOPES: ApiScope[] = ['notes:read', 'sync:trigger', 'metrics:read', 'admin'];
+
+const TOKEN_PREFIX = 'olh_';
+
+/**
+ * Hash a raw bearer token for storage and lookup (sha256, hex encoded)
+ * Tokens are 32 random bytes, so a fast unsalted hash is sufficient.
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token, 'utf-8').digest('hex');
+}
+
+/**
+ * API token store backed by a JSON file
+ *
+ * Only token hashes are persisted; the raw token is returned once on
+ * creation. The file is re-read when it changes on disk, so tokens managed
+ * with the CLI (or edited by hand) apply without a restart.
+ */
+export class TokenStore {
+  private tokens = new Map<string, ApiToken>();
+  private loadedMtimeMs?: number;
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Load tokens from disk (missing file means no tokens)
+   */
+  async load(): Promise<void> {
+    try {
+      const stats = await fs.stat(this.filePath);
+      if (stats.mtimeMs === this.loadedMtimeMs) {
+        return;
+      }
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      const list: ApiToken[] = Array.isArray(parsed?.tokens) ? parsed.tokens : [];
+      this.tokens = new Map(list.map((token) => [token.hash, token]));
+      this.loadedMtimeMs = stats.mtimeMs;
+      logger.debug({ filePath: this.filePath, count: this.tokens.size }, 'API tokens loaded');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        this.tokens.clear();
+        this.loadedMtimeMs = undefined;
+        return;
+      }
+      logger.error({ error, filePath: this.filePath }, 'Failed to load API tokens');
+      throw error;
+    }
+  }
+
+  /**
+   * Look up the token record for a raw bearer token
+   */
+  async verify(token: string): Promise<ApiToken | null> {
+    await this.load();
+    return this.tokens.get(hashToken(token)) ?? null;
+  }
+
+  async list(): Promise<ApiToken[]> {
+    await this.load();
+    return Array.from(this.tokens.values());
+  }
+
+  /**
+   * Create a token; the raw token is only available from the return value
+   */
+  async create(name: string, scopes: ApiScope[]): Promise<{ token: string; record: ApiToken }> {
+    const invalid = scopes.filter((scope) => !API_SCOPES.includes(scope));
+    if (scopes.length === 0 || invalid.length > 0) {
+      throw new Error(`Invalid scopes: ${invalid.join(', ') || '(none)'}; expected ${API_SCOPES.join(', ')}`);
+    }
+
+    await this.load();
+    const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const record: ApiToken = {
+      id: randomUUID(),
+      name,
+      hash: hashToken(token),
+      scopes,
+      createdAt: new Date().toISOString(),
+    };
+    this.tokens.set(record.hash, record);
+    await this.save();
+    logger.info({ id: record.id, name, scopes }, 'API token created');
+    return { token, record };
+  }
+
+  /**
+   * Revoke a token by id
+   *
+   * @returns false if no token has that id
+   */
+  async revoke(id: string): Promise<boolean> {
+    await this.load();
+    const record = Array.from(this.tokens.values()).find((token) => token.id === id);
+    if (!record) {
+      return false;
+    }
+    this.tokens.delete(record.hash);
+    await this.save();
+    logger.info({ id, name: record.name }, 'API token revoked');
+    return true;
+  }
+
+  private async save(): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    const json = JSON.stringify({ tokens: Array.from(this.tokens.values()) }, null, 2);
+    await fs.writeFile(tempPath, json, { encoding: 'utf-8', mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+    this.loadedMtimeMs = (await fs.stat(this.filePath)).mtimeMs;
+  }
+}
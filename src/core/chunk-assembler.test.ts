@@ -306,4 +306,56 @@ describe('ChunkAssembler', () => {
       expect(mockStorage.getDocuments).not.toHaveBeenCalled();
     });
   });
+
+  describe('Binary documents', () => {
+    const pngBytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff, 0xfe, 0x80]);
+
+    it('should assemble non-text paths as byte-exact buffers', async () => {
+      const doc: LiveSyncDocument = {
+        _id: 'images/logo.png',
+        _rev: '1-png',
+        type: 'newnote',
+        path: 'images/logo.png',
+        children: ['h:png1', 'h:png2'],
+        mtime: Date.now(),
+        ctime: Date.now(),
+        size: pngBytes.length,
+      };
+
+      mockStorage.getDocuments = vi.fn(async () => {
+        const chunks = new Map<string, LiveSyncDocument>();
+        chunks.set('h:png1', {
+          _id: 'h:png1',
+          type: 'leaf',
+          data: pngBytes.subarray(0, 7).toString('base64'),
+        } as LiveSyncDocument);
+        chunks.set('h:png2', {
+          _id: 'h:png2',
+          type: 'leaf',
+          data: pngBytes.subarray(7).toString('base64'),
+        } as LiveSyncDocument);
+        return chunks;
+      });
+
+      const result = await assembler.assembleDocument(doc);
+
+      expect(Buffer.isBuffer(result)).toBe(true);
+      expect((result as Buffer).equals(pngBytes)).toBe(true);
+    });
+
+    it('should keep plain-text paths as strings', async () => {
+      const doc: LiveSyncDocument = {
+        _id: 'notes/readme.txt',
+        _rev: '1-txt',
+        type: 'plain',
+        path: 'notes/readme.txt',
+        data: Buffer.from('text file').toString('base64'),
+        mtime: Date.now(),
+        ctime: Date.now(),
+        size: 9,
+      };
+
+      expect(await assembler.assembleDocument(doc)).toBe('text file');
+    });
+  });
 });
@@ -8,11 +8,17 @@
  * 1. Direct data: Small files or legacy format with 'data' field
  * 2. Children chunks: Large files split into chunks referenced by 'children' array
  * 3. Eden cache: Optimized cache containing recent chunks
+ *
+ * Binary files (anything but LiveSync's plain-text extensions) are assembled
+ * as a Buffer: each chunk is base64 decoded to bytes and the bytes are joined,
+ * so attachments come out byte-exact.
  */
 
 import { IDocumentAssembler, IDocumentStorage, AssemblyStats } from './interfaces.js';
-import { LiveSyncDocument } from '../types/index.js';
+import { LiveSyncDocument, NoteContent } from '../types/index.js';
 import { LiveSyncCrypto } from '../utils/livesync-crypto.js';
+import { isPlainTextPath } from '../utils/file-types.js';
+import metrics from '../utils/metrics.js';
 import logger from '../utils/logger.js';
 
 export class ChunkAssembler implements IDocumentAssembler {
@@ -35,31 +41,27 @@ export class ChunkAssembler implements IDocumentAssembler {
    * 2. Eden cache (optimized recent chunks)
    * 3. Children chunks (standard chunked storage)
    */
-  async assembleDocument(doc: LiveSyncDocument): Promise<string | null> {
+  async assembleDocument(doc: LiveSyncDocument): Promise<NoteContent | null> {
     logger.debug({ docId: doc._id, type: doc.type }, 'Assembling document');
+    const binary = !!doc.path && !isPlainTextPath(doc.path);
 
     try {
       // Strategy 1: Direct data field
       if (doc.data) {
         logger.debug({ docId: doc._id }, 'Using direct data field');
-        if (this.crypto) {
-          return await this.crypto.decrypt(doc.data);
-        } else {
-          // No encryption, decode base64
-          return Buffer.from(doc.data, 'base64').toString('utf-8');
-        }
+        return this.joinPieces([await this.decodePiece(doc.data, binary)], binary);
       }
 
       // Strategy 2: Eden cache (if available)
       if (doc.eden && Object.keys(doc.eden).length > 0) {
         logger.debug({ docId: doc._id, edenChunks: Object.keys(doc.eden).length }, 'Using Eden cache');
-        return await this.assembleFromEden(doc.eden);
+        return await this.assembleFromEden(doc.eden, binary);
       }
 
       // Strategy 3: Children chunks
       if (doc.children && doc.children.length > 0) {
         logger.debug({ docId: doc._id, childrenCount: doc.children.length }, 'Using children chunks');
-        return await this.assembleFromChildren(doc.children);
+        return await this.assembleFromChildren(doc.children, binary);
       }
 
       // No data source available
@@ -77,7 +79,7 @@ export class ChunkAssembler implements IDocumentAssembler {
    * Children are chunk IDs (typically starting with 'h:' or 'h:+')
    * that need to be fetched and combined in order.
    */
-  private async assembleFromChildren(children: string[]): Promise<string> {
+  private async assembleFromChildren(children: string[], binary: boolean): Promise<NoteContent> {
     const stats: AssemblyStats = {
       totalChunks: children.length,
       successfulChunks: 0,
@@ -86,15 +88,23 @@ export class ChunkAssembler implements IDocumentAssembler {
     };
 
     // Bulk fetch all chunks for efficiency
-    const chunkDocs = await this.storage.getDocuments(children);
+    metrics.chunkFetches.inc({}, children.length);
+    let chunkDocs: Map<string, LiveSyncDocument>;
+    try {
+      chunkDocs = await this.storage.getDocuments(children);
+    } catch (error) {
+      metrics.chunkFetchFailures.inc({}, children.length);
+      throw error;
+    }
 
-    const chunks: string[] = [];
+    const chunks: Array<string | Buffer> = [];
 
     for (const chunkId of children) {
       const chunk = chunkDocs.get(chunkId);
 
       if (!chunk) {
         stats.failedChunks++;
+        metrics.chunkFetchFailures.inc();
         logger.error({ chunkId }, 'Chunk not found');
         throw new Error(`Chunk not found: ${chunkId}`);
       }
@@ -105,26 +115,20 @@ export class ChunkAssembler implements IDocumentAssembler {
 
       if (!chunk.data) {
         stats.failedChunks++;
+        metrics.chunkFetchFailures.inc();
         logger.error({ chunkId }, 'Chunk has no data field');
         throw new Error(`Chunk has no data: ${chunkId}`);
       }
 
       // Decrypt chunk data (may be encrypted)
-      let decryptedChunk: string;
-      if (this.crypto) {
-        decryptedChunk = await this.crypto.decrypt(chunk.data);
-      } else {
-        // No encryption, decode base64
-        decryptedChunk = Buffer.from(chunk.data, 'base64').toString('utf-8');
-      }
-      chunks.push(decryptedChunk);
+      chunks.push(await this.decodePiece(chunk.data, binary));
       stats.successfulChunks++;
     }
 
     logger.debug(stats, 'Chunk assembly completed');
 
     // Combine all chunks in order
-    return chunks.join('');
+    return this.joinPieces(chunks, binary);
   }
 
   /**
@@ -134,8 +138,9 @@ export class ChunkAssembler implements IDocumentAssembler {
    * Chunks are stored with an epoch number for ordering.
    */
   private async assembleFromEden(
-    eden: Record<string, { data: string; epoch: number }>
-  ): Promise<string> {
+    eden: Record<string, { data: string; epoch: number }>,
+    binary: boolean
+  ): Promise<NoteContent> {
     const stats: AssemblyStats = {
       totalChunks: Object.keys(eden).length,
       successfulChunks: 0,
@@ -148,18 +153,11 @@ export class ChunkAssembler implements IDocumentAssembler {
       const sortedEntries = Object.entries(eden)
         .sort(([, a], [, b]) => a.epoch - b.epoch);
 
-      const decryptedChunks: string[] = [];
+      const decryptedChunks: Array<string | Buffer> = [];
 
       for (const [chunkId, chunk] of sortedEntries) {
         try {
-          let decrypted: string;
-          if (this.crypto) {
-            decrypted = await this.crypto.decrypt(chunk.data);
-          } else {
-            // No encryption, decode base64
-            decrypted = Buffer.from(chunk.data, 'base64').toString('utf-8');
-          }
-          decryptedChunks.push(decrypted);
+          decryptedChunks.push(await this.decodePiece(chunk.data, binary));
           stats.successfulChunks++;
         } catch (error: any) {
           stats.failedChunks++;
@@ -170,13 +168,35 @@ export class ChunkAssembler implements IDocumentAssembler {
 
       logger.debug(stats, 'Eden assembly completed');
 
-      return decryptedChunks.join('');
+      return this.joinPieces(decryptedChunks, binary);
     } catch (error: any) {
       logger.error({ error: error.message }, 'Failed to assemble from Eden');
       throw error;
     }
   }
 
+  /**
+   * Decode a single piece of stored data (direct data, eden or leaf chunk)
+   *
+   * Text: decrypted as-is with a passphrase, base64 decoded without one.
+   * Binary: the (decrypted) payload is base64 and decoded to bytes.
+   */
+  private async decodePiece(data: string, binary: boolean): Promise<string | Buffer> {
+    const payload = this.crypto ? await this.crypto.decrypt(data) : data;
+    if (binary) {
+      return Buffer.from(payload, 'base64');
+    }
+    // No encryption, decode base64
+    return this.crypto ? payload : Buffer.from(payload, 'base64').toString('utf-8');
+  }
+
+  private joinPieces(pieces: Array<string | Buffer>, binary: boolean): NoteContent {
+    if (binary) {
+      return Buffer.concat(pieces as Buffer[]);
+    }
+    return (pieces as string[]).join('');
+  }
+
   /**
    * Get assembly statistics for the last operation
    * (Could be extended to track stats per document)
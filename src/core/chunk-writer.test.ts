@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ChunkWriter } from './chunk-writer.js';
+import { ChunkAssembler } from './chunk-assembler.js';
+import type { DocumentWriteResult, IWritableDocumentStorage } from './interfaces.js';
+import type { LiveSyncDocument } from '../types/index.js';
+
+/**
+ * Minimal in-memory CouchDB stand-in that tracks revisions
+ */
+function createMemoryStorage(): IWritableDocumentStorage & { docs: Map<string, LiveSyncDocument> } {
+  const docs = new Map<string, LiveSyncDocument>();
+
+  const put = (doc: LiveSyncDocument): DocumentWriteResult => {
+    const current = docs.get(doc._id);
+    if (current && current._rev !== doc._rev) {
+      return { id: doc._id, error: 'conflict' };
+    }
+    const generation = current?._rev ? parseInt(current._rev, 10) + 1 : 1;
+    const rev = `${generation}-x`;
+    docs.set(doc._id, JSON.parse(JSON.stringify({ ...doc, _rev: rev })));
+    return { id: doc._id, rev };
+  };
+
+  return {
+    docs,
+    getDocument: vi.fn(async (id: string) => docs.get(id) ?? null),
+    getDocuments: vi.fn(async (ids: string[]) => {
+      const found = new Map<string, LiveSyncDocument>();
+      ids.forEach((id) => {
+        const doc = docs.get(id);
+        if (doc) found.set(id, doc);
+      });
+      return found;
+    }),
+    getAllDocuments: vi.fn(async () => Array.from(docs.values())),
+    putDocument: vi.fn(async (doc: LiveSyncDocument) => {
+      const result = put(doc);
+      if (result.error) {
+        throw new Error('Document update conflict');
+      }
+      return result;
+    }),
+    putDocuments: vi.fn(async (list: LiveSyncDocument[]) => list.map(put)),
+  };
+}
+
+const input = (content: string, path = 'folder/note.md') => ({
+  path,
+  content,
+  mtime: new Date('2024-01-02T00:00:00Z'),
+  ctime: new Date('2024-01-01T00:00:00Z'),
+});
+
+describe('ChunkWriter', () => {
+  let storage: ReturnType<typeof createMemoryStorage>;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+  });
+
+  describe('without encryption', () => {
+    it('should write newnote metadata with base64 leaf chunks', async () => {
+      const writer = new ChunkWriter(storage);
+
+      const rev = await writer.writeDocument(input('Hello World'));
+
+      const meta = storage.docs.get('folder/note.md')!;
+      expect(rev).toBe('1-x');
+      expect(meta.type).toBe('newnote');
+      expect(meta.path).toBe('folder/note.md');
+      expect(meta.size).toBe(11);
+      expect(meta.mtime).toBe(new Date('2024-01-02T00:00:00Z').getTime());
+      expect(meta.children).toHaveLength(1);
+
+      const chunk = storage.docs.get(meta.children![0])!;
+      expect(chunk._id.startsWith('h:')).toBe(true);
+      expect(chunk.type).toBe('leaf');
+      expect(Buffer.from(chunk.data!, 'base64').toString('utf-8')).toBe('Hello World');
+    });
+
+    it('should round-trip through ChunkAssembler across multiple chunks', async () => {
+      const writer = new ChunkWriter(storage, undefined, { chunkSize: 16 });
+      const content = 'line one\nline two\nline three\n😀😀😀😀😀😀😀😀😀😀 emoji tail';
+
+      await writer.writeDocument(input(content));
+
+      const meta = storage.docs.get('folder/note.md')!;
+      expect(meta.children!.length).toBeGreaterThan(1);
+
+      const assembler = new ChunkAssembler(storage);
+      expect(await assembler.assembleDocument(meta)).toBe(content);
+    });
+
+    it('should update existing documents using their current _rev', async () => {
+      const writer = new ChunkWriter(storage);
+
+      await writer.writeDocument(input('first'));
+      const rev = await writer.writeDocument(input('second'));
+
+      expect(rev).toBe('2-x');
+      const assembler = new ChunkAssembler(storage);
+      expect(await assembler.assembleDocument(storage.docs.get('folder/note.md')!)).toBe('second');
+    });
+
+    it('should only write chunks that are missing', async () => {
+      const writer = new ChunkWriter(storage);
+
+      await writer.writeDocument(input('shared', 'a.md'));
+      await writer.writeDocument(input('shared', 'b.md'));
+
+      const secondCall = vi.mocked(storage.putDocuments).mock.calls[1];
+      expect(secondCall).toBeUndefined();
+      expect(storage.docs.get('a.md')!.children).toEqual(storage.docs.get('b.md')!.children);
+    });
+
+    it('should throw when chunk writes fail for reasons other than conflict', async () => {
+      storage.putDocuments = vi.fn(async (docs: LiveSyncDocument[]) =>
+        docs.map((doc) => ({ id: doc._id, error: 'forbidden' }))
+      );
+      const writer = new ChunkWriter(storage);
+
+      await expect(writer.writeDocument(input('content'))).rejects.toThrow('Failed to write chunks');
+      expect(storage.putDocument).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with encryption', () => {
+    const passphrase = 'test-passphrase';
+
+    beforeEach(() => {
+      storage.docs.set('_local/obsidian_livesync_sync_parameters', {
+        _id: '_local/obsidian_livesync_sync_parameters',
+        pbkdf2salt: Buffer.from('0123456789abcdef0123456789abcdef').toString('base64'),
+      } as unknown as LiveSyncDocument);
+    });
+
+    it('should write plain metadata with encrypted h:+ chunks readable by ChunkAssembler', async () => {
+      const writer = new ChunkWriter(storage, passphrase);
+      const content = '# Daily note\n\n- item';
+
+      await writer.writeDocument(input(content));
+
+      const meta = storage.docs.get('folder/note.md')!;
+      expect(meta.type).toBe('plain');
+      const chunk = storage.docs.get(meta.children![0])!;
+      expect(chunk._id.startsWith('h:+')).toBe(true);
+      expect(chunk.data!.startsWith('%=')).toBe(true);
+
+      const assembler = new ChunkAssembler(storage, passphrase);
+      expect(await assembler.assembleDocument(meta)).toBe(content);
+    });
+  });
+
+  describe('binary content', () => {
+    it('should split bytes into base64 chunks that round-trip byte-exact', async () => {
+      const writer = new ChunkWriter(storage, undefined, { chunkSize: 4 });
+      const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe, 0x80, 0x0a, 0x0d]);
+
+      await writer.writeDocument({ ...input('', 'images/pic.png'), content: bytes });
+
+      const meta = storage.docs.get('images/pic.png')!;
+      expect(meta.type).toBe('newnote');
+      expect(meta.size).toBe(bytes.length);
+      expect(meta.children).toHaveLength(3);
+
+      const assembled = await new ChunkAssembler(storage).assembleDocument(meta);
+      expect((assembled as Buffer).equals(bytes)).toBe(true);
+    });
+  });
+
+  describe('deleteDocument', () => {
+    it('should soft-delete an existing document', async () => {
+      const writer = new ChunkWriter(storage);
+      await writer.writeDocument(input('bye'));
+
+      const rev = await writer.deleteDocument('folder/note.md');
+
+      const meta = storage.docs.get('folder/note.md')!;
+      expect(rev).toBe('2-x');
+      expect(meta.deleted).toBe(true);
+      expect(meta.children).toEqual([]);
+    });
+
+    it('should return null when the document does not exist', async () => {
+      const writer = new ChunkWriter(storage);
+
+      expect(await writer.deleteDocument('missing.md')).toBeNull();
+      expect(storage.putDocument).not.toHaveBeenCalled();
+    });
+  });
+});
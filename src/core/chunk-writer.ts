@@ -0,0 +1,206 @@
+/**
+ * ChunkWriter - Writes notes back to CouchDB as LiveSync documents
+ *
+ * This is the inverse of ChunkAssembler: content is split into `leaf`
+ * chunk documents and a metadata document referencing them via `children`.
+ *
+ * Chunk encoding mirrors what ChunkAssembler (and LiveSync) reads back:
+ * 1. With a passphrase: `plain` metadata, chunk data HKDF-encrypted (`%=` prefix)
+ * 2. Without a passphrase: `newnote` metadata, chunk data base64 encoded
+ *
+ * Binary content (a Buffer) is always written as `newnote`: the bytes are
+ * split, each piece base64 encoded and then encrypted when a passphrase is set.
+ *
+ * Chunks are content-addressed, so identical chunks are shared between
+ * notes and only missing chunks are written.
+ */
+
+import { createHash } from 'node:crypto';
+import { DocumentWriteInput, IDocumentWriter, IWritableDocumentStorage } from './interfaces.js';
+import { LiveSyncDocument, NoteContent } from '../types/index.js';
+import { LiveSyncCrypto } from '../utils/livesync-crypto.js';
+import logger from '../utils/logger.js';
+
+const DEFAULT_CHUNK_SIZE = 50 * 1024;
+
+export interface ChunkWriterOptions {
+  /** Maximum chunk length in characters, or bytes for binary content (default 50KB) */
+  chunkSize?: number;
+}
+
+export class ChunkWriter implements IDocumentWriter {
+  private crypto?: LiveSyncCrypto;
+  private readonly chunkSize: number;
+
+  constructor(
+    private storage: IWritableDocumentStorage,
+    private passphrase?: string,
+    options: ChunkWriterOptions = {}
+  ) {
+    if (passphrase) {
+      this.crypto = new LiveSyncCrypto(storage, passphrase);
+    }
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  }
+
+  /**
+   * Write note content as chunks plus metadata document
+   *
+   * The current _rev of the metadata document is fetched right before
+   * writing, so an existing note is updated rather than conflicted.
+   */
+  async writeDocument(input: DocumentWriteInput): Promise<string> {
+    logger.debug({ path: input.path, length: input.content.length }, 'Writing document');
+
+    const binary = Buffer.isBuffer(input.content);
+    const pieces = binary
+      ? this.splitBinary(input.content as Buffer)
+      : this.splitContent(input.content as string);
+    const chunks: LiveSyncDocument[] = [];
+    for (const piece of pieces) {
+      chunks.push(await this.createChunk(piece, binary));
+    }
+    const children = chunks.map((chunk) => chunk._id);
+
+    await this.writeMissingChunks(chunks);
+
+    const current = await this.storage.getDocument(input.path);
+    const metadata: LiveSyncDocument = {
+      _id: input.path,
+      type: this.crypto && !binary ? 'plain' : 'newnote',
+      path: input.path,
+      children,
+      eden: {},
+      mtime: input.mtime.getTime(),
+      ctime: current?.ctime ?? input.ctime.getTime(),
+      size: this.byteLength(input.content),
+    };
+    if (current?._rev) {
+      metadata._rev = current._rev;
+    }
+
+    const result = await this.storage.putDocument(metadata);
+    logger.info(
+      { path: input.path, chunks: children.length, rev: result.rev },
+      'Document written to CouchDB'
+    );
+    return result.rev as string;
+  }
+
+  /**
+   * Mark a note as deleted (LiveSync soft delete keeps the metadata document)
+   */
+  async deleteDocument(path: string): Promise<string | null> {
+    const current = await this.storage.getDocument(path);
+    if (!current || current.deleted) {
+      logger.debug({ path }, 'Document already absent or deleted, nothing to delete');
+      return null;
+    }
+
+    const result = await this.storage.putDocument({
+      ...current,
+      children: [],
+      eden: {},
+      data: undefined,
+      deleted: true,
+      mtime: Date.now(),
+      size: 0,
+    });
+    logger.info({ path, rev: result.rev }, 'Document marked as deleted in CouchDB');
+    return result.rev ?? null;
+  }
+
+  /**
+   * Split content into chunks of at most chunkSize characters
+   *
+   * Prefers cutting after a newline and never splits a surrogate pair.
+   */
+  private splitContent(content: string): string[] {
+    const pieces: string[] = [];
+    let offset = 0;
+
+    while (offset < content.length) {
+      let end = Math.min(offset + this.chunkSize, content.length);
+
+      if (end < content.length) {
+        const newline = content.lastIndexOf('\n', end - 1);
+        if (newline >= offset) {
+          end = newline + 1;
+        } else if (this.isHighSurrogate(content.charCodeAt(end - 1))) {
+          end--;
+        }
+      }
+
+      pieces.push(content.slice(offset, end));
+      offset = end;
+    }
+
+    return pieces;
+  }
+
+  /**
+   * Split binary content into base64 encoded pieces of at most chunkSize bytes
+   */
+  private splitBinary(content: Buffer): string[] {
+    const pieces: string[] = [];
+    for (let offset = 0; offset < content.length; offset += this.chunkSize) {
+      pieces.push(content.subarray(offset, offset + this.chunkSize).toString('base64'));
+    }
+    return pieces;
+  }
+
+  private byteLength(content: NoteContent): number {
+    return typeof content === 'string' ? Buffer.byteLength(content, 'utf-8') : content.length;
+  }
+
+  private isHighSurrogate(code: number): boolean {
+    return code >= 0xd800 && code <= 0xdbff;
+  }
+
+  /**
+   * Build a leaf chunk document for a piece of content
+   *
+   * Encrypted chunk IDs use the `h:+` prefix and mix the passphrase into the
+   * hash so IDs do not reveal content. Binary pieces are already base64.
+   */
+  private async createChunk(piece: string, binary: boolean): Promise<LiveSyncDocument> {
+    if (this.crypto) {
+      const hash = createHash('sha256').update(`${piece}-${this.passphrase}`).digest('hex');
+      return {
+        _id: `h:+${hash.slice(0, 32)}`,
+        type: 'leaf',
+        data: await this.crypto.encrypt(piece),
+      };
+    }
+
+    const hash = createHash('sha256').update(piece).digest('hex');
+    return {
+      _id: `h:${hash.slice(0, 32)}`,
+      type: 'leaf',
+      data: binary ? piece : Buffer.from(piece, 'utf-8').toString('base64'),
+    };
+  }
+
+  /**
+   * Write chunks that do not exist in the database yet
+   */
+  private async writeMissingChunks(chunks: LiveSyncDocument[]): Promise<void> {
+    const unique = new Map(chunks.map((chunk) => [chunk._id, chunk]));
+    const existing = await this.storage.getDocuments(Array.from(unique.keys()));
+    const missing = Array.from(unique.values()).filter((chunk) => !existing.has(chunk._id));
+
+    if (missing.length === 0) {
+      logger.debug({ total: unique.size }, 'All chunks already present');
+      return;
+    }
+
+    const results = await this.storage.putDocuments(missing);
+    // A conflict means another writer stored the same content-addressed chunk
+    const failed = results.filter((row) => row.error && row.error !== 'conflict');
+    if (failed.length > 0) {
+      throw new Error(`Failed to write chunks: ${failed.map((row) => `${row.id} (${row.error})`).join(', ')}`);
+    }
+
+    logger.debug({ written: missing.length, reused: unique.size - missing.length }, 'Chunks written');
+  }
+}
@@ -34,10 +34,13 @@ describe('CouchDBClient', () => {
       fetch: vi.fn(),
       info: vi.fn(),
       changes: vi.fn(),
+      insert: vi.fn(),
+      bulk: vi.fn(),
     };
 
     // Mock nano instance
     mockNano = {
+      request: vi.fn(),
       db: {
         use: vi.fn(() => mockDb),
         list: vi.fn(),
@@ -84,7 +87,7 @@ describe('CouchDBClient', () => {
       const result = await client.getDocument('test-note.md');
 
       expect(result).toEqual(mockDoc);
-      expect(mockDb.get).toHaveBeenCalledWith('test-note.md');
+      expect(mockDb.get).toHaveBeenCalledWith('test-note.md', { conflicts: true });
     });
 
     it('should return null for 404 errors', async () => {
@@ -106,6 +109,30 @@ describe('CouchDBClient', () => {
     });
   });
 
+  describe('getDocumentRevision', () => {
+    it('should fetch a specific revision with its history', async () => {
+      const mockDoc = {
+        _id: 'note.md',
+        _rev: '2-b',
+        _revisions: { start: 2, ids: ['b', 'a'] },
+      };
+      mockDb.get.mockResolvedValue(mockDoc);
+
+      const result = await client.getDocumentRevision('note.md', '2-b');
+
+      expect(result).toEqual(mockDoc);
+      expect(mockDb.get).toHaveBeenCalledWith('note.md', { rev: '2-b', revs: true });
+    });
+
+    it('should return null when the revision is missing', async () => {
+      const error = new Error('missing');
+      (error as any).statusCode = 404;
+      mockDb.get.mockRejectedValue(error);
+
+      expect(await client.getDocumentRevision('note.md', '1-gone')).toBeNull();
+    });
+  });
+
   describe('getDocuments', () => {
     it('should return empty map for empty array', async () => {
       const result = await client.getDocuments([]);
@@ -286,6 +313,86 @@ describe('CouchDBClient', () => {
     });
   });
 
+  describe('iterateDocuments', () => {
+    const row = (id: string) => ({ id, doc: { _id: id, type: 'newnote', path: id } });
+
+    const collect = async (iterator: AsyncGenerator<LiveSyncDocument[]>) => {
+      const batches: string[][] = [];
+      for await (const batch of iterator) {
+        batches.push(batch.map((doc) => doc._id));
+      }
+      return batches;
+    };
+
+    it('should query the key ranges around h: chunks', async () => {
+      mockDb.list
+        .mockResolvedValueOnce({ rows: [row('a.md'), row('b.md')] })
+        .mockResolvedValueOnce({ rows: [row('notes/z.md')] });
+
+      const batches = await collect(client.iterateDocuments({ batchSize: 10 }));
+
+      expect(batches).toEqual([['a.md', 'b.md'], ['notes/z.md']]);
+      expect(mockDb.list).toHaveBeenNthCalledWith(1, {
+        include_docs: true,
+        conflicts: true,
+        limit: 10,
+        endkey: 'h:',
+        inclusive_end: false,
+      });
+      expect(mockDb.list).toHaveBeenNthCalledWith(2, {
+        include_docs: true,
+        conflicts: true,
+        limit: 10,
+        startkey: 'h:\ufff0',
+      });
+    });
+
+    it('should page within a range until a short page is returned', async () => {
+      mockDb.list
+        .mockResolvedValueOnce({ rows: [row('a.md'), row('b.md')] })
+        .mockResolvedValueOnce({ rows: [row('c.md')] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const batches = await collect(client.iterateDocuments({ batchSize: 2 }));
+
+      expect(batches).toEqual([['a.md', 'b.md'], ['c.md']]);
+      expect(mockDb.list.mock.calls[1][0]).toEqual(
+        expect.objectContaining({ startkey: 'b.md\u0000', endkey: 'h:' })
+      );
+    });
+
+    it('should filter _design documents and skip empty pages', async () => {
+      mockDb.list
+        .mockResolvedValueOnce({ rows: [{ id: '_design/views', doc: { _id: '_design/views' } }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const batches = await collect(client.iterateDocuments({ batchSize: 5 }));
+
+      expect(batches).toEqual([]);
+    });
+
+    it('should resume after startAfter and skip ranges already passed', async () => {
+      mockDb.list.mockResolvedValueOnce({ rows: [row('zeta.md')] });
+
+      const batches = await collect(client.iterateDocuments({ batchSize: 5, startAfter: 'p.md' }));
+
+      expect(batches).toEqual([['zeta.md']]);
+      expect(mockDb.list).toHaveBeenCalledTimes(1);
+      expect(mockDb.list).toHaveBeenCalledWith({
+        include_docs: true,
+        conflicts: true,
+        limit: 5,
+        startkey: 'p.md\u0000',
+      });
+    });
+
+    it('should throw error on page failure', async () => {
+      mockDb.list.mockRejectedValue(new Error('List failed'));
+
+      await expect(collect(client.iterateDocuments())).rejects.toThrow('List failed');
+    });
+  });
+
   describe('testConnection', () => {
     it('should return true on successful connection', async () => {
       mockNano.db.list.mockResolvedValue(['db1', 'db2']);
@@ -327,4 +434,74 @@ describe('CouchDBClient', () => {
       await expect(client.getDatabaseInfo()).rejects.toThrow('Info failed');
     });
   });
+
+  describe('waitForChanges', () => {
+    it('should request a longpoll feed with heartbeat and signal', async () => {
+      const mockChanges = { results: [], last_seq: '5-abc', pending: 0 };
+      mockNano.request.mockResolvedValue(mockChanges);
+      const controller = new AbortController();
+
+      const result = await client.waitForChanges('4-abc', { heartbeatMs: 10000, signal: controller.signal });
+
+      expect(result).toEqual(mockChanges);
+      expect(mockNano.request).toHaveBeenCalledWith({
+        db: 'test-db',
+        path: '_changes',
+        qs: { since: '4-abc', feed: 'longpoll', include_docs: true, conflicts: true, heartbeat: 10000 },
+        signal: controller.signal,
+      });
+    });
+
+    it('should throw error when the feed request fails', async () => {
+      mockNano.request.mockRejectedValue(new Error('socket hang up'));
+
+      await expect(client.waitForChanges('4-abc')).rejects.toThrow('socket hang up');
+    });
+  });
+
+  describe('putDocument', () => {
+    it('should insert the document and return its new rev', async () => {
+      mockDb.insert.mockResolvedValue({ id: 'note.md', ok: true, rev: '2-def' });
+
+      const doc: LiveSyncDocument = { _id: 'note.md', _rev: '1-abc', type: 'newnote', path: 'note.md' };
+      const result = await client.putDocument(doc);
+
+      expect(mockDb.insert).toHaveBeenCalledWith(doc);
+      expect(result).toEqual({ id: 'note.md', rev: '2-def' });
+    });
+
+    it('should throw error on insert failure', async () => {
+      mockDb.insert.mockRejectedValue(new Error('Document update conflict'));
+
+      await expect(client.putDocument({ _id: 'note.md' })).rejects.toThrow('Document update conflict');
+    });
+  });
+
+  describe('putDocuments', () => {
+    it('should return empty array for empty input', async () => {
+      const result = await client.putDocuments([]);
+
+      expect(result).toEqual([]);
+      expect(mockDb.bulk).not.toHaveBeenCalled();
+    });
+
+    it('should bulk write and report per-document errors', async () => {
+      mockDb.bulk.mockResolvedValue([
+        { id: 'h:a', rev: '1-a' },
+        { id: 'h:b', error: 'conflict', reason: 'Document update conflict.' },
+      ]);
+
+      const docs: LiveSyncDocument[] = [
+        { _id: 'h:a', type: 'leaf', data: 'YQ==' },
+        { _id: 'h:b', type: 'leaf', data: 'Yg==' },
+      ];
+      const result = await client.putDocuments(docs);
+
+      expect(mockDb.bulk).toHaveBeenCalledWith({ docs });
+      expect(result).toEqual([
+        { id: 'h:a', rev: '1-a', error: undefined },
+        { id: 'h:b', rev: undefined, error: 'conflict' },
+      ]);
+    });
+  });
 });
@@ -1,21 +1,28 @@
 import Nano from 'nano';
 import { CouchDBConfig, LiveSyncDocument } from '../types/index.js';
-import { IDocumentStorage } from './interfaces.js';
+import { DocumentWriteResult, IRevisionStorage, IWritableDocumentStorage } from './interfaces.js';
 import logger from '../utils/logger.js';
 
+// _all_docs sorts ids by raw codepoint, so every h:/h:+ chunk id falls in [CHUNK_KEY_START, CHUNK_KEY_END)
+const CHUNK_KEY_START = 'h:';
+const CHUNK_KEY_END = 'h:\ufff0';
+const DEFAULT_PAGE_SIZE = 500;
+
 /**
  * CouchDB client for interacting with Obsidian LiveSync database
- * Implements IDocumentStorage interface for abstraction
+ * Implements IWritableDocumentStorage interface for abstraction
  */
-export class CouchDBClient implements IDocumentStorage {
+export class CouchDBClient implements IWritableDocumentStorage, IRevisionStorage {
   private nano: Nano.ServerScope;
   private db: Nano.DocumentScope<LiveSyncDocument>;
+  private readonly databaseName: string;
 
   constructor(config: CouchDBConfig) {
     const auth = `${config.username}:${config.password}`;
     const url = config.url.replace('://', `://${auth}@`);
 
     this.nano = Nano(url);
+    this.databaseName = config.database;
     this.db = this.nano.db.use<LiveSyncDocument>(config.database);
   }
 
@@ -49,11 +56,73 @@ export class CouchDBClient implements IDocumentStorage {
   }
 
   /**
-   * Get a specific document by ID
+   * Page through all non-chunk documents in bounded batches
+   *
+   * Chunk documents are skipped server-side by querying the key ranges
+   * before and after the `h:` keyspace. Pass the last processed document ID
+   * as `startAfter` to resume an interrupted listing.
+   */
+  async *iterateDocuments(
+    options: { batchSize?: number; startAfter?: string } = {}
+  ): AsyncGenerator<LiveSyncDocument[]> {
+    const batchSize = options.batchSize ?? DEFAULT_PAGE_SIZE;
+    const ranges: Array<{ start?: string; end?: string }> = [
+      { end: CHUNK_KEY_START },
+      { start: CHUNK_KEY_END },
+    ];
+    // Appending U+0000 yields the smallest key greater than startAfter
+    const resumeKey = options.startAfter !== undefined ? `${options.startAfter}\u0000` : undefined;
+
+    for (const range of ranges) {
+      let startkey = this.maxKey(range.start, resumeKey);
+      if (range.end !== undefined && startkey !== undefined && startkey >= range.end) {
+        continue;
+      }
+
+      while (true) {
+        let rows: Nano.DocumentResponseRow<LiveSyncDocument>[];
+        try {
+          const result = await this.db.list({
+            include_docs: true,
+            conflicts: true,
+            limit: batchSize,
+            ...(startkey !== undefined ? { startkey } : {}),
+            ...(range.end !== undefined ? { endkey: range.end, inclusive_end: false } : {}),
+          });
+          rows = result.rows;
+        } catch (error) {
+          logger.error({ error, startkey }, 'Failed to fetch document page');
+          throw error;
+        }
+
+        const docs = rows
+          .filter((row) => row.doc && !row.id.startsWith('_design'))
+          .map((row) => row.doc as LiveSyncDocument);
+        logger.debug({ startkey, rows: rows.length, docs: docs.length }, 'Fetched document page');
+
+        if (docs.length > 0) {
+          yield docs;
+        }
+        if (rows.length < batchSize) {
+          break;
+        }
+        startkey = `${rows[rows.length - 1].id}\u0000`;
+      }
+    }
+  }
+
+  private maxKey(a?: string, b?: string): string | undefined {
+    if (a === undefined) return b;
+    if (b === undefined) return a;
+    return a > b ? a : b;
+  }
+
+  /**
+   * Get a specific document by ID (winning revision, with _conflicts if any)
    */
   async getDocument(id: string): Promise<LiveSyncDocument | null> {
     try {
-      const doc = await this.db.get(id);
+      const doc = await this.db.get(id, { conflicts: true });
       return doc;
     } catch (error: any) {
       if (error.statusCode === 404) {
@@ -64,18 +133,66 @@ export class CouchDBClient implements IDocumentStorage {
     }
   }
 
+  /**
+   * Get a specific revision of a document, including its revision history
+   */
+  async getDocumentRevision(id: string, rev: string): Promise<LiveSyncDocument | null> {
+    try {
+      const doc = await this.db.get(id, { rev, revs: true });
+      return doc as LiveSyncDocument;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return null;
+      }
+      logger.error({ error, id, rev }, 'Failed to fetch document revision');
+      throw error;
+    }
+  }
+
   /**
    * Get changes feed for continuous sync
    */
   async getChanges(since: string = 'now'): Promise<Nano.DatabaseChangesResponse> {
     try {
-      return await this.db.changes({ since, include_docs: true });
+      return await this.db.changes({ since, include_docs: true, conflicts: true });
     } catch (error) {
       logger.error({ error }, 'Failed to get changes feed');
       throw error;
     }
   }
 
+  /**
+   * Wait on the changes feed (feed=longpoll) until at least one change arrives
+   *
+   * Heartbeats keep the connection open indefinitely, so the request only
+   * returns on changes, on connection failure, or when the signal aborts.
+   * Goes through nano.request because db.changes() cannot take a signal.
+   */
+  async waitForChanges(
+    since: string,
+    options: { heartbeatMs?: number; signal?: AbortSignal } = {}
+  ): Promise<Nano.DatabaseChangesResponse> {
+    try {
+      return await this.nano.request({
+        db: this.databaseName,
+        path: '_changes',
+        qs: {
+          since,
+          feed: 'longpoll',
+          include_docs: true,
+          conflicts: true,
+          heartbeat: options.heartbeatMs ?? 30000,
+        },
+        signal: options.signal,
+      } as Nano.RequestOptions);
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        logger.error({ error, since }, 'Changes feed request failed');
+      }
+      throw error;
+    }
+  }
+
   /**
    * Get multiple documents by IDs (bulk fetch)
    * This is more efficient than fetching documents one by one
@@ -110,6 +227,44 @@ export class CouchDBClient implements IDocumentStorage {
     }
   }
 
+  /**
+   * Create or update a single document
+   * The document must carry its current _rev when updating
+   */
+  async putDocument(doc: LiveSyncDocument): Promise<DocumentWriteResult> {
+    try {
+      const result = await this.db.insert(doc);
+      logger.debug({ id: result.id, rev: result.rev }, 'Document written');
+      return { id: result.id, rev: result.rev };
+    } catch (error) {
+      logger.error({ error, id: doc._id }, 'Failed to write document');
+      throw error;
+    }
+  }
+
+  /**
+   * Create or update multiple documents via _bulk_docs
+   * Per-document failures (e.g. conflicts) are reported in the result, not thrown
+   */
+  async putDocuments(docs: LiveSyncDocument[]): Promise<DocumentWriteResult[]> {
+    if (docs.length === 0) {
+      return [];
+    }
+
+    try {
+      const results = await this.db.bulk({ docs });
+      const failed = results.filter((row) => row.error);
+      if (failed.length > 0) {
+        logger.warn({ failed: failed.length, total: docs.length }, 'Some documents failed in bulk write');
+      }
+      logger.debug({ written: docs.length - failed.length }, 'Bulk write completed');
+      return results.map((row) => ({ id: row.id, rev: row.rev, error: row.error }));
+    } catch (error) {
+      logger.error({ error, docsCount: docs.length }, 'Failed to bulk write documents');
+      throw error;
+    }
+  }
+
   /**
    * Get database info
    */
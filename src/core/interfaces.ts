@@ -3,7 +3,7 @@
  * These interfaces allow for different implementations (e.g., custom vs livesync-commonlib)
  */
 
-import { LiveSyncDocument } from '../types/index.js';
+import { LiveSyncDocument, NoteContent } from '../types/index.js';
 
 /**
  * Interface for assembling document content from CouchDB storage
@@ -16,9 +16,10 @@ export interface IDocumentAssembler {
    * Assemble a complete document from its metadata and chunks
    *
    * @param doc - The metadata document (with children, data, or eden fields)
-   * @returns The assembled and decrypted content, or null if assembly fails
+   * @returns The assembled and decrypted content (a Buffer for binary files),
+   *          or null if assembly fails
    */
-  assembleDocument(doc: LiveSyncDocument): Promise<string | null>;
+  assembleDocument(doc: LiveSyncDocument): Promise<NoteContent | null>;
 }
 
 /**
@@ -44,12 +45,87 @@ export interface IDocumentStorage {
   getAllDocuments(): Promise<LiveSyncDocument[]>;
 }
 
+/**
+ * Result of writing a single document to CouchDB
+ */
+export interface DocumentWriteResult {
+  id: string;
+  rev?: string;
+  error?: string;
+}
+
+/**
+ * Interface for CouchDB storage that also accepts writes
+ *
+ * Kept separate from IDocumentStorage so read-only consumers
+ * (assembler, crypto) and their mocks stay unaffected.
+ */
+export interface IWritableDocumentStorage extends IDocumentStorage {
+  /**
+   * Create or update a single document (include _rev to update)
+   */
+  putDocument(doc: LiveSyncDocument): Promise<DocumentWriteResult>;
+
+  /**
+   * Create or update multiple documents via _bulk_docs
+   */
+  putDocuments(docs: LiveSyncDocument[]): Promise<DocumentWriteResult[]>;
+}
+
+/**
+ * Interface for reading non-winning document revisions
+ *
+ * Used to resolve notes whose documents carry `_conflicts`.
+ */
+export interface IRevisionStorage {
+  /**
+   * Get a document at a specific revision, including `_revisions` history
+   *
+   * @returns The document, or null if the revision is missing (e.g. compacted)
+   */
+  getDocumentRevision(id: string, rev: string): Promise<LiveSyncDocument | null>;
+}
+
+/**
+ * Interface for writing note content back to CouchDB
+ *
+ * Inverse of IDocumentAssembler: splits content into chunks and writes
+ * the metadata document that references them.
+ */
+export interface IDocumentWriter {
+  /**
+   * Write note content as LiveSync chunks plus metadata document
+   *
+   * @returns The new revision of the metadata document
+   */
+  writeDocument(input: DocumentWriteInput): Promise<string>;
+
+  /**
+   * Mark a note as deleted in CouchDB (LiveSync soft delete)
+   *
+   * @returns The new revision, or null if the document does not exist
+   */
+  deleteDocument(path: string): Promise<string | null>;
+}
+
+/**
+ * Note content to be written by an IDocumentWriter
+ */
+export interface DocumentWriteInput {
+  path: string;
+  content: NoteContent;
+  mtime: Date;
+  ctime: Date;
+}
+
 /**
  * Sync state that needs to be persisted
  */
 export interface SyncState {
   lastSeq?: string;      // CouchDB sequence number for incremental sync
   lastSyncTime?: string; // ISO 8601 timestamp of last successful sync
+  fullSyncCursor?: string; // Last document ID processed by an unfinished full sync
+  fullSyncSeq?: string;    // update_seq captured when that full sync started
 }
 
 /**
@@ -90,7 +166,7 @@ export interface IStateStorage {
 export interface AssembledDocument {
   id: string;
   path: string;
-  content: string;
+  content: NoteContent;
   mtime: Date;
   ctime: Date;
   size: number;
@@ -13,9 +13,17 @@ import { JsonFileStorage } from './storage/json-file-storage.js';
 import logger from './utils/logger.js';
 import { DiskNoteRepository } from './repositories/disk-note-repository.js';
 import { createEventBus } from './core/event-bus.js';
+import type { NoteContent } from './types/index.js';
 
 logger.level = 'debug';
 
+/**
+ * Text view of note content; binary attachments are described, not dumped
+ */
+function asText(content: NoteContent): string {
+  return typeof content === 'string' ? content : `[binary, ${content.length} bytes]`;
+}
+
 async function debugSync() {
   logger.info('=== Starting Debug Sync ===');
 
@@ -104,7 +112,7 @@ async function debugSync() {
           id: note.id,
           path: note.path,
           size: note.size,
-          contentPreview: note.content.substring(0, 100) + (note.content.length > 100 ? '...' : ''),
+          contentPreview: asText(note.content).substring(0, 100) + (note.content.length > 100 ? '...' : ''),
           mtime: note.mtime,
         }, 'Note');
       });
@@ -116,6 +124,7 @@ async function debugSync() {
       // Display random note with random paragraphs
       logger.info('\n=== Random Note Content Sample ===');
       const randomNote = notes[Math.floor(Math.random() * notes.length)];
+      const randomText = asText(randomNote.content);
 
       logger.info({
         path: randomNote.path,
@@ -124,7 +133,7 @@ async function debugSync() {
         totalLength: randomNote.content.length,
         contentType: typeof randomNote.content,
         contentIsEmpty: randomNote.content === '',
-        contentFirstBytes: randomNote.content.substring(0, 50),
+        contentFirstBytes: randomText.substring(0, 50),
       }, 'Selected random note');
 
       // If content is empty, try to fetch the raw document to debug
@@ -181,7 +190,7 @@ async function debugSync() {
       }
 
       // Split content into paragraphs (by double newline or single newline)
-      const paragraphs = randomNote.content
+      const paragraphs = randomText
         .split(/\n\n+/)
         .map(p => p.trim())
         .filter(p => p.length > 0);
@@ -212,7 +221,7 @@ async function debugSync() {
         logger.info('--- End of Random Paragraphs ---\n');
       } else {
         logger.info('Note has no paragraphs (might be empty or single line)');
-        logger.info(`Full content: ${randomNote.content.substring(0, 500)}${randomNote.content.length > 500 ? '...' : ''}`);
+        logger.info(`Full content: ${randomText.substring(0, 500)}${randomText.length > 500 ? '...' : ''}`);
       }
     } else {
       logger.warn('No notes found. Check if:');
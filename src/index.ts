@@ -1,34 +1,29 @@
 import Fastify from 'fastify';
 import cors from '@fastify/cors';
-import { readFile } from 'node:fs/promises';
 import { loadConfig } from './utils/config.js';
 import { CouchDBClient } from './core/couchdb-client.js';
 import { ChunkAssembler } from './core/chunk-assembler.js';
+import { ChunkWriter } from './core/chunk-writer.js';
 import { SyncService } from './services/sync-service.js';
+import { PushService } from './services/push-service.js';
 import { JsonFileStorage } from './storage/json-file-storage.js';
 import { registerRoutes } from './api/routes.js';
+import { registerAuth } from './api/auth.js';
+import { EventStream } from './api/event-stream.js';
+import { TokenStore } from './api/token-store.js';
 import { DiskNoteRepository } from './repositories/disk-note-repository.js';
 import { PluginManager } from './plugins/plugin-manager.js';
-import type { NotifyPayload, PluginConfig } from './plugins/types.js';
-import type { LiveSyncEvent } from './types/index.js';
+import { readPluginConfigs } from './plugins/plugin-config.js';
+import { toNotifyPayload } from './plugins/plugin-events.js';
+import type { PluginConfig } from './plugins/types.js';
 import { createEventBus } from './core/event-bus.js';
+import { createAIRuntime, type AIRuntime } from './ai/index.js';
 import logger from './utils/logger.js';
+import metrics, { registry } from './utils/metrics.js';
 
-async function loadPluginConfigs(configPath?: string): Promise<PluginConfig[]> {
-  if (!configPath) {
-    return [];
-  }
-
+async function loadPluginConfigs(configPath: string): Promise<PluginConfig[]> {
   try {
-    const raw = await readFile(configPath, 'utf8');
-    const parsed = JSON.parse(raw);
-    if (Array.isArray(parsed)) {
-      return parsed;
-    }
-    if (Array.isArray(parsed?.plugins)) {
-      return parsed.plugins;
-    }
-    logger.warn({ configPath }, 'Plugin config must be an array or { plugins: [] }');
+    return await readPluginConfigs(configPath);
   } catch (error) {
     const code = (error as NodeJS.ErrnoException).code;
     if (code === 'ENOENT') {
@@ -41,19 +36,6 @@ async function loadPluginConfigs(configPath?: string): Promise<PluginConfig[]> {
   return [];
 }
 
-function toNotifyPayload(event: LiveSyncEvent): NotifyPayload {
-  return {
-    eventType: event.type,
-    eventId: `${event.type}-${event.timestamp.getTime()}`,
-    timestamp: event.timestamp.getTime(),
-    payload: {
-      payload: event.payload ?? {},
-      metadata: event.metadata ?? {},
-      source: event.source,
-    },
-  };
-}
-
 async function main() {
   // Load configuration
   const config = loadConfig();
@@ -84,8 +66,32 @@ async function main() {
     );
   });
 
-  const pluginConfigs = await loadPluginConfigs(config.plugins?.configPath);
-  const pluginManager = pluginConfigs.length > 0 ? new PluginManager(pluginConfigs) : null;
+  // Without push, CouchDB is never written to, not even to resolve conflicts
+  const writer = config.sync.pushEnabled ? new ChunkWriter(couchdbClient, config.couchdb.passphrase) : undefined;
+  const syncService = new SyncService(
+    couchdbClient,
+    stateStorage,
+    assembler,
+    noteRepository,
+    eventBus,
+    { batchSize: config.sync.batchSize, conflictPolicy: config.sync.conflictPolicy, writer }
+  );
+
+  // Plugins can read notes and trigger syncs through host/* requests.
+  // The manager exists even without plugins so a config reload can add some later.
+  const pluginConfigPath = config.plugins?.configPath;
+  const pluginConfigs = pluginConfigPath ? await loadPluginConfigs(pluginConfigPath) : [];
+  const pluginManager = pluginConfigPath
+    ? new PluginManager(pluginConfigs, {
+        restart: config.plugins?.restart,
+        host: syncService,
+        outboxDir: config.plugins?.outboxDir,
+        configPath: pluginConfigPath,
+        watch: config.plugins?.watch,
+        sandboxDir: config.plugins?.sandboxDir,
+        eventBus,
+      })
+    : null;
 
   if (pluginManager) {
     pluginManager.onPluginNotification((plugin, method, params) => {
@@ -104,21 +110,56 @@ async function main() {
     await pluginManager.startAll();
     logger.info({ plugins: pluginConfigs.length }, 'Plugin manager started');
   } else {
-    logger.info('No plugins configured; plugin manager not started');
+    logger.info('No plugin config path; plugin manager not started');
+  }
+
+  // Index notes for semantic search; subscribed before the first sync so no upsert is missed
+  let aiRuntime: AIRuntime | null = null;
+  if (config.ai?.enabled) {
+    aiRuntime = createAIRuntime(eventBus, noteRepository, {
+      chunkMaxChars: config.ai.chunkMaxChars,
+      chunkOverlapChars: config.ai.chunkOverlapChars,
+      indexDir: config.ai.indexDir,
+      reconcileIntervalMs: config.ai.reconcileIntervalMs,
+    });
+    aiRuntime.start();
   }
 
-  const syncService = new SyncService(
-    couchdbClient,
-    stateStorage,
-    assembler,
-    noteRepository,
-    eventBus
-  );
   await syncService.initialize();
 
+  // Refresh the sequence lag on every metrics scrape
+  registry.addCollector(async () => {
+    try {
+      const lag = await syncService.getSeqLag();
+      if (lag !== undefined) {
+        metrics.seqLag.set({}, lag);
+      }
+    } catch (error) {
+      logger.warn({ error }, 'Failed to compute sequence lag for metrics');
+    }
+  });
+
   // Start auto-sync if enabled
   if (config.sync.autoSyncEnabled) {
-    syncService.startAutoSync(config.sync.interval);
+    if (config.sync.mode === 'longpoll') {
+      syncService.startChangesFeed({ heartbeatMs: config.sync.heartbeatMs });
+    } else {
+      syncService.startAutoSync(config.sync.interval);
+    }
+  }
+
+  // Push local vault edits back to CouchDB if enabled
+  let pushService: PushService | null = null;
+  if (writer) {
+    pushService = new PushService(
+      config.vaultPath,
+      noteRepository,
+      couchdbClient,
+      assembler,
+      writer,
+      { debounceMs: config.sync.pushDebounceMs }
+    );
+    pushService.start();
   }
 
   // Initialize Fastify server
@@ -126,13 +167,28 @@ async function main() {
     logger: false, // Using pino logger directly
   });
 
-  // Register CORS
+  // Register CORS (reflect any origin unless an allowlist is configured)
   await app.register(cors, {
-    origin: true,
+    origin: config.auth.corsOrigins.length > 0 ? config.auth.corsOrigins : true,
   });
 
+  // Require bearer tokens if enabled
+  if (config.auth.enabled) {
+    const tokenStore = new TokenStore(config.auth.tokensPath);
+    await tokenStore.load();
+    registerAuth(app, tokenStore);
+    logger.info({ tokensPath: config.auth.tokensPath }, 'API authentication enabled');
+  } else {
+    logger.warn('API authentication disabled; protect the API with a reverse proxy');
+  }
+
   // Register routes
-  await registerRoutes(app, syncService, config);
+  const eventStream = new EventStream(eventBus);
+  await registerRoutes(app, syncService, config, {
+    eventStream,
+    pluginManager: pluginManager ?? undefined,
+    aiRuntime: aiRuntime ?? undefined,
+  });
 
   // Start server
   try {
@@ -153,9 +209,16 @@ async function main() {
   const shutdown = async () => {
     logger.info('Shutting down...');
     syncService.stopAutoSync();
+    pushService?.stop();
+    aiRuntime?.stop();
+    eventStream.close();
     await app.close();
     if (pluginManager) {
-      await pluginManager.stopAll();
+      const results = await pluginManager.stopAll();
+      logger.info(
+        { plugins: results.map(({ name, outcome, durationMs }) => ({ name, outcome, durationMs })) },
+        'Plugins stopped'
+      );
     }
     process.exit(0);
   };
@@ -1,10 +1,10 @@
 import path from 'node:path';
 import readline from 'node:readline';
-import { readFile } from 'node:fs/promises';
 import type { ChildProcessWithoutNullStreams } from 'node:child_process';
 import logger from '../utils/logger.js';
 import { PluginManager } from './plugin-manager.js';
-import type { NotifyPayload, PluginConfig } from './types.js';
+import { readPluginConfigs } from './plugin-config.js';
+import type { NotifyPayload } from './types.js';
 import { EventType } from '../types/index.js';
 
 interface Args {
@@ -28,20 +28,6 @@ function parseArgs(): Args {
   return { configPath };
 }
 
-async function loadPluginConfigs(configPath: string): Promise<PluginConfig[]> {
-  const raw = await readFile(configPath, 'utf8');
-  const parsed = JSON.parse(raw);
-
-  if (Array.isArray(parsed)) {
-    return parsed;
-  }
-  if (Array.isArray(parsed?.plugins)) {
-    return parsed.plugins;
-  }
-
-  throw new Error('Config must be an array of PluginConfig or { plugins: PluginConfig[] }');
-}
-
 function attachProcessLogs(manager: PluginManager): void {
   // Internal map is intentionally private; acceptable to tap for debugging CLI.
   const processes = (manager as any).processes as Map<string, any> | undefined;
@@ -159,7 +145,7 @@ async function runRepl(manager: PluginManager): Promise<void> {
 
 export async function main(): Promise<void> {
   const { configPath } = parseArgs();
-  const configs = await loadPluginConfigs(configPath);
+  const configs = await readPluginConfigs(configPath);
   if (configs.length === 0) {
     console.warn('No plugins configured. Exiting.');
     return;
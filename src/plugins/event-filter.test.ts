@@ -0,0 +1,112 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, test } from 'vitest';
+import { globToRegExp, matchesFilter, normalizeFilter } from './event-filter.js';
+import { PluginManager } from './plugin-manager.js';
+import type { NotifyPayload } from './types.js';
+import { EventType } from '../types/index.js';
+
+const fixture = (name: string) =>
+  path.resolve(path.dirname(fileURLToPath(import.meta.url)), 'test-fixtures', name);
+
+const event = (eventType: EventType, payload: Record<string, unknown>, eventId = 'e'): NotifyPayload => ({
+  eventType,
+  eventId,
+  timestamp: 0,
+  payload: { payload, metadata: {}, source: 'SyncService' },
+});
+
+const upsert = (notePath: string, extra: Record<string, unknown> = {}, eventId?: string) =>
+  event(EventType.NoteUpserted, { noteId: notePath, path: notePath, size: 100, tags: [], syncMode: 'incremental', ...extra }, eventId);
+
+describe('globToRegExp', () => {
+  test('matches * within a folder and ** across folders', () => {
+    expect(globToRegExp('Journal/**').test('Journal/2026/10/19.md')).toBe(true);
+    expect(globToRegExp('Journal/**').test('Journal')).toBe(true);
+    expect(globToRegExp('Journal/**').test('Journals/a.md')).toBe(false);
+    expect(globToRegExp('*.md').test('a.md')).toBe(true);
+    expect(globToRegExp('*.md').test('notes/a.md')).toBe(false);
+    expect(globToRegExp('**/*.md').test('a.md')).toBe(true);
+    expect(globToRegExp('**/*.md').test('notes/deep/a.md')).toBe(true);
+    expect(globToRegExp('notes/?.md').test('notes/a.md')).toBe(true);
+    expect(globToRegExp('a+b (1).md').test('a+b (1).md')).toBe(true);
+  });
+});
+
+describe('normalizeFilter', () => {
+  test('keeps valid fields, lower-cases tags and reports invalid ones', () => {
+    expect(normalizeFilter({ tags: ['#Publish'], maxSize: 10, syncModes: ['live'], paths: 'Journal/**' })).toEqual({
+      filter: { tags: ['publish'], maxSize: 10 },
+      rejected: ['paths', 'syncModes'],
+    });
+    expect(normalizeFilter(undefined)).toEqual({ rejected: [] });
+    expect(normalizeFilter('Journal/**')).toEqual({ rejected: ['filter'] });
+  });
+});
+
+describe('matchesFilter', () => {
+  test('applies path, tag, size and sync mode criteria', () => {
+    expect(matchesFilter({ paths: ['Journal/**'] }, upsert('Journal/a.md'))).toBe(true);
+    expect(matchesFilter({ paths: ['Journal/**'] }, upsert('Inbox/a.md'))).toBe(false);
+    expect(matchesFilter({ paths: ['Journal/**'], excludePaths: ['**/draft-*'] }, upsert('Journal/draft-a.md'))).toBe(false);
+    expect(matchesFilter({ tags: ['publish'] }, upsert('a.md', { tags: ['blog', 'publish'] }))).toBe(true);
+    expect(matchesFilter({ tags: ['publish'] }, upsert('a.md', { tags: ['blog'] }))).toBe(false);
+    expect(matchesFilter({ maxSize: 99 }, upsert('a.md'))).toBe(false);
+    expect(matchesFilter({ minSize: 100, maxSize: 100 }, upsert('a.md'))).toBe(true);
+    expect(matchesFilter({ syncModes: ['full'] }, upsert('a.md'))).toBe(false);
+  });
+
+  test('skips criteria for events without the field', () => {
+    const filter = { paths: ['Journal/**'], tags: ['publish'], maxSize: 1, syncModes: ['full' as const] };
+    expect(matchesFilter(filter, event(EventType.SyncCompleted, { mode: 'full' }))).toBe(true);
+    expect(matchesFilter(filter, event(EventType.SyncCompleted, { mode: 'incremental' }))).toBe(false);
+    expect(matchesFilter(filter, event(EventType.NoteDeleted, { noteId: 'Journal/a.md', syncMode: 'full' }))).toBe(true);
+    expect(matchesFilter(filter, event(EventType.NoteDeleted, { noteId: 'Inbox/a.md', syncMode: 'full' }))).toBe(false);
+  });
+});
+
+describe('PluginManager event filters', () => {
+  test('only sends events that pass the handshake and config filters', async () => {
+    const manager = new PluginManager([
+      {
+        name: 'journal',
+        command: process.execPath,
+        args: [fixture('plugin-stable.js')],
+        env: { FILTER: JSON.stringify({ paths: ['Journal/**'] }) },
+      },
+      {
+        name: 'publish',
+        command: process.execPath,
+        args: [fixture('plugin-stable.js')],
+        env: { FILTER: JSON.stringify({ syncModes: ['incremental'] }) },
+        filter: { tags: ['publish'] },
+      },
+    ]);
+    const received: Record<string, string[]> = { journal: [], publish: [] };
+    manager.onPluginNotification((plugin, method, params) => {
+      if (method === 'log') {
+        received[plugin].push(JSON.parse(params as string).params.eventId);
+      }
+    });
+
+    try {
+      await manager.startAll();
+      await manager.broadcast(upsert('Journal/today.md', {}, 'journal-note'));
+      await manager.broadcast(upsert('Blog/post.md', { tags: ['publish'] }, 'published-note'));
+      await manager.broadcast(upsert('Blog/post.md', { tags: ['publish'], syncMode: 'full' }, 'full-sync-note'));
+      await manager.broadcast(upsert('Journal/today.md', { tags: ['publish'] }, 'both'));
+
+      const deadline = Date.now() + 5000;
+      while (received.journal.length < 2 || received.publish.length < 2) {
+        if (Date.now() > deadline) {
+          throw new Error('Timed out waiting for events');
+        }
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      expect(received.journal).toEqual(['journal-note', 'both']);
+      expect(received.publish).toEqual(['published-note', 'both']);
+    } finally {
+      await manager.stopAll();
+    }
+  });
+});
@@ -0,0 +1,142 @@
+// Subscription filters evaluated by the host before an event is sent to a plugin.
+import type { EventEnvelope, NotifyPayload, PluginEventFilter } from './types.js';
+import logger from '../utils/logger.js';
+
+const SYNC_MODES = ['full', 'incremental'];
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Compile a path glob: `**` matches across folders, `*` and `?` within one.
+ * A trailing `/**` also matches the folder itself.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let regex = globCache.get(glob);
+  if (!regex) {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+      if (char === '*' && glob[i + 1] === '*') {
+        const slash = glob[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else if (char === '*') {
+        source += '[^/]*';
+      } else if (char === '?') {
+        source += '[^/]';
+      } else {
+        source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+    source = source.replace(/\/\.\*$/, '(?:/.*)?');
+    regex = new RegExp(`^${source}$`);
+    globCache.set(glob, regex);
+  }
+  return regex;
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isSize = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Validate a filter from a handshake or config, dropping invalid fields.
+ */
+export function normalizeFilter(raw: unknown): { filter?: PluginEventFilter; rejected: string[] } {
+  if (raw === undefined || raw === null) {
+    return { rejected: [] };
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { rejected: ['filter'] };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const filter: PluginEventFilter = {};
+  const rejected: string[] = [];
+  for (const key of ['paths', 'excludePaths', 'tags'] as const) {
+    if (input[key] === undefined) {
+      continue;
+    }
+    if (isStringArray(input[key])) {
+      filter[key] = key === 'tags' ? input[key].map(tag => tag.replace(/^#/, '').toLowerCase()) : input[key];
+    } else {
+      rejected.push(key);
+    }
+  }
+  for (const key of ['minSize', 'maxSize'] as const) {
+    if (input[key] === undefined) {
+      continue;
+    }
+    if (isSize(input[key])) {
+      filter[key] = input[key] as number;
+    } else {
+      rejected.push(key);
+    }
+  }
+  if (input.syncModes !== undefined) {
+    if (isStringArray(input.syncModes) && input.syncModes.every(mode => SYNC_MODES.includes(mode))) {
+      filter.syncModes = input.syncModes as PluginEventFilter['syncModes'];
+    } else {
+      rejected.push('syncModes');
+    }
+  }
+  return { filter, rejected };
+}
+
+/**
+ * Valid filters from a plugin's config and its handshake; an event must pass all of them.
+ */
+export function collectFilters(plugin: string, configFilter: unknown, declaredFilter: unknown): PluginEventFilter[] {
+  const sources = { config: configFilter, handshake: declaredFilter };
+  return Object.entries(sources).flatMap(([source, raw]) => {
+    const { filter, rejected } = normalizeFilter(raw);
+    if (rejected.length > 0) {
+      logger.warn({ plugin, source, rejected }, 'Ignoring invalid plugin event filter fields');
+    }
+    return filter ? [filter] : [];
+  });
+}
+
+/**
+ * Whether an event passes a filter
+ *
+ * Each criterion only applies to events that carry the field it checks:
+ * sync events have no path, NoteDeleted has no tags or size. Path criteria
+ * use `path`, falling back to `noteId`.
+ */
+export function matchesFilter(filter: PluginEventFilter, event: NotifyPayload): boolean {
+  const payload = ((event.payload as Partial<EventEnvelope> | undefined)?.payload ?? {}) as Record<string, unknown>;
+  const path = typeof payload.path === 'string' ? payload.path : payload.noteId;
+
+  if (typeof path === 'string') {
+    if (filter.paths && !filter.paths.some(glob => globToRegExp(glob).test(path))) {
+      return false;
+    }
+    if (filter.excludePaths?.some(glob => globToRegExp(glob).test(path))) {
+      return false;
+    }
+  }
+
+  if (filter.tags && isStringArray(payload.tags)) {
+    const tags = payload.tags;
+    if (!filter.tags.some(tag => tags.includes(tag))) {
+      return false;
+    }
+  }
+
+  if (typeof payload.size === 'number') {
+    if (filter.minSize !== undefined && payload.size < filter.minSize) {
+      return false;
+    }
+    if (filter.maxSize !== undefined && payload.size > filter.maxSize) {
+      return false;
+    }
+  }
+
+  const mode = payload.syncMode ?? payload.mode;
+  if (filter.syncModes && typeof mode === 'string' && !filter.syncModes.includes(mode as 'full' | 'incremental')) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,112 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, test, vi } from 'vitest';
+import { ErrorCodes } from 'vscode-jsonrpc/node';
+import { CAPABILITY_DENIED, negotiateCapabilities } from './host-rpc.js';
+import { PluginManager } from './plugin-manager.js';
+import type { HostCapability, PluginHost } from './types.js';
+import type { Note } from '../types/index.js';
+
+const fixture = (name: string) =>
+  path.resolve(path.dirname(fileURLToPath(import.meta.url)), 'test-fixtures', name);
+
+const date = new Date('2026-01-02T03:04:05.000Z');
+const notes: Note[] = [
+  { id: 'notes/a.md', path: 'notes/a.md', content: 'hello world', mtime: date, ctime: date, size: 11 },
+  { id: 'image.png', path: 'image.png', content: Buffer.from([0x89, 0x50]), mtime: date, ctime: date, size: 2 },
+];
+
+function createHost(): PluginHost {
+  const status = { isRunning: false, lastSyncTime: null, lastSyncSuccess: true, documentsCount: 2 };
+  return {
+    getNote: vi.fn(async (id: string) => notes.find(note => note.id === id)),
+    getNotes: vi.fn(async () => notes),
+    searchNotes: vi.fn(async (query: string) => notes.filter(note => note.content.includes(query))),
+    sync: vi.fn(async () => undefined),
+    getStatus: vi.fn(() => status),
+  };
+}
+
+async function runClient(requested: HostCapability[], granted: HostCapability[], host: PluginHost) {
+  const manager = new PluginManager(
+    [
+      {
+        name: 'client',
+        command: process.execPath,
+        args: [fixture('plugin-host-client.js')],
+        env: { CAPABILITIES: requested.join(',') },
+        capabilities: granted,
+      },
+    ],
+    { host },
+  );
+  const report = new Promise<any>(resolve => {
+    manager.onPluginNotification((_plugin, method, params) => {
+      if (method === 'results') {
+        resolve(params);
+      }
+    });
+  });
+
+  try {
+    await manager.startAll();
+    return await report;
+  } finally {
+    await manager.stopAll();
+  }
+}
+
+describe('negotiateCapabilities', () => {
+  test('grants only capabilities that are both requested and configured', () => {
+    expect(negotiateCapabilities(['notes:read', 'sync:trigger', 'root'], ['notes:read', 'status:read'])).toEqual({
+      capabilities: ['notes:read'],
+      denied: ['sync:trigger', 'root'],
+    });
+    expect(negotiateCapabilities(undefined, ['notes:read'])).toEqual({ capabilities: [], denied: [] });
+  });
+});
+
+describe('host reverse RPC', () => {
+  test('serves host methods the plugin was granted', async () => {
+    const host = createHost();
+    const { granted, results } = await runClient(
+      ['notes:read', 'sync:trigger', 'status:read'],
+      ['notes:read', 'sync:trigger', 'status:read'],
+      host,
+    );
+    const byMethod = (method: string) => results.filter((entry: any) => entry.method === method);
+
+    expect(granted).toEqual(['notes:read', 'sync:trigger', 'status:read']);
+    const [text, binary, missing, invalid] = byMethod('host/getNote');
+    expect(text.result).toEqual({
+      id: 'notes/a.md',
+      path: 'notes/a.md',
+      content: 'hello world',
+      encoding: 'utf-8',
+      mtime: date.toISOString(),
+      ctime: date.toISOString(),
+      size: 11,
+    });
+    expect(binary.result).toMatchObject({ content: Buffer.from([0x89, 0x50]).toString('base64'), encoding: 'base64' });
+    expect(missing.result).toBeNull();
+    expect(invalid.error.code).toBe(ErrorCodes.InvalidParams);
+
+    expect(byMethod('host/listNotes')[0].result.map((note: any) => note.path)).toEqual(['notes/a.md', 'image.png']);
+    expect(byMethod('host/listNotes')[0].result[0]).not.toHaveProperty('content');
+    expect(byMethod('host/search')[0].result.map((note: any) => note.id)).toEqual(['notes/a.md']);
+    expect(byMethod('host/getStatus')[0].result).toMatchObject({ documentsCount: 2 });
+    expect(byMethod('host/triggerSync')[0].result).toMatchObject({ lastSyncSuccess: true });
+    expect(host.sync).toHaveBeenCalledTimes(1);
+  });
+
+  test('denies methods whose capability was not granted', async () => {
+    const host = createHost();
+    const { granted, results } = await runClient(['notes:read', 'sync:trigger'], ['notes:read'], host);
+
+    expect(granted).toEqual(['notes:read']);
+    const errors = results.filter((entry: any) => entry.error?.code === CAPABILITY_DENIED).map((entry: any) => entry.method);
+    expect(errors).toEqual(['host/getStatus', 'host/triggerSync']);
+    expect(host.sync).not.toHaveBeenCalled();
+    expect(results.find((entry: any) => entry.method === 'host/listNotes').result).toHaveLength(2);
+  });
+});
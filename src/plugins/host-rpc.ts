@@ -0,0 +1,120 @@
+// Reverse RPC: host/* requests plugins send to read notes and trigger actions.
+import { ErrorCodes, ResponseError, type MessageConnection } from 'vscode-jsonrpc/node';
+import type { HostCapability, HostClient, HostNote, HostNoteSummary, PluginHost } from './types.js';
+import {
+  hostGetNote,
+  hostGetStatus,
+  hostListNotes,
+  hostSearch,
+  hostTriggerSync,
+} from './types.js';
+import type { Note } from '../types/index.js';
+import logger from '../utils/logger.js';
+
+export const HOST_CAPABILITIES: HostCapability[] = ['notes:read', 'sync:trigger', 'status:read'];
+
+// JSON-RPC error code (server-defined range) for calls without the needed capability
+export const CAPABILITY_DENIED = -32001;
+
+/**
+ * Capabilities both requested by the plugin and granted by the operator.
+ */
+export function negotiateCapabilities(
+  requested: unknown,
+  granted: HostCapability[] = [],
+): { capabilities: HostCapability[]; denied: unknown[] } {
+  const capabilities: HostCapability[] = [];
+  const denied: unknown[] = [];
+  for (const capability of Array.isArray(requested) ? requested : []) {
+    if (HOST_CAPABILITIES.includes(capability) && granted.includes(capability)) {
+      capabilities.push(capability);
+    } else {
+      denied.push(capability);
+    }
+  }
+  return { capabilities, denied };
+}
+
+function toSummary(note: Note): HostNoteSummary {
+  return {
+    id: note.id,
+    path: note.path,
+    mtime: note.mtime.toISOString(),
+    ctime: note.ctime.toISOString(),
+    size: note.size,
+  };
+}
+
+function toHostNote(note: Note): HostNote {
+  const binary = typeof note.content !== 'string';
+  return {
+    ...toSummary(note),
+    content: binary ? note.content.toString('base64') : (note.content as string),
+    encoding: binary ? 'base64' : 'utf-8',
+  };
+}
+
+/**
+ * host/* calls of one plugin, checked against its capabilities
+ *
+ * Capabilities are read on every call, so calls made before the handshake
+ * completes are denied. Failures are ResponseErrors, which reach RPC plugins
+ * as error responses and are thrown as-is to in-process plugins. Listings
+ * return summaries without content; plugins fetch content per note with getNote.
+ */
+export function createHostClient(
+  host: PluginHost,
+  pluginName: string,
+  getCapabilities: () => ReadonlySet<HostCapability>,
+): HostClient {
+  const guard = async <R>(capability: HostCapability, method: string, handler: () => Promise<R> | R): Promise<R> => {
+    if (!getCapabilities().has(capability)) {
+      logger.warn({ plugin: pluginName, method, capability }, 'Plugin called host method without capability');
+      throw new ResponseError(CAPABILITY_DENIED, `Capability "${capability}" not granted for ${method}`);
+    }
+    logger.debug({ plugin: pluginName, method }, 'Host request from plugin');
+    return handler();
+  };
+
+  return {
+    getNote: id =>
+      guard('notes:read', hostGetNote.method, async () => {
+        if (typeof id !== 'string') {
+          throw new ResponseError(ErrorCodes.InvalidParams, 'id must be a string');
+        }
+        const note = await host.getNote(id);
+        return note ? toHostNote(note) : null;
+      }),
+    listNotes: () => guard('notes:read', hostListNotes.method, async () => (await host.getNotes()).map(toSummary)),
+    search: query =>
+      guard('notes:read', hostSearch.method, async () => {
+        if (typeof query !== 'string' || query.length === 0) {
+          throw new ResponseError(ErrorCodes.InvalidParams, 'query must be a non-empty string');
+        }
+        return (await host.searchNotes(query)).map(toSummary);
+      }),
+    triggerSync: () =>
+      guard('sync:trigger', hostTriggerSync.method, async () => {
+        await host.sync();
+        return host.getStatus();
+      }),
+    getStatus: () => guard('status:read', hostGetStatus.method, () => host.getStatus()),
+  };
+}
+
+/**
+ * Register host/* request handlers on a plugin connection
+ */
+export function registerHostHandlers(
+  connection: MessageConnection,
+  host: PluginHost,
+  pluginName: string,
+  getCapabilities: () => ReadonlySet<HostCapability>,
+): void {
+  const client = createHostClient(host, pluginName, getCapabilities);
+  connection.onRequest(hostGetNote, params => client.getNote(params?.id));
+  connection.onRequest(hostListNotes, () => client.listNotes());
+  connection.onRequest(hostSearch, params => client.search(params?.query));
+  connection.onRequest(hostTriggerSync, () => client.triggerSync());
+  connection.onRequest(hostGetStatus, () => client.getStatus());
+}
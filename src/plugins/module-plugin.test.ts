@@ -0,0 +1,137 @@
+import path from 'node:path';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { fileURLToPath } from 'node:url';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { PluginManager } from './plugin-manager.js';
+import { toNotifyPayload } from './plugin-events.js';
+import { PluginRequestError } from './plugin-routes.js';
+import type { PluginConfig, PluginHost } from './types.js';
+import { createEventBus } from '../core/event-bus.js';
+import { EventType, type LiveSyncEvent } from '../types/index.js';
+
+const fixture = (name: string) =>
+  path.resolve(path.dirname(fileURLToPath(import.meta.url)), 'test-fixtures', name);
+
+const status = { isRunning: false, lastSyncTime: null, lastSyncSuccess: true, documentsCount: 3 };
+const host: PluginHost = {
+  getNote: vi.fn(async () => undefined),
+  getNotes: vi.fn(async () => []),
+  searchNotes: vi.fn(async () => []),
+  sync: vi.fn(async () => undefined),
+  getStatus: vi.fn(() => status),
+};
+
+const noteEvent = (type: EventType, notePath: string): LiveSyncEvent => ({
+  type,
+  timestamp: new Date(),
+  source: 'SyncService',
+  payload: { noteId: notePath, path: notePath, size: 10, tags: ['daily'], syncMode: 'incremental' },
+});
+
+describe('in-process module plugins', () => {
+  let manager: PluginManager;
+  afterEach(async () => {
+    await manager?.stopAll();
+  });
+
+  const waitFor = async (predicate: () => boolean, timeoutMs = 2000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!predicate()) {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  function startManager(config: Partial<PluginConfig>) {
+    const eventBus = createEventBus();
+    manager = new PluginManager(
+      [{ name: 'inproc', module: fixture('module-plugin.ts'), capabilities: ['status:read'], ...config }],
+      { host, eventBus },
+    );
+    const notifications: Array<{ method: string; params: any }> = [];
+    manager.onPluginNotification((_plugin, method, params) => notifications.push({ method, params }));
+    return { eventBus, notifications };
+  }
+
+  test('receives subscribed, filtered events from the bus and shares the status model', async () => {
+    const { eventBus, notifications } = startManager({ filter: { paths: ['Journal/**'] } });
+    await manager.startAll();
+
+    expect(manager.getStatuses()).toEqual([
+      expect.objectContaining({ name: 'inproc', kind: 'module', state: 'running', pid: undefined }),
+    ]);
+
+    const inJournal = noteEvent(EventType.NoteUpserted, 'Journal/today.md');
+    await eventBus.emit(noteEvent(EventType.NoteUpserted, 'Inbox/a.md'));
+    await eventBus.emit(noteEvent(EventType.NoteDeleted, 'Journal/gone.md'));
+    await eventBus.emit(noteEvent(EventType.NoteUpserted, 'Journal/throws.md'));
+    await eventBus.emit(inJournal);
+    // broadcast() is for process plugins; it must not deliver a second copy
+    await manager.broadcast(toNotifyPayload(inJournal));
+
+    await waitFor(() => notifications.length === 1);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(notifications).toEqual([{ method: 'seen', params: { path: 'Journal/today.md', tags: ['daily'] } }]);
+
+    await manager.stopAll();
+    expect(notifications.at(-1)).toEqual({ method: 'shutdown', params: undefined });
+    expect(manager.getStatuses()[0]).toMatchObject({ state: 'stopped' });
+
+    // Unsubscribed on stop
+    await eventBus.emit(inJournal);
+    expect(notifications.filter(entry => entry.method === 'seen')).toHaveLength(1);
+  });
+
+  test('serves routes and host calls according to granted capabilities', async () => {
+    startManager({});
+    await manager.startAll();
+
+    const { route } = manager.resolveRoute('inproc', 'GET', '/status');
+    const request = { method: route.method, route: route.path, path: '/status', params: {}, query: {}, headers: {} };
+    expect(await manager.sendHttpRequest('inproc', request)).toEqual({ body: status });
+    await expect(
+      manager.sendHttpRequest('inproc', { ...request, route: '/fail', path: '/fail' }),
+    ).rejects.toMatchObject({ code: 'plugin-error', message: 'route failed' });
+
+    await manager.stopAll();
+    startManager({ capabilities: [] });
+    await manager.startAll();
+    await expect(manager.sendHttpRequest('inproc', request)).rejects.toBeInstanceOf(PluginRequestError);
+    await expect(manager.sendHttpRequest('inproc', request)).rejects.toThrow(/Capability "status:read" not granted/);
+  });
+
+  test('accepts a plain definition object and fails modules without one', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'module-plugin-'));
+    try {
+      writeFileSync(
+        path.join(dir, 'plain.mjs'),
+        "export default { name: 'plain', onStart: ctx => ctx.notify('started', ctx.capabilities) };\n",
+      );
+      writeFileSync(path.join(dir, 'empty.mjs'), 'export const nothing = 1;\n');
+
+      const eventBus = createEventBus();
+      manager = new PluginManager(
+        [
+          { name: 'plain', module: 'plain.mjs', cwd: dir },
+          { name: 'empty', module: 'empty.mjs', cwd: dir },
+        ],
+        { eventBus },
+      );
+      const started: unknown[] = [];
+      manager.onPluginNotification((_plugin, method, params) => method === 'started' && started.push(params));
+      await manager.startAll();
+
+      expect(started).toEqual([[]]);
+      expect(manager.getStatuses()).toEqual([
+        expect.objectContaining({ name: 'plain', kind: 'module', state: 'running' }),
+        expect.objectContaining({ name: 'empty', kind: 'module', state: 'failed', lastError: expect.stringMatching(/must default-export/) }),
+      ]);
+    } finally {
+      await manager.stopAll();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
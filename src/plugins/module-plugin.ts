@@ -0,0 +1,265 @@
+// Trusted plugins loaded into the host process from an ESM module.
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { IEventBus } from '../core/event-bus.js';
+import type { EventListener, LiveSyncEvent } from '../types/index.js';
+import type {
+  HostCapability,
+  HostClient,
+  NotifyPayload,
+  PluginConfig,
+  PluginEventFilter,
+  PluginHandle,
+  PluginHost,
+  PluginHttpRequest,
+  PluginHttpResponse,
+  PluginRuntime,
+  PluginStopResult,
+  StopOutcome,
+} from './types.js';
+import type { PluginContext, PluginDefinition, PluginLogger } from './sdk.js';
+import { collectFilters, matchesFilter } from './event-filter.js';
+import { createHostClient, negotiateCapabilities } from './host-rpc.js';
+import { toNotifyPayload, toPluginEvent } from './plugin-events.js';
+import { normalizeRoutes, PluginRequestError } from './plugin-routes.js';
+import logger from '../utils/logger.js';
+import metrics from '../utils/metrics.js';
+
+export interface ModulePluginOptions {
+  hostVersion?: string;
+  /** Callback for ctx.notify() calls of the plugin */
+  onNotification?: (method: string, params: unknown) => void;
+  /** Services behind ctx.host; without it every host call is denied */
+  host?: PluginHost;
+  /** Bus the plugin subscribes to; without it the plugin receives no events */
+  eventBus?: IEventBus;
+}
+
+// Stands in when no host is configured; never called, since every capability check fails first
+const noHost: PluginHost = {
+  getNote: async () => undefined,
+  getNotes: async () => [],
+  searchNotes: async () => [],
+  sync: async () => undefined,
+  getStatus: () => ({ isRunning: false, lastSyncTime: null, lastSyncSuccess: false, documentsCount: 0 }),
+};
+
+/**
+ * Import a plugin module and return its definition
+ *
+ * Each load imports a fresh copy (cache-busting query), so a reload or
+ * restart picks up changes to the module file.
+ */
+export async function loadPluginModule(config: PluginConfig): Promise<PluginDefinition> {
+  const modulePath = path.resolve(config.cwd ?? process.cwd(), config.module ?? '');
+  const exports = await import(`${pathToFileURL(modulePath).href}?v=${Date.now()}`);
+  const exported = exports.default ?? exports.plugin;
+  const definition = exported && typeof exported === 'object' && 'definition' in exported ? exported.definition : exported;
+  if (!definition || typeof definition !== 'object' || typeof definition.name !== 'string') {
+    throw new Error(`Plugin module ${modulePath} must default-export definePlugin(...) or a plugin definition`);
+  }
+  return definition as PluginDefinition;
+}
+
+function createLogger(name: string): PluginLogger {
+  const child = logger.child({ plugin: name });
+  return {
+    debug: (msg, fields = {}) => child.debug(fields, msg),
+    info: (msg, fields = {}) => child.info(fields, msg),
+    warn: (msg, fields = {}) => child.warn(fields, msg),
+    error: (msg, fields = {}) => child.error(fields, msg),
+  };
+}
+
+/**
+ * Runs a plugin definition in-process with the same contract as the SDK
+ *
+ * Events come straight from the event bus, filtered like broadcast() does for
+ * process plugins, and are handled one at a time. A throwing onEvent is
+ * logged and counted; it does not stop the plugin.
+ */
+export class ModulePlugin implements PluginRuntime {
+  private definition: PluginDefinition | null = null;
+  private context: PluginContext | null = null;
+  private capabilities = new Set<HostCapability>();
+  private subscribedEvents = new Set<string>();
+  private filters: PluginEventFilter[] = [];
+  private events: Promise<void> = Promise.resolve();
+  private readonly listener: EventListener = event => this.deliver(event);
+
+  constructor(
+    private readonly config: PluginConfig,
+    private readonly options: ModulePluginOptions = {},
+  ) {}
+
+  async start(): Promise<PluginHandle> {
+    logger.info({ plugin: this.config.name, module: this.config.module }, 'Loading plugin module');
+    const definition = await loadPluginModule(this.config);
+
+    const { capabilities, denied } = negotiateCapabilities(definition.capabilities, this.config.capabilities);
+    if (denied.length > 0) {
+      logger.warn({ plugin: this.config.name, denied }, 'Plugin requested capabilities that are not granted');
+    }
+    const { routes, rejected } = normalizeRoutes(
+      definition.routes?.map(({ method, path, timeoutMs, scope }) => ({ method, path, timeoutMs, scope })),
+    );
+    if (rejected.length > 0) {
+      logger.warn({ plugin: this.config.name, rejected }, 'Ignoring invalid plugin route declarations');
+    }
+    const events = definition.events ? [...definition.events] : ['*' as const];
+
+    this.capabilities = new Set(capabilities);
+    this.subscribedEvents = new Set(events);
+    this.filters = collectFilters(this.config.name, this.config.filter, definition.filter);
+    const context: PluginContext = {
+      log: createLogger(this.config.name),
+      host: this.createHost(),
+      capabilities,
+      hostVersion: this.options.hostVersion ?? '0.0.0',
+      notify: async (method, params) => this.options.onNotification?.(method, params),
+    };
+
+    await definition.onStart?.(context);
+    this.definition = definition;
+    this.context = context;
+
+    if (this.options.eventBus) {
+      this.options.eventBus.subscribe('*', this.listener);
+    } else {
+      logger.warn({ plugin: this.config.name }, 'No event bus; in-process plugin receives no events');
+    }
+
+    return {
+      name: this.config.name,
+      kind: 'module',
+      subscribedEvents: new Set(events),
+      filters: this.filters,
+      handshake: {
+        pluginName: definition.name,
+        pluginVersion: definition.version ?? 'unknown',
+        events,
+      },
+      routes,
+      capabilities: new Set(capabilities),
+    };
+  }
+
+  /**
+   * Unsubscribe, let queued events finish and run onShutdown within shutdownTimeoutMs.
+   */
+  async stop(): Promise<PluginStopResult> {
+    const startedAt = Date.now();
+    const { definition, context } = this;
+    this.options.eventBus?.unsubscribe('*', this.listener);
+
+    let outcome: StopOutcome = 'not-running';
+    if (definition && context) {
+      const graceMs = this.config.shutdownTimeoutMs ?? 5000;
+      let timeoutId: NodeJS.Timeout | undefined;
+      outcome = await Promise.race([
+        this.events.then(() => definition.onShutdown?.(context)).then(
+          () => 'graceful' as const,
+          error => {
+            logger.error({ plugin: this.config.name, error }, 'Plugin shutdown handler failed');
+            return 'terminated' as const;
+          },
+        ),
+        new Promise<'terminated'>(resolve => {
+          timeoutId = setTimeout(() => {
+            logger.warn({ plugin: this.config.name, graceMs }, 'Plugin shutdown handler did not finish in time');
+            resolve('terminated');
+          }, graceMs);
+        }),
+      ]);
+      clearTimeout(timeoutId);
+    }
+    this.definition = null;
+    this.context = null;
+
+    const result: PluginStopResult = {
+      name: this.config.name,
+      outcome,
+      // Nothing to kill in-process; a hung onShutdown is abandoned
+      clean: true,
+      exitCode: null,
+      signal: null,
+      durationMs: Date.now() - startedAt,
+    };
+    logger.info(result, 'Plugin stopped');
+    return result;
+  }
+
+  async sendNotification(event: NotifyPayload): Promise<void> {
+    const { definition, context } = this;
+    if (!definition || !context) {
+      throw new Error('Plugin not running');
+    }
+    await definition.onEvent?.(toPluginEvent(event), context);
+  }
+
+  async sendHttpRequest(request: PluginHttpRequest, timeoutMs: number): Promise<PluginHttpResponse> {
+    const { definition, context } = this;
+    if (!definition || !context) {
+      throw new PluginRequestError('unavailable', `Plugin ${this.config.name} is not running`);
+    }
+    const route = definition.routes?.find(
+      candidate => candidate.method === request.method && candidate.path === request.route,
+    );
+    if (!route) {
+      return { status: 404, body: { error: 'Route not found' } };
+    }
+
+    let timeoutId: NodeJS.Timeout | undefined;
+    try {
+      return await Promise.race([
+        Promise.resolve().then(() => route.handler(request, context)),
+        new Promise<never>((_, reject) => {
+          timeoutId = setTimeout(() => {
+            reject(new PluginRequestError('timeout', `Plugin ${this.config.name} did not respond within ${timeoutMs}ms`));
+          }, timeoutMs);
+        }),
+      ]);
+    } catch (error) {
+      if (error instanceof PluginRequestError) {
+        throw error;
+      }
+      throw new PluginRequestError('plugin-error', error instanceof Error ? error.message : String(error));
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  isRunning(): boolean {
+    return this.definition !== null;
+  }
+
+  // In-process plugins share the host's process
+  get pid(): number | undefined {
+    return undefined;
+  }
+
+  private createHost(): HostClient {
+    return createHostClient(this.options.host ?? noHost, this.config.name, () =>
+      this.options.host ? this.capabilities : new Set(),
+    );
+  }
+
+  private deliver(event: LiveSyncEvent): void {
+    if (!this.definition || (!this.subscribedEvents.has('*') && !this.subscribedEvents.has(event.type))) {
+      return;
+    }
+    const notify = toNotifyPayload(event);
+    if (!this.filters.every(filter => matchesFilter(filter, notify))) {
+      metrics.pluginEventsFiltered.inc({ plugin: this.config.name });
+      return;
+    }
+
+    // Queued rather than awaited so the bus (and sync) never waits on a plugin
+    this.events = this.events.then(() =>
+      this.sendNotification(notify).catch(error => {
+        metrics.pluginNotificationFailures.inc({ plugin: this.config.name });
+        logger.error({ plugin: this.config.name, eventType: event.type, error }, 'In-process plugin failed to handle event');
+      }),
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { diffPluginConfigs, readPluginConfigs } from './plugin-config.js';
+
+describe('readPluginConfigs', () => {
+  let dir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'plugin-config-'));
+    configPath = path.join(dir, 'plugins.config.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('accepts an array or a { plugins } object', async () => {
+    writeFileSync(configPath, JSON.stringify([{ name: 'a', command: 'node' }]));
+    expect(await readPluginConfigs(configPath)).toEqual([{ name: 'a', command: 'node' }]);
+
+    writeFileSync(configPath, JSON.stringify({ plugins: [{ name: 'b', command: 'node' }] }));
+    expect(await readPluginConfigs(configPath)).toEqual([{ name: 'b', command: 'node' }]);
+  });
+
+  test('rejects invalid files instead of returning an empty set', async () => {
+    await expect(readPluginConfigs(path.join(dir, 'missing.json'))).rejects.toMatchObject({ code: 'ENOENT' });
+
+    writeFileSync(configPath, '{ "plugins": [');
+    await expect(readPluginConfigs(configPath)).rejects.toThrow(SyntaxError);
+
+    writeFileSync(configPath, JSON.stringify({ plugins: {} }));
+    await expect(readPluginConfigs(configPath)).rejects.toThrow('must be an array');
+
+    writeFileSync(configPath, JSON.stringify([{ name: 'a' }]));
+    await expect(readPluginConfigs(configPath)).rejects.toThrow('need a name and a command or a module');
+
+    writeFileSync(configPath, JSON.stringify([{ name: 'a', command: 'node', module: './a.js' }]));
+    await expect(readPluginConfigs(configPath)).rejects.toThrow('need a name and a command or a module');
+
+    writeFileSync(configPath, JSON.stringify([{ name: 'a', command: 'x' }, { name: 'a', command: 'y' }]));
+    await expect(readPluginConfigs(configPath)).rejects.toThrow('Duplicate plugin name: a');
+  });
+});
+
+describe('diffPluginConfigs', () => {
+  test('classifies plugins by name', () => {
+    const diff = diffPluginConfigs(
+      [
+        { name: 'kept', command: 'node', env: { A: '1', B: '2' } },
+        { name: 'changed', command: 'node', args: ['v1.js'] },
+        { name: 'removed', command: 'node' },
+      ],
+      [
+        { name: 'kept', env: { B: '2', A: '1' }, command: 'node' },
+        { name: 'changed', command: 'node', args: ['v2.js'] },
+        { name: 'added', command: 'node' },
+      ],
+    );
+
+    expect(diff).toEqual({
+      added: [{ name: 'added', command: 'node' }],
+      removed: ['removed'],
+      changed: [{ name: 'changed', command: 'node', args: ['v2.js'] }],
+      unchanged: ['kept'],
+    });
+  });
+});
@@ -0,0 +1,71 @@
+// Reading, validating and diffing plugins.config.json.
+import { readFile } from 'node:fs/promises';
+import type { PluginConfig } from './types.js';
+
+/**
+ * Read plugin configs from a JSON file (an array or `{ plugins: [] }`).
+ * Throws on a missing or invalid file so a bad edit never stops running plugins.
+ */
+export async function readPluginConfigs(configPath: string): Promise<PluginConfig[]> {
+  const parsed = JSON.parse(await readFile(configPath, 'utf8'));
+  const configs: unknown = Array.isArray(parsed) ? parsed : parsed?.plugins;
+  if (!Array.isArray(configs)) {
+    throw new Error('Plugin config must be an array or { plugins: [] }');
+  }
+
+  const names = new Set<string>();
+  for (const config of configs) {
+    const kinds = [config?.command, config?.module].filter(entry => typeof entry === 'string');
+    if (typeof config?.name !== 'string' || config.name.length === 0 || kinds.length !== 1) {
+      throw new Error(`Plugin config entries need a name and a command or a module: ${JSON.stringify(config)}`);
+    }
+    if (names.has(config.name)) {
+      throw new Error(`Duplicate plugin name: ${config.name}`);
+    }
+    names.add(config.name);
+  }
+  return configs as PluginConfig[];
+}
+
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonical);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, canonical((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+export interface PluginConfigDiff {
+  added: PluginConfig[];
+  removed: string[];
+  changed: PluginConfig[];
+  unchanged: string[];
+}
+
+/**
+ * Compare configs by plugin name; key order does not count as a change.
+ */
+export function diffPluginConfigs(current: PluginConfig[], next: PluginConfig[]): PluginConfigDiff {
+  const currentByName = new Map(current.map(config => [config.name, config]));
+  const nextNames = new Set(next.map(config => config.name));
+  const diff: PluginConfigDiff = { added: [], removed: [], changed: [], unchanged: [] };
+
+  for (const config of next) {
+    const existing = currentByName.get(config.name);
+    if (!existing) {
+      diff.added.push(config);
+    } else if (JSON.stringify(canonical(existing)) !== JSON.stringify(canonical(config))) {
+      diff.changed.push(config);
+    } else {
+      diff.unchanged.push(config.name);
+    }
+  }
+  diff.removed = current.map(config => config.name).filter(name => !nextNames.has(name));
+  return diff;
+}
@@ -0,0 +1,36 @@
+// Conversions between bus events, the notify wire payload and typed plugin events.
+import { randomUUID } from 'node:crypto';
+import type { LiveSyncEvent } from '../types/index.js';
+import type { EventEnvelope, NotifyPayload, PluginEvent } from './types.js';
+
+/**
+ * Wire payload for a bus event; eventId is unique per event since at-least-once plugins ack by it.
+ */
+export function toNotifyPayload(event: LiveSyncEvent): NotifyPayload {
+  return {
+    eventType: event.type,
+    eventId: randomUUID(),
+    timestamp: event.timestamp.getTime(),
+    payload: {
+      payload: event.payload ?? {},
+      metadata: event.metadata ?? {},
+      source: event.source,
+    } satisfies EventEnvelope,
+  };
+}
+
+/**
+ * Unwrap the envelope of a notify payload into the event handed to onEvent.
+ */
+export function toPluginEvent(params: NotifyPayload): PluginEvent {
+  const envelope = (params.payload ?? {}) as Partial<EventEnvelope>;
+  return {
+    type: params.eventType,
+    eventId: params.eventId,
+    timestamp: params.timestamp,
+    payload: envelope.payload ?? {},
+    metadata: envelope.metadata ?? {},
+    source: envelope.source ?? 'unknown',
+    attempt: params.attempt,
+  } as PluginEvent;
+}
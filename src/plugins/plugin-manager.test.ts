@@ -1,7 +1,10 @@
 import { afterAll, describe, expect, test } from 'vitest';
 import path from 'node:path';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
 import { fileURLToPath } from 'node:url';
 import { PluginManager } from './plugin-manager.js';
+import { PluginOutbox } from './plugin-outbox.js';
 import { EventType } from '../types/index.js';
 import type { PluginConfig } from './types.js';
 import logger from '../utils/logger.js';
@@ -308,6 +311,357 @@ describe('PluginManager exit handling', () => {
   });
 });
 
+describe('PluginManager supervision', () => {
+  const waitFor = async (predicate: () => boolean, timeoutMs = 5000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!predicate()) {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise(resolve => setTimeout(resolve, 25));
+    }
+  };
+
+  test('restarts a plugin that crashes after handshake', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'plugin-supervision-'));
+    const manager = new PluginManager(
+      [
+        {
+          name: 'crash-once',
+          command: nodeBin,
+          args: [fixture('plugin-exits-after-handshake.js')],
+          env: { PLUGIN_NAME: 'crash-once', CRASH_MARKER: path.join(dir, 'crashed') },
+        },
+      ],
+      { restart: { minBackoffMs: 50 } },
+    );
+
+    try {
+      await manager.startAll();
+      expect(manager.getStatuses()[0].state).toBe('running');
+
+      await waitFor(() => manager.getStatuses()[0].restarts === 1 && manager.getStatuses()[0].state === 'running');
+      const [status] = manager.getStatuses();
+      expect(status.lastExit?.code).toBe(0);
+      expect(status.pid).toBeGreaterThan(0);
+      expect((manager as any).handles.has('crash-once')).toBe(true);
+    } finally {
+      await manager.stopAll();
+      rmSync(dir, { recursive: true, force: true });
+    }
+    expect(manager.getStatuses()[0].state).toBe('stopped');
+  });
+
+  test('marks a plugin failed once the restart budget is spent', async () => {
+    const manager = new PluginManager(
+      [
+        {
+          name: 'crash-loop',
+          command: nodeBin,
+          args: [fixture('plugin-exits-after-handshake.js')],
+          env: { PLUGIN_NAME: 'crash-loop' },
+        },
+      ],
+      { restart: { minBackoffMs: 20, maxBackoffMs: 40, maxRestarts: 2, windowMs: 60_000 } },
+    );
+
+    try {
+      await manager.startAll();
+      await waitFor(() => manager.getStatuses()[0].state === 'failed');
+      const [status] = manager.getStatuses();
+      expect(status.restarts).toBe(2);
+      expect(status.pid).toBeUndefined();
+      expect((manager as any).processes.size).toBe(0);
+    } finally {
+      await manager.stopAll();
+    }
+  });
+
+  test('stopAll cancels a pending restart', async () => {
+    const manager = new PluginManager(
+      [
+        {
+          name: 'crash-pending',
+          command: nodeBin,
+          args: [fixture('plugin-exits-after-handshake.js')],
+          env: { PLUGIN_NAME: 'crash-pending' },
+        },
+      ],
+      { restart: { minBackoffMs: 300 } },
+    );
+
+    await manager.startAll();
+    await waitFor(() => manager.getStatuses()[0].state === 'restarting');
+    await manager.stopAll();
+    await new Promise(resolve => setTimeout(resolve, 400));
+
+    const [status] = manager.getStatuses();
+    expect(status.state).toBe('stopped');
+    expect(status.restarts).toBe(0);
+    expect((manager as any).processes.size).toBe(0);
+  });
+});
+
+describe('PluginManager at-least-once delivery', () => {
+  const waitFor = async (predicate: () => boolean, timeoutMs = 5000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!predicate()) {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise(resolve => setTimeout(resolve, 25));
+    }
+  };
+
+  const event = (eventId: string) => ({
+    eventType: EventType.NoteUpserted,
+    eventId,
+    timestamp: Date.now(),
+    payload: {},
+  });
+
+  test('redelivers unacked events and clears them once acked', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'plugin-ack-'));
+    const manager = new PluginManager(
+      [
+        {
+          name: 'backup',
+          command: nodeBin,
+          args: [fixture('plugin-ack.js')],
+          env: { ACK_FROM_ATTEMPT: '2' },
+          delivery: 'at-least-once',
+          ackTimeoutMs: 100,
+        },
+      ],
+      { outboxDir: dir },
+    );
+    const deliveries: any[] = [];
+    manager.onPluginNotification((_plugin, method, params) => {
+      if (method === 'log') {
+        deliveries.push(params);
+      }
+    });
+
+    try {
+      await manager.startAll();
+      await manager.broadcast(event('evt-1'));
+
+      await waitFor(() => manager.getStatuses()[0].outbox?.pending === 0);
+      expect(deliveries.map(delivery => delivery.attempt)).toEqual([1, 2]);
+      expect(deliveries[0]).toMatchObject({ eventId: 'evt-1', requiresAck: true });
+      expect(manager.getDeadLetters()).toEqual([]);
+    } finally {
+      await manager.stopAll();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('dead-letters events that are never acked', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'plugin-ack-'));
+    const manager = new PluginManager(
+      [
+        {
+          name: 'silent-backup',
+          command: nodeBin,
+          args: [fixture('plugin-ack.js')],
+          env: { ACK_FROM_ATTEMPT: '0' },
+          delivery: 'at-least-once',
+          ackTimeoutMs: 50,
+          maxDeliveryAttempts: 2,
+        },
+      ],
+      { outboxDir: dir },
+    );
+
+    try {
+      await manager.startAll();
+      await manager.broadcast(event('evt-lost'));
+
+      await waitFor(() => manager.getDeadLetters().length === 1);
+      expect(manager.getDeadLetters('silent-backup')).toMatchObject([
+        { plugin: 'silent-backup', event: { eventId: 'evt-lost' }, attempts: 2 },
+      ]);
+      expect(manager.getDeadLetters('other')).toEqual([]);
+      expect(manager.getStatuses()[0].outbox).toEqual({ pending: 0, deadLetters: 1 });
+    } finally {
+      await manager.stopAll();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('queues events while the plugin restarts and delivers them afterwards', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'plugin-ack-'));
+    const manager = new PluginManager(
+      [
+        {
+          name: 'flaky-backup',
+          command: nodeBin,
+          args: [fixture('plugin-exits-after-handshake.js')],
+          env: { CRASH_MARKER: path.join(dir, 'crashed') },
+          delivery: 'at-least-once',
+        },
+      ],
+      { outboxDir: dir, restart: { minBackoffMs: 200 } },
+    );
+
+    try {
+      await manager.startAll();
+      await waitFor(() => manager.getStatuses()[0].state === 'restarting');
+      await manager.broadcast(event('while-down'));
+      expect(manager.getStatuses()[0].outbox?.pending).toBe(1);
+
+      // The fixture never acks, so the event stays pending after its first delivery
+      const journal = path.join(dir, 'flaky-backup.json.journal');
+      await waitFor(() => existsSync(journal) && readFileSync(journal, 'utf-8').includes('"op":"attempt"'));
+      expect(manager.getStatuses()[0]).toMatchObject({ state: 'running', restarts: 1 });
+
+      await manager.stopAll();
+      const persisted = new PluginOutbox(path.join(dir, 'flaky-backup.json'));
+      await persisted.load();
+      expect(persisted.list()).toMatchObject([{ event: { eventId: 'while-down' }, attempts: 1 }]);
+    } finally {
+      await manager.stopAll();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('PluginManager shutdown', () => {
+  test('reports how each plugin exited', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'plugin-shutdown-'));
+    const marker = path.join(dir, 'flushed');
+    const manager = new PluginManager([
+      {
+        name: 'graceful',
+        command: nodeBin,
+        args: [fixture('plugin-shutdown.js')],
+        env: { FLUSH_MARKER: marker },
+      },
+      {
+        name: 'legacy',
+        command: nodeBin,
+        args: [fixture('plugin-stable.js')],
+      },
+      {
+        name: 'hung',
+        command: nodeBin,
+        args: [fixture('plugin-shutdown.js')],
+        env: { SHUTDOWN_MODE: 'hang' },
+        shutdownTimeoutMs: 150,
+        killTimeoutMs: 150,
+      },
+    ]);
+
+    try {
+      await manager.startAll();
+      const results = await manager.stopAll();
+      const byName = Object.fromEntries(results.map(result => [result.name, result]));
+
+      expect(byName.graceful).toMatchObject({ outcome: 'graceful', clean: true, exitCode: 0 });
+      expect(existsSync(marker)).toBe(true);
+      expect(byName.legacy).toMatchObject({ outcome: 'terminated', clean: true, signal: 'SIGTERM' });
+      expect(byName.hung).toMatchObject({ outcome: 'killed', clean: false, signal: 'SIGKILL' });
+      expect(byName.hung.durationMs).toBeGreaterThanOrEqual(300);
+      expect(manager.getStatuses().every(status => status.state === 'stopped')).toBe(true);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('stopAll without running plugins reports nothing', async () => {
+    const manager = new PluginManager([]);
+    await expect(manager.stopAll()).resolves.toEqual([]);
+  });
+});
+
+describe('PluginManager config reload', () => {
+  const waitFor = async (predicate: () => boolean, timeoutMs = 5000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!predicate()) {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise(resolve => setTimeout(resolve, 25));
+    }
+  };
+
+  const stable = (name: string, env: Record<string, string> = {}): PluginConfig => ({
+    name,
+    command: nodeBin,
+    args: [fixture('plugin-stable.js')],
+    env: { PLUGIN_NAME: name, ...env },
+  });
+
+  const pidOf = (manager: PluginManager, name: string) =>
+    manager.getStatuses().find(status => status.name === name)?.pid;
+
+  test('starts added, stops removed and restarts changed plugins', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'plugin-reload-'));
+    const configPath = path.join(dir, 'plugins.config.json');
+    const manager = new PluginManager([stable('kept'), stable('changed'), stable('removed')], { configPath });
+
+    try {
+      await manager.startAll();
+      const keptPid = pidOf(manager, 'kept');
+      const changedPid = pidOf(manager, 'changed');
+
+      writeFileSync(
+        configPath,
+        JSON.stringify({ plugins: [stable('kept'), stable('changed', { VERSION: '2' }), stable('added')] }),
+      );
+      const result = await manager.reload();
+
+      expect(result).toEqual({ added: ['added'], removed: ['removed'], restarted: ['changed'], unchanged: ['kept'] });
+      expect(manager.getStatuses().map(status => [status.name, status.state])).toEqual([
+        ['kept', 'running'],
+        ['changed', 'running'],
+        ['added', 'running'],
+      ]);
+      expect(pidOf(manager, 'kept')).toBe(keptPid);
+      expect(pidOf(manager, 'changed')).not.toBe(changedPid);
+      expect((manager as any).processes.has('removed')).toBe(false);
+    } finally {
+      await manager.stopAll();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('keeps running plugins when the new config is invalid', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'plugin-reload-'));
+    const configPath = path.join(dir, 'plugins.config.json');
+    const manager = new PluginManager([stable('kept')], { configPath });
+
+    try {
+      await manager.startAll();
+      writeFileSync(configPath, '{ "plugins": [');
+
+      await expect(manager.reload()).rejects.toThrow();
+      expect(manager.getStatuses()).toMatchObject([{ name: 'kept', state: 'running' }]);
+    } finally {
+      await manager.stopAll();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('reloads when the watched config file changes', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'plugin-reload-'));
+    const configPath = path.join(dir, 'plugins.config.json');
+    writeFileSync(configPath, JSON.stringify([]));
+    const manager = new PluginManager([], { configPath, watch: true });
+
+    try {
+      await manager.startAll();
+      writeFileSync(configPath, JSON.stringify([stable('watched')]));
+
+      await waitFor(() => manager.getStatuses()[0]?.state === 'running');
+      expect(manager.getStatuses()[0].name).toBe('watched');
+    } finally {
+      await manager.stopAll();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
 describe('PluginManager handshake failure handling', () => {
   test('startAll should log and clean state when handshake times out', async () => {
     const configs: PluginConfig[] = [
@@ -326,6 +680,7 @@ describe('PluginManager handshake failure handling', () => {
     const handles = (manager as any).handles as Map<string, unknown>;
     expect(processes.size).toBe(0);
     expect(handles.size).toBe(0);
+    expect(manager.getStatuses()[0]).toMatchObject({ name: 'silent', state: 'failed' });
 
     await expect(manager.stopAll()).resolves.not.toThrow();
   });
@@ -1,76 +1,202 @@
-// PluginManager using simplified PluginProcess for cleaner lifecycle management.
-import type { NotifyPayload, PluginConfig, PluginHandle } from './types.js';
+// PluginManager supervising process plugins (PluginProcess) and in-process module plugins (ModulePlugin).
+import type {
+  NotifyPayload,
+  PluginConfig,
+  PluginEventFilter,
+  PluginHandle,
+  PluginHost,
+  PluginHttpRequest,
+  PluginHttpResponse,
+  PluginKind,
+  PluginRuntime,
+  PluginStatus,
+  PluginStopResult,
+  RestartPolicy,
+} from './types.js';
+import type { EventType } from '../types/index.js';
 import { PluginProcess } from './plugin-process.js';
+import { ModulePlugin } from './module-plugin.js';
+import type { IEventBus } from '../core/event-bus.js';
+import { matchRoute, PluginRequestError, type RouteMatch } from './plugin-routes.js';
+import { OutboxDelivery, PluginOutbox, type DeadLetter } from './plugin-outbox.js';
+import { diffPluginConfigs, readPluginConfigs } from './plugin-config.js';
+import { matchesFilter } from './event-filter.js';
 import logger from '../utils/logger.js';
+import metrics from '../utils/metrics.js';
 import { EventEmitter } from 'node:events';
+import { watch, type FSWatcher } from 'node:fs';
+import path from 'node:path';
+
+export interface PluginManagerOptions {
+  restart?: Partial<RestartPolicy>;
+  /** Services plugins may call through host/* requests */
+  host?: PluginHost;
+  /** Directory holding the outbox files of at-least-once plugins (default ./plugin-outbox) */
+  outboxDir?: string;
+  /** plugins.config.json to re-read on reload() */
+  configPath?: string;
+  /** Reload automatically when configPath changes on disk */
+  watch?: boolean;
+  /** Directory plugin working directories are confined to (default: no jail) */
+  sandboxDir?: string;
+  /** Bus in-process module plugins subscribe to directly */
+  eventBus?: IEventBus;
+}
+
+export interface PluginReloadResult {
+  added: string[];
+  removed: string[];
+  restarted: string[];
+  unchanged: string[];
+}
+
+export const DEFAULT_ROUTE_TIMEOUT_MS = 10_000;
+export const DEFAULT_ACK_TIMEOUT_MS = 30_000;
+export const DEFAULT_MAX_DELIVERY_ATTEMPTS = 5;
+
+export const DEFAULT_RESTART_POLICY: RestartPolicy = {
+  minBackoffMs: 1000,
+  maxBackoffMs: 60_000,
+  maxRestarts: 5,
+  windowMs: 10 * 60_000,
+};
+
+// Supervisor bookkeeping per plugin; the public view is PluginStatus.
+interface Supervision {
+  status: PluginStatus;
+  restartTimes: number[];
+  timer?: NodeJS.Timeout;
+  /** Subscriptions from the last handshake, so events can be queued while the plugin is down */
+  subscribedEvents?: Set<EventType | '*'>;
+  filters?: PluginEventFilter[];
+  delivery?: OutboxDelivery;
+}
 
 export class PluginManager {
-  private readonly processes = new Map<string, PluginProcess>();
+  private readonly processes = new Map<string, PluginRuntime>();
   private readonly handles = new Map<string, PluginHandle>();
+  private readonly supervision = new Map<string, Supervision>();
   private readonly hostVersion = '0.0.0'; // TODO: inject from package metadata/config.
   private readonly ev = new EventEmitter();
+  private readonly restartPolicy: RestartPolicy;
+  private readonly host?: PluginHost;
+  private readonly outboxDir: string;
+  private readonly configPath?: string;
+  private readonly watchEnabled: boolean;
+  private readonly sandboxDir?: string;
+  private readonly eventBus?: IEventBus;
+  private watcher?: FSWatcher;
+  private reloadTimer?: NodeJS.Timeout;
+  private reloading: Promise<unknown> = Promise.resolve();
+  private running = false;
 
   constructor(
-    private readonly configs: PluginConfig[],
-  ) {}
+    private configs: PluginConfig[],
+    options: PluginManagerOptions = {},
+  ) {
+    this.restartPolicy = { ...DEFAULT_RESTART_POLICY, ...options.restart };
+    this.host = options.host;
+    this.outboxDir = options.outboxDir ?? path.resolve(process.cwd(), 'plugin-outbox');
+    this.configPath = options.configPath;
+    this.watchEnabled = options.watch ?? false;
+    this.sandboxDir = options.sandboxDir;
+    this.eventBus = options.eventBus;
+  }
 
   // Start all configured plugins and perform handshake.
   async startAll(): Promise<void> {
+    this.running = true;
     for (const config of this.configs) {
       // Skip if already started
       if (this.handles.has(config.name)) {
         continue;
       }
+      await this.launch(config);
+    }
 
-      logger.info({ plugin: config.name }, 'Starting plugin');
-
-      try {
-        // Create and start plugin process
-        const process = new PluginProcess(config, {
-          hostVersion: this.hostVersion,
-          onNotification: (method, params) => {
-            this.ev.emit('notification', config.name, method, params);
-          },
-        });
+    if (this.watchEnabled) {
+      this.watchConfig();
+    }
+  }
 
-        const handle = await process.start();
+  // Re-read configPath and apply it to the running set.
+  async reload(): Promise<PluginReloadResult> {
+    if (!this.configPath) {
+      throw new Error('No plugin config path configured');
+    }
+    const configs = await readPluginConfigs(this.configPath);
+    return this.applyConfigs(configs);
+  }
 
-        // Store both process and handle
-        this.processes.set(config.name, process);
-        this.handles.set(config.name, handle);
+  // Start added plugins, stop removed ones and restart changed ones; others keep running.
+  applyConfigs(configs: PluginConfig[]): Promise<PluginReloadResult> {
+    const run = this.reloading.then(() => this.applyDiff(configs));
+    this.reloading = run.catch(() => {});
+    return run;
+  }
 
-        logger.info({ plugin: config.name }, 'Plugin started successfully');
+  // Health of every configured plugin, for the /api/plugins route.
+  getStatuses(): PluginStatus[] {
+    return this.configs.map(config => {
+      const { status, delivery } = this.supervise(config);
+      const outbox = delivery
+        ? { pending: delivery.outbox.size, deadLetters: delivery.outbox.deadLetters().length }
+        : undefined;
+      return { ...status, pid: this.processes.get(config.name)?.pid, outbox };
+    });
+  }
 
-      } catch (error) {
-        // According to PLUGINS_PLAN.md: plugin failure should not affect other plugins
-        logger.error({ plugin: config.name, error }, 'Failed to start plugin');
-        // Clean up any partial state
-        this.processes.delete(config.name);
-        this.handles.delete(config.name);
-        // Continue with other plugins
-      }
-    }
+  // Events that at-least-once plugins never acknowledged, optionally for one plugin.
+  getDeadLetters(name?: string): Array<DeadLetter & { plugin: string }> {
+    return this.configs
+      .filter(config => name === undefined || config.name === name)
+      .flatMap(config => {
+        const delivery = this.supervise(config).delivery;
+        return (delivery?.outbox.deadLetters() ?? []).map(letter => ({ plugin: config.name, ...letter }));
+      });
   }
 
-  // Broadcast event to all plugins that subscribe to the event type.
+  // Broadcast event to all plugins that subscribe to the event type and whose filters it passes.
+  // At-least-once plugins get it through their outbox, even while restarting.
   async broadcast(event: NotifyPayload): Promise<void> {
     const tasks: Promise<void>[] = [];
 
-    this.handles.forEach((handle, name) => {
-      const process = this.processes.get(name);
-      if (!process) {
+    this.supervision.forEach(({ status, subscribedEvents, filters, delivery }, name) => {
+      // In-process plugins take events from the event bus themselves
+      if (status.kind === 'module') {
         return;
       }
 
       // Check subscription
-      const subscribed = handle.subscribedEvents;
-      if (!subscribed.has('*') && !subscribed.has(event.eventType)) {
+      const handle = this.handles.get(name);
+      const subscribed = handle?.subscribedEvents ?? subscribedEvents;
+      if (!subscribed || (!subscribed.has('*') && !subscribed.has(event.eventType))) {
+        return;
+      }
+      if (!(handle?.filters ?? filters ?? []).every(filter => matchesFilter(filter, event))) {
+        metrics.pluginEventsFiltered.inc({ plugin: name });
         return;
       }
 
-      // Send notification via PluginProcess
+      if (delivery) {
+        tasks.push(
+          delivery.enqueue(event).catch(error => {
+            metrics.pluginNotificationFailures.inc({ plugin: name });
+            logger.error({ plugin: name, error }, 'Failed to queue plugin notification');
+          })
+        );
+        return;
+      }
+
+      const process = this.processes.get(name);
+      if (!process) {
+        return;
+      }
+
+      // Send notification to the plugin process
       tasks.push(
         process.sendNotification(event).catch(error => {
+          metrics.pluginNotificationFailures.inc({ plugin: name });
           logger.error({ plugin: name, error }, 'Failed to send plugin notification');
         })
       );
@@ -79,24 +205,302 @@ export class PluginManager {
     await Promise.all(tasks);
   }
 
-  // Stop all plugins and dispose resources.
-  async stopAll(): Promise<void> {
-    const stopTasks: Promise<void>[] = [];
+  // Find the plugin route serving an HTTP request; throws PluginRequestError if none can.
+  resolveRoute(name: string, method: string, path: string): RouteMatch {
+    if (!this.configs.some(config => config.name === name)) {
+      throw new PluginRequestError('not-found', `Unknown plugin: ${name}`);
+    }
+    const handle = this.handles.get(name);
+    if (!handle) {
+      throw new PluginRequestError('unavailable', `Plugin ${name} is not running`);
+    }
+    const match = matchRoute(handle.routes, method, path);
+    if (!match) {
+      throw new PluginRequestError('not-found', `Plugin ${name} has no route ${method} ${path}`);
+    }
+    return match;
+  }
 
-    this.processes.forEach((process, name) => {
-      stopTasks.push(
-        process.stop().catch(error => {
-          logger.error({ plugin: name, error }, 'Error stopping plugin');
-        })
-      );
-    });
+  // Forward a matched HTTP request to the plugin, waiting up to the route's timeout.
+  async sendHttpRequest(name: string, request: PluginHttpRequest, timeoutMs?: number): Promise<PluginHttpResponse> {
+    const process = this.processes.get(name);
+    if (!process) {
+      throw new PluginRequestError('unavailable', `Plugin ${name} is not running`);
+    }
+    return process.sendHttpRequest(request, timeoutMs ?? DEFAULT_ROUTE_TIMEOUT_MS);
+  }
+
+  // Stop all plugins and dispose resources; reports how each running plugin exited.
+  async stopAll(): Promise<PluginStopResult[]> {
+    this.running = false;
+    this.watcher?.close();
+    this.watcher = undefined;
+    clearTimeout(this.reloadTimer);
 
     // Wait for all processes to stop
-    await Promise.all(stopTasks);
+    const stopped = await Promise.all(Array.from(this.supervision.keys(), name => this.stopPlugin(name)));
+    const results = stopped.filter((result): result is PluginStopResult => result !== undefined);
+
+    const unclean = results.filter(result => !result.clean).map(result => result.name);
+    if (unclean.length > 0) {
+      logger.warn({ plugins: unclean }, 'Plugins had to be killed during shutdown');
+    }
+    return results;
+  }
+
+  private async applyDiff(configs: PluginConfig[]): Promise<PluginReloadResult> {
+    const diff = diffPluginConfigs(this.configs, configs);
+
+    for (const name of [...diff.removed, ...diff.changed.map(config => config.name)]) {
+      await this.stopPlugin(name);
+      this.supervision.delete(name);
+    }
+    this.configs = configs;
+
+    // When not started, the new configs apply on the next startAll()
+    if (this.running) {
+      for (const config of [...diff.added, ...diff.changed]) {
+        await this.launch(config);
+      }
+    }
+
+    const result: PluginReloadResult = {
+      added: diff.added.map(config => config.name),
+      removed: diff.removed,
+      restarted: diff.changed.map(config => config.name),
+      unchanged: diff.unchanged,
+    };
+    logger.info(result, 'Plugin configuration applied');
+    return result;
+  }
+
+  // Reload shortly after the config file changes; editors often write it in several steps.
+  private watchConfig(): void {
+    if (!this.configPath || this.watcher) {
+      return;
+    }
+    const configPath = this.configPath;
+    const fileName = path.basename(configPath);
+
+    try {
+      // Watch the directory so replacing the file (atomic save) is noticed too
+      this.watcher = watch(path.dirname(configPath), (_eventType, changed) => {
+        if (changed && changed !== fileName) {
+          return;
+        }
+        clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => {
+          this.reload().catch(error => {
+            logger.error({ error, configPath }, 'Plugin config reload failed; keeping current plugins');
+          });
+        }, 250);
+      });
+      this.watcher.on('error', error => {
+        logger.error({ error, configPath }, 'Plugin config watcher failed');
+      });
+      logger.info({ configPath }, 'Watching plugin config for changes');
+    } catch (error) {
+      logger.error({ error, configPath }, 'Failed to watch plugin config');
+    }
+  }
+
+  // Reset supervision, open the outbox if needed and start the plugin.
+  private async launch(config: PluginConfig): Promise<void> {
+    const supervision = this.supervise(config);
+    clearTimeout(supervision.timer);
+    supervision.timer = undefined;
+    supervision.restartTimes = [];
+
+    if (config.delivery === 'at-least-once' && config.module) {
+      // Bus listeners run in-process; there is no connection to lose events on
+      logger.warn({ plugin: config.name }, 'at-least-once delivery does not apply to in-process plugins; ignoring');
+    } else if (config.delivery === 'at-least-once') {
+      try {
+        await this.openOutbox(config, supervision);
+      } catch (error) {
+        // Starting without the outbox would silently downgrade delivery
+        logger.error({ plugin: config.name, error }, 'Failed to open plugin outbox; not starting plugin');
+        supervision.status.state = 'failed';
+        supervision.status.lastError = error instanceof Error ? error.message : String(error);
+        return;
+      }
+    }
+
+    await this.startPlugin(config, false);
+  }
+
+  // Cancel restarts and delivery, then stop the process if it is running.
+  private async stopPlugin(name: string): Promise<PluginStopResult | undefined> {
+    const supervision = this.supervision.get(name);
+    if (supervision) {
+      clearTimeout(supervision.timer);
+      supervision.timer = undefined;
+      supervision.status.state = 'stopped';
+      supervision.status.nextRestartAt = undefined;
+      await supervision.delivery?.stop();
+    }
+
+    const process = this.processes.get(name);
+    this.processes.delete(name);
+    this.handles.delete(name);
+    if (!process) {
+      return undefined;
+    }
+    try {
+      return await process.stop();
+    } catch (error) {
+      logger.error({ plugin: name, error }, 'Error stopping plugin');
+      return undefined;
+    }
+  }
+
+  private supervise(config: PluginConfig): Supervision {
+    let supervision = this.supervision.get(config.name);
+    if (!supervision) {
+      const kind: PluginKind = config.module ? 'module' : 'process';
+      supervision = { status: { name: config.name, kind, state: 'stopped', restarts: 0 }, restartTimes: [] };
+      this.supervision.set(config.name, supervision);
+    }
+    return supervision;
+  }
+
+  private async openOutbox(config: PluginConfig, supervision: Supervision): Promise<void> {
+    if (!supervision.delivery) {
+      const outbox = new PluginOutbox(path.join(this.outboxDir, `${config.name}.json`));
+      await outbox.load();
+      supervision.delivery = new OutboxDelivery(
+        config.name,
+        outbox,
+        {
+          ackTimeoutMs: config.ackTimeoutMs ?? DEFAULT_ACK_TIMEOUT_MS,
+          maxAttempts: config.maxDeliveryAttempts ?? DEFAULT_MAX_DELIVERY_ATTEMPTS,
+        },
+        event => this.processes.get(config.name)?.sendNotification(event) ?? null,
+      );
+    }
+    supervision.delivery.start();
+  }
+
+  private isStopped(supervision: Supervision): boolean {
+    return supervision.status.state === 'stopped';
+  }
+
+  private async startPlugin(config: PluginConfig, isRestart: boolean): Promise<void> {
+    const supervision = this.supervise(config);
+    supervision.status.state = 'starting';
+    supervision.status.nextRestartAt = undefined;
+
+    logger.info({ plugin: config.name, isRestart }, 'Starting plugin');
+
+    try {
+      // Create and start the plugin; both kinds share supervision from here on
+      const onNotification = (method: string, params: unknown) => {
+        this.ev.emit('notification', config.name, method, params);
+      };
+      const process: PluginRuntime = config.module
+        ? new ModulePlugin(config, {
+            hostVersion: this.hostVersion,
+            onNotification,
+            host: this.host,
+            eventBus: this.eventBus,
+          })
+        : new PluginProcess(config, {
+            hostVersion: this.hostVersion,
+            onNotification,
+            onExit: (code, signal) => this.handleExit(config, process, code, signal),
+            onAck: eventId => void supervision.delivery?.ack(eventId),
+            host: this.host,
+            sandboxDir: this.sandboxDir,
+          });
+
+      const handle = await process.start();
+
+      // stopAll() may have run while the handshake was pending
+      if (this.isStopped(supervision)) {
+        await process.stop();
+        return;
+      }
+
+      // Store both process and handle
+      this.processes.set(config.name, process);
+      this.handles.set(config.name, handle);
+      supervision.status.state = 'running';
+      supervision.status.startedAt = new Date().toISOString();
+      supervision.status.lastError = undefined;
+      supervision.subscribedEvents = handle.subscribedEvents;
+      supervision.filters = handle.filters;
+
+      logger.info({ plugin: config.name }, 'Plugin started successfully');
+
+      // Deliver what queued up while the plugin was down
+      void supervision.delivery?.flush();
+
+    } catch (error) {
+      // According to PLUGINS_PLAN.md: plugin failure should not affect other plugins
+      logger.error({ plugin: config.name, error }, 'Failed to start plugin');
+      // Clean up any partial state
+      this.processes.delete(config.name);
+      this.handles.delete(config.name);
+      supervision.status.lastError = error instanceof Error ? error.message : String(error);
+
+      if (this.isStopped(supervision)) {
+        return;
+      }
+      // A plugin that never came up is misconfigured; only retry ones that ran before
+      if (isRestart) {
+        this.scheduleRestart(config);
+      } else {
+        supervision.status.state = 'failed';
+      }
+    }
+  }
+
+  private handleExit(
+    config: PluginConfig,
+    process: PluginRuntime,
+    code: number | null,
+    signal: NodeJS.Signals | null,
+  ): void {
+    if (this.processes.get(config.name) !== process) {
+      return;
+    }
+    this.processes.delete(config.name);
+    this.handles.delete(config.name);
+
+    const supervision = this.supervise(config);
+    supervision.status.lastExit = { code, signal, at: new Date().toISOString() };
+    this.scheduleRestart(config);
+  }
+
+  // Restart with exponential backoff, giving up once the window's budget is spent.
+  private scheduleRestart(config: PluginConfig): void {
+    const supervision = this.supervise(config);
+    const { minBackoffMs, maxBackoffMs, maxRestarts, windowMs } = this.restartPolicy;
+    const now = Date.now();
+    supervision.restartTimes = supervision.restartTimes.filter(time => now - time < windowMs);
+
+    if (supervision.restartTimes.length >= maxRestarts) {
+      supervision.status.state = 'failed';
+      logger.error(
+        { plugin: config.name, restarts: supervision.restartTimes.length, windowMs },
+        'Plugin exceeded restart budget; giving up'
+      );
+      return;
+    }
+
+    const delay = Math.min(minBackoffMs * 2 ** supervision.restartTimes.length, maxBackoffMs);
+    supervision.status.state = 'restarting';
+    supervision.status.nextRestartAt = new Date(now + delay).toISOString();
+    logger.warn({ plugin: config.name, delayMs: delay }, 'Scheduling plugin restart');
 
-    // Clear all state
-    this.processes.clear();
-    this.handles.clear();
+    supervision.timer = setTimeout(() => {
+      supervision.timer = undefined;
+      supervision.restartTimes.push(Date.now());
+      supervision.status.restarts++;
+      metrics.pluginRestarts.inc({ plugin: config.name });
+      void this.startPlugin(config, true);
+    }, delay);
+    supervision.timer.unref();
   }
 
   onPluginNotification(callback: (plugin: string, method: string, params: unknown) => void): void {
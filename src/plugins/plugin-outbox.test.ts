@@ -0,0 +1,172 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { OutboxDelivery, PluginOutbox } from './plugin-outbox.js';
+import type { NotifyPayload } from './types.js';
+import { EventType } from '../types/index.js';
+
+const event = (eventId: string): NotifyPayload => ({
+  eventType: EventType.NoteUpserted,
+  eventId,
+  timestamp: 0,
+  payload: { path: `${eventId}.md` },
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('PluginOutbox', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'plugin-outbox-'));
+    filePath = path.join(dir, 'outbox', 'backup.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('persists pending events and dead letters across reloads', async () => {
+    const outbox = new PluginOutbox(filePath);
+    await outbox.load();
+    await outbox.enqueue(event('a'));
+    await outbox.enqueue(event('b'));
+    await outbox.enqueue(event('c'));
+    await outbox.recordAttempt('b');
+    await outbox.deadLetter('c', 'No ack');
+
+    const reloaded = new PluginOutbox(filePath);
+    await reloaded.load();
+    expect(reloaded.list().map(entry => [entry.event.eventId, entry.attempts])).toEqual([['a', 0], ['b', 1]]);
+    expect(reloaded.deadLetters()).toMatchObject([{ event: { eventId: 'c' }, reason: 'No ack' }]);
+
+    expect(await reloaded.ack('a')).toBe(true);
+    expect(await reloaded.ack('a')).toBe(false);
+
+    const again = new PluginOutbox(filePath);
+    await again.load();
+    expect(again.list().map(entry => entry.event.eventId)).toEqual(['b']);
+  });
+
+  test('journals changes and compacts them into the snapshot', async () => {
+    const outbox = new PluginOutbox(filePath);
+    await outbox.load();
+    await outbox.enqueue(event('a'));
+    await outbox.recordAttempt('a');
+    expect(readFileSync(`${filePath}.journal`, 'utf-8').trim().split('\n')).toHaveLength(2);
+
+    await Promise.all(Array.from({ length: 1000 }, (_, index) => outbox.enqueue(event(`e${index}`))));
+    expect(readFileSync(`${filePath}.journal`, 'utf-8')).toBe('');
+    const snapshot = JSON.parse(readFileSync(filePath, 'utf-8'));
+    expect(snapshot.seq).toBe(1002);
+    expect(snapshot.pending).toHaveLength(1001);
+  });
+
+  test('skips a torn journal line left by a crash', async () => {
+    const outbox = new PluginOutbox(filePath);
+    await outbox.load();
+    await outbox.enqueue(event('a'));
+    await outbox.enqueue(event('b'));
+    appendFileSync(`${filePath}.journal`, '{"seq":3,"op":"ack","eve');
+
+    const reloaded = new PluginOutbox(filePath);
+    await reloaded.load();
+    expect(reloaded.list().map(entry => entry.event.eventId)).toEqual(['a', 'b']);
+    expect(JSON.parse(readFileSync(filePath, 'utf-8')).seq).toBe(2);
+    expect(readFileSync(`${filePath}.journal`, 'utf-8')).toBe('');
+  });
+
+  test('reports entries due for redelivery after the ack timeout', async () => {
+    const outbox = new PluginOutbox(filePath);
+    await outbox.enqueue(event('a'));
+    await outbox.enqueue(event('b'));
+    await outbox.recordAttempt('a');
+
+    const now = Date.now();
+    expect(outbox.due(now, 1000).map(entry => entry.event.eventId)).toEqual(['b']);
+    expect(outbox.due(now + 1000, 1000).map(entry => entry.event.eventId)).toEqual(['a', 'b']);
+    expect(outbox.nextDueAt(1000)).toBe(0);
+  });
+
+  test('dead-letters the oldest events when full', async () => {
+    const outbox = new PluginOutbox(filePath, { maxPending: 2, maxDeadLetters: 1 });
+    for (const id of ['a', 'b', 'c', 'd']) {
+      await outbox.enqueue(event(id));
+    }
+
+    expect(outbox.list().map(entry => entry.event.eventId)).toEqual(['c', 'd']);
+    expect(outbox.deadLetters()).toMatchObject([{ event: { eventId: 'b' }, reason: 'Outbox full' }]);
+  });
+});
+
+describe('OutboxDelivery', () => {
+  let dir: string;
+  let outbox: PluginOutbox;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'plugin-delivery-'));
+    outbox = new PluginOutbox(path.join(dir, 'plugin.json'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('redelivers until acked', async () => {
+    const sent: NotifyPayload[] = [];
+    const delivery = new OutboxDelivery('p', outbox, { ackTimeoutMs: 40, maxAttempts: 5 }, async payload => {
+      sent.push(payload);
+    });
+
+    await delivery.enqueue(event('a'));
+    await delivery.flush();
+    expect(sent).toMatchObject([{ eventId: 'a', requiresAck: true, attempt: 1 }]);
+
+    await sleep(120);
+    expect(sent.length).toBeGreaterThanOrEqual(2);
+    expect(sent[1]).toMatchObject({ eventId: 'a', attempt: 2 });
+
+    await delivery.ack('a');
+    const count = sent.length;
+    await sleep(100);
+    expect(sent).toHaveLength(count);
+    expect(outbox.size).toBe(0);
+    await delivery.stop();
+  });
+
+  test('dead-letters events that are never acked', async () => {
+    const delivery = new OutboxDelivery('p', outbox, { ackTimeoutMs: 20, maxAttempts: 2 }, async () => undefined);
+
+    await delivery.enqueue(event('a'));
+    await sleep(150);
+
+    expect(outbox.size).toBe(0);
+    expect(outbox.deadLetters()).toMatchObject([{ event: { eventId: 'a' }, attempts: 2, reason: 'No ack after 2 attempts' }]);
+    await delivery.stop();
+  });
+
+  test('holds events while the plugin is not running', async () => {
+    let running = false;
+    const sent: string[] = [];
+    const delivery = new OutboxDelivery('p', outbox, { ackTimeoutMs: 1000, maxAttempts: 1 }, payload => {
+      if (!running) {
+        return null;
+      }
+      sent.push(payload.eventId);
+      return Promise.resolve();
+    });
+
+    await delivery.enqueue(event('a'));
+    await delivery.enqueue(event('b'));
+    await delivery.flush();
+    expect(sent).toEqual([]);
+    expect(outbox.list().every(entry => entry.attempts === 0)).toBe(true);
+
+    running = true;
+    await delivery.flush();
+    expect(sent).toEqual(['a', 'b']);
+    await delivery.stop();
+  });
+});
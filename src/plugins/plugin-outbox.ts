@@ -0,0 +1,420 @@
+// Durable per-plugin outbox for at-least-once event delivery.
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { NotifyPayload } from './types.js';
+import logger from '../utils/logger.js';
+
+export interface OutboxEntry {
+  event: NotifyPayload;
+  attempts: number;
+  enqueuedAt: string;
+  lastAttemptAt?: string;
+}
+
+export interface DeadLetter {
+  event: NotifyPayload;
+  attempts: number;
+  reason: string;
+  deadAt: string;
+}
+
+export interface OutboxLimits {
+  /** Pending events kept; the oldest is dead-lettered beyond this (default 10000) */
+  maxPending: number;
+  /** Dead letters kept; the oldest is dropped beyond this (default 1000) */
+  maxDeadLetters: number;
+}
+
+const DEFAULT_LIMITS: OutboxLimits = { maxPending: 10_000, maxDeadLetters: 1_000 };
+
+/** Journal operations before the snapshot is rewritten, at the least */
+const MIN_COMPACT_OPS = 1_000;
+
+type JournalOp =
+  | { seq: number; op: 'enqueue'; event: NotifyPayload; at: string }
+  | { seq: number; op: 'attempt'; eventId: string; at: string }
+  | { seq: number; op: 'ack'; eventId: string }
+  | { seq: number; op: 'dead'; eventId: string; reason: string; at: string };
+
+// Distributes Omit over the union so each operation keeps its own fields
+type JournalInput = JournalOp extends infer Op ? (Op extends JournalOp ? Omit<Op, 'seq'> : never) : never;
+
+/**
+ * Pending and dead-lettered events of one plugin, persisted to disk
+ *
+ * Every change is appended to a journal (`<file>.journal`, one JSON line per
+ * operation) and fsynced before the call resolves, so events survive a host
+ * restart. Changes made while a write is in flight are appended together.
+ * Once the journal holds more operations than the outbox holds entries, the
+ * state is compacted into the snapshot file atomically (temp file, fsync,
+ * rename, like JsonFileStorage) and the journal starts over, which keeps the
+ * cost per operation constant. Writes are serialized; callers need not
+ * coordinate.
+ */
+export class PluginOutbox {
+  private pending: OutboxEntry[] = [];
+  private dead: DeadLetter[] = [];
+  private writes: Promise<void> = Promise.resolve();
+  private readonly limits: OutboxLimits;
+  private readonly journalPath: string;
+  /** Operations not yet appended to the journal */
+  private unwritten: string[] = [];
+  /** Sequence number of the last operation, and of the last one in the snapshot */
+  private seq = 0;
+  private snapshotSeq = 0;
+
+  constructor(
+    private readonly filePath: string,
+    limits: Partial<OutboxLimits> = {},
+  ) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+    this.journalPath = `${filePath}.journal`;
+  }
+
+  async load(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      this.pending = Array.isArray(parsed?.pending) ? parsed.pending : [];
+      this.dead = Array.isArray(parsed?.deadLetters) ? parsed.deadLetters : [];
+      this.snapshotSeq = Number.isInteger(parsed?.seq) ? parsed.seq : 0;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error({ error, filePath: this.filePath }, 'Failed to load plugin outbox');
+        throw error;
+      }
+    }
+    this.seq = this.snapshotSeq;
+
+    const replayed = await this.replayJournal();
+    if (replayed > 0) {
+      await this.enqueueWrite(() => this.compact());
+    }
+    logger.debug(
+      { filePath: this.filePath, pending: this.pending.length, deadLetters: this.dead.length, replayed },
+      'Plugin outbox loaded'
+    );
+  }
+
+  get size(): number {
+    return this.pending.length;
+  }
+
+  list(): OutboxEntry[] {
+    return [...this.pending];
+  }
+
+  deadLetters(): DeadLetter[] {
+    return [...this.dead];
+  }
+
+  async enqueue(event: NotifyPayload): Promise<void> {
+    await this.record({ op: 'enqueue', event, at: new Date().toISOString() });
+  }
+
+  /**
+   * Entries never sent, or sent longer than ackTimeoutMs ago without an ack
+   */
+  due(now: number, ackTimeoutMs: number): OutboxEntry[] {
+    return this.pending.filter(
+      entry => !entry.lastAttemptAt || Date.parse(entry.lastAttemptAt) + ackTimeoutMs <= now
+    );
+  }
+
+  /**
+   * When the next entry becomes due, if any are pending
+   */
+  nextDueAt(ackTimeoutMs: number): number | undefined {
+    const times = this.pending.map(entry =>
+      entry.lastAttemptAt ? Date.parse(entry.lastAttemptAt) + ackTimeoutMs : 0
+    );
+    return times.length > 0 ? Math.min(...times) : undefined;
+  }
+
+  async recordAttempt(eventId: string): Promise<void> {
+    if (this.indexOf(eventId) === -1) {
+      return;
+    }
+    await this.record({ op: 'attempt', eventId, at: new Date().toISOString() });
+  }
+
+  /**
+   * Remove an acknowledged event
+   *
+   * @returns false if the event is not pending (already acked or dead-lettered)
+   */
+  async ack(eventId: string): Promise<boolean> {
+    if (this.indexOf(eventId) === -1) {
+      return false;
+    }
+    await this.record({ op: 'ack', eventId });
+    return true;
+  }
+
+  async deadLetter(eventId: string, reason: string): Promise<void> {
+    if (this.indexOf(eventId) === -1) {
+      return;
+    }
+    await this.record({ op: 'dead', eventId, reason, at: new Date().toISOString() });
+  }
+
+  private indexOf(eventId: string): number {
+    return this.pending.findIndex(entry => entry.event.eventId === eventId);
+  }
+
+  /**
+   * Apply an operation to the in-memory state; used live and on replay
+   */
+  private apply(op: JournalOp): void {
+    this.seq = op.seq;
+    if (op.op === 'enqueue') {
+      this.pending.push({ event: op.event, attempts: 0, enqueuedAt: op.at });
+      while (this.pending.length > this.limits.maxPending) {
+        const [oldest] = this.pending.splice(0, 1);
+        this.bury(oldest, 'Outbox full', op.at);
+      }
+      return;
+    }
+
+    const index = this.indexOf(op.eventId);
+    if (index === -1) {
+      return;
+    }
+    if (op.op === 'attempt') {
+      this.pending[index].attempts++;
+      this.pending[index].lastAttemptAt = op.at;
+    } else if (op.op === 'ack') {
+      this.pending.splice(index, 1);
+    } else {
+      const [entry] = this.pending.splice(index, 1);
+      this.bury(entry, op.reason, op.at);
+    }
+  }
+
+  private bury(entry: OutboxEntry, reason: string, deadAt: string): void {
+    this.dead.push({ event: entry.event, attempts: entry.attempts, reason, deadAt });
+    if (this.dead.length > this.limits.maxDeadLetters) {
+      this.dead.splice(0, this.dead.length - this.limits.maxDeadLetters);
+    }
+  }
+
+  /**
+   * Apply an operation and resolve once it is durably journaled
+   */
+  private record(input: JournalInput): Promise<void> {
+    const op = { ...input, seq: this.seq + 1 } as JournalOp;
+    this.apply(op);
+    this.unwritten.push(JSON.stringify(op));
+    return this.enqueueWrite(() => this.appendJournal());
+  }
+
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.writes = this.writes.catch(() => {}).then(write);
+    return this.writes;
+  }
+
+  private async appendJournal(): Promise<void> {
+    // An earlier write may already have taken this caller's operation along
+    if (this.unwritten.length === 0) {
+      return;
+    }
+    const lines = this.unwritten.splice(0);
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const handle = await fs.open(this.journalPath, 'a');
+      try {
+        await handle.writeFile(`${lines.join('\n')}\n`, 'utf-8');
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      // Retried with the next write
+      this.unwritten.unshift(...lines);
+      throw error;
+    }
+
+    if (this.seq - this.snapshotSeq >= Math.max(MIN_COMPACT_OPS, this.pending.length + this.dead.length)) {
+      await this.compact();
+    }
+  }
+
+  /**
+   * Apply journaled operations newer than the snapshot
+   *
+   * A torn last line (crash mid-append) is skipped; that operation never
+   * resolved, so nobody relied on it.
+   */
+  private async replayJournal(): Promise<number> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.journalPath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return 0;
+      }
+      throw error;
+    }
+
+    let replayed = 0;
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      let op: JournalOp;
+      try {
+        op = JSON.parse(line);
+      } catch {
+        logger.warn({ journalPath: this.journalPath }, 'Skipping unreadable plugin outbox journal line');
+        continue;
+      }
+      // Operations already in the snapshot (crash between compaction and truncation)
+      if (op.seq > this.seq) {
+        this.apply(op);
+        replayed++;
+      }
+    }
+    return replayed;
+  }
+
+  /**
+   * Write the state to the snapshot file atomically, then empty the journal
+   */
+  private async compact(): Promise<void> {
+    const seq = this.seq;
+    const json = JSON.stringify({ seq, pending: this.pending, deadLetters: this.dead }, null, 2);
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(json, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, this.filePath);
+    await this.syncDirectory();
+
+    await fs.truncate(this.journalPath).catch((error: any) => {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    });
+    this.snapshotSeq = seq;
+    logger.debug({ filePath: this.filePath, seq, pending: this.pending.length }, 'Plugin outbox compacted');
+  }
+
+  /**
+   * Flush the directory entry so the rename itself survives a crash
+   * Best effort: some platforms do not allow fsync on directories
+   */
+  private async syncDirectory(): Promise<void> {
+    try {
+      const handle = await fs.open(path.dirname(this.filePath), 'r');
+      try {
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+    } catch (error: any) {
+      logger.debug({ error: error.message, filePath: this.filePath }, 'Directory fsync not supported');
+    }
+  }
+}
+
+export interface DeliveryOptions {
+  /** Time a plugin has to ack before the event is sent again */
+  ackTimeoutMs: number;
+  /** Deliveries without ack before the event is dead-lettered */
+  maxAttempts: number;
+}
+
+/**
+ * Delivers a plugin's outbox in order and redelivers unacked events
+ *
+ * Events are only counted as attempted once they were written to a running
+ * plugin; while the plugin is down they wait until flush() is called after
+ * it comes back.
+ */
+export class OutboxDelivery {
+  private timer?: NodeJS.Timeout;
+  private flushing: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(
+    private readonly name: string,
+    readonly outbox: PluginOutbox,
+    private readonly options: DeliveryOptions,
+    private readonly send: (event: NotifyPayload) => Promise<void> | null,
+  ) {}
+
+  async enqueue(event: NotifyPayload): Promise<void> {
+    await this.outbox.enqueue(event);
+    this.flush();
+  }
+
+  async ack(eventId: string): Promise<void> {
+    if (!(await this.outbox.ack(eventId))) {
+      logger.debug({ plugin: this.name, eventId }, 'Ack for unknown or already acknowledged event');
+    }
+  }
+
+  /**
+   * Send everything that is due; runs are serialized so events are not sent twice
+   */
+  flush(): Promise<void> {
+    this.flushing = this.flushing.then(() => this.flushOnce()).catch(error => {
+      logger.error({ plugin: this.name, error }, 'Plugin outbox delivery failed');
+    });
+    return this.flushing;
+  }
+
+  start(): void {
+    this.stopped = false;
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.flushing;
+  }
+
+  private async flushOnce(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (this.stopped) {
+      return;
+    }
+
+    const { ackTimeoutMs, maxAttempts } = this.options;
+    let failed = false;
+    for (const entry of this.outbox.due(Date.now(), ackTimeoutMs)) {
+      const { eventId } = entry.event;
+      if (entry.attempts >= maxAttempts) {
+        logger.warn({ plugin: this.name, eventId, attempts: entry.attempts }, 'Event dead-lettered without ack');
+        await this.outbox.deadLetter(eventId, `No ack after ${entry.attempts} attempts`);
+        continue;
+      }
+
+      const sending = this.send({ ...entry.event, requiresAck: true, attempt: entry.attempts + 1 });
+      if (!sending) {
+        // Plugin is not running; delivery resumes on the next flush after it starts
+        return;
+      }
+      try {
+        await sending;
+      } catch (error) {
+        logger.warn({ plugin: this.name, eventId, error }, 'Failed to deliver event; will retry');
+        failed = true;
+        break;
+      }
+      await this.outbox.recordAttempt(eventId);
+    }
+
+    const nextDueAt = failed ? Date.now() + ackTimeoutMs : this.outbox.nextDueAt(ackTimeoutMs);
+    if (nextDueAt !== undefined) {
+      this.timer = setTimeout(() => void this.flush(), Math.max(nextDueAt - Date.now(), 10));
+      this.timer.unref();
+    }
+  }
+}
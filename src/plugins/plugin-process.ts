@@ -2,15 +2,43 @@
  * Simplified plugin process manager using AbortController for unified timeout handling.
  * Maintains the "plugin-initiated handshake" pattern but with cleaner state management.
  */
-import type { HandshakePayload, NotifyPayload, PluginConfig, PluginHandle } from './types.js';
+import type {
+  HandshakePayload,
+  HostCapability,
+  NotifyPayload,
+  PluginConfig,
+  PluginHandle,
+  PluginHost,
+  PluginHttpRequest,
+  PluginHttpResponse,
+  PluginEventFilter,
+  PluginLogLevel,
+  PluginRouteDeclaration,
+  PluginRuntime,
+  PluginStopResult,
+  StopOutcome,
+} from './types.js';
 import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process';
+import { createInterface } from 'node:readline';
+import type { Readable } from 'node:stream';
 import {
+  CancellationTokenSource,
   createMessageConnection,
   StreamMessageReader,
   StreamMessageWriter,
   MessageConnection,
 } from 'vscode-jsonrpc/node';
-import { handshakeRequest, notifyEvent } from './types.js';
+import { ackEvent, handshakeRequest, httpRequest, notifyEvent, shutdownRequest } from './types.js';
+import { normalizeRoutes, PluginRequestError } from './plugin-routes.js';
+import { collectFilters } from './event-filter.js';
+import { negotiateCapabilities, registerHostHandlers } from './host-rpc.js';
+import {
+  buildPluginEnv,
+  DEFAULT_MAX_MESSAGE_BYTES,
+  MessageSizeGuard,
+  resolvePluginCwd,
+  wrapWithLimits,
+} from './sandbox.js';
 import logger from '../utils/logger.js';
 import { EventType } from '../types/index.js';
 
@@ -18,12 +46,68 @@ export interface PluginProcessOptions {
   hostVersion?: string;
   /** Callback for notifications received from the plugin */
   onNotification?: (method: string, params: unknown) => void;
+  /** Callback when the process exits after a successful handshake (not via stop()) */
+  onExit?: (code: number | null, signal: NodeJS.Signals | null) => void;
+  /** Services answering host/* requests; without it those requests are not handled */
+  host?: PluginHost;
+  /** Callback for `ack` notifications of at-least-once deliveries */
+  onAck?: (eventId: string) => void;
+  /** Root the plugin's working directory is confined to */
+  sandboxDir?: string;
+}
+
+const hasExited = (child: ChildProcessWithoutNullStreams) => child.exitCode !== null || child.signalCode !== null;
+
+/**
+ * Resolve true once the child has exited, or false after timeoutMs.
+ */
+function waitForExit(child: ChildProcessWithoutNullStreams, timeoutMs: number): Promise<boolean> {
+  if (hasExited(child)) {
+    return Promise.resolve(true);
+  }
+  return new Promise(resolve => {
+    const onExit = () => {
+      clearTimeout(timeoutId);
+      resolve(true);
+    };
+    const timeoutId = setTimeout(() => {
+      child.off('exit', onExit);
+      resolve(false);
+    }, Math.max(timeoutMs, 0));
+    timeoutId.unref();
+    child.once('exit', onExit);
+  });
+}
+
+const LOG_LEVELS: PluginLogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Log a plugin's stderr line by line, which also keeps the pipe from filling up.
+ * JSON lines with a level and msg (as written by the SDK logger) keep their level and fields.
+ */
+function forwardStderr(plugin: string, stderr: Readable): void {
+  createInterface({ input: stderr, crlfDelay: Infinity }).on('line', line => {
+    if (line.startsWith('{')) {
+      try {
+        const { level, msg, ...fields } = JSON.parse(line);
+        if (LOG_LEVELS.includes(level) && typeof msg === 'string') {
+          logger[level as PluginLogLevel]({ ...fields, plugin }, msg);
+          return;
+        }
+      } catch {
+        // Not a structured line; logged as text below
+      }
+    }
+    logger.info({ plugin }, line);
+  });
 }
 
-export class PluginProcess {
+export class PluginProcess implements PluginRuntime {
   private childProcess: ChildProcessWithoutNullStreams | null = null;
   private connection: MessageConnection | null = null;
   private abortController: AbortController | null = null;
+  private stopping = false;
+  private capabilities = new Set<HostCapability>();
 
   constructor(
     private readonly config: PluginConfig,
@@ -42,7 +126,8 @@ export class PluginProcess {
 
     try {
       // 1. Spawn process
-      this.childProcess = this.spawnProcess();
+      const cwd = await resolvePluginCwd(this.config, this.options.sandboxDir);
+      this.childProcess = this.spawnProcess(cwd);
 
       // 2. Create JSON-RPC connection
       this.connection = this.createConnection(this.childProcess);
@@ -51,7 +136,10 @@ export class PluginProcess {
       // 3. Wait for handshake from plugin with timeout
       const handshakeInfo = await this.waitForHandshake(signal);
 
-      // 4. Create handle
+      // 4. Watch for unexpected exits from now on
+      this.watchExit(this.childProcess);
+
+      // 5. Create handle
       const handle = this.createHandle(this.childProcess, this.connection, handshakeInfo);
       started = true;
       return handle;
@@ -70,14 +158,35 @@ export class PluginProcess {
 
   /**
    * Stop the plugin process and clean up resources.
+   * Sends a `shutdown` request first, then escalates to SIGTERM and SIGKILL.
    */
-  async stop(): Promise<void> {
+  async stop(): Promise<PluginStopResult> {
+    this.stopping = true;
+    const startedAt = Date.now();
+
     // Signal any pending operations to abort
     if (this.abortController) {
       this.abortController.abort();
     }
 
+    const child = this.childProcess;
+    let outcome: StopOutcome = 'not-running';
+    if (child && !hasExited(child)) {
+      outcome = (await this.requestShutdown(child)) ? 'graceful' : await this.terminate(child);
+    }
+
     await this.cleanup();
+
+    const result: PluginStopResult = {
+      name: this.config.name,
+      outcome,
+      clean: outcome !== 'killed',
+      exitCode: child?.exitCode ?? null,
+      signal: child?.signalCode ?? null,
+      durationMs: Date.now() - startedAt,
+    };
+    logger.info(result, 'Plugin stopped');
+    return result;
   }
 
   /**
@@ -90,27 +199,80 @@ export class PluginProcess {
     await this.connection.sendNotification(notifyEvent, event);
   }
 
+  /**
+   * Forward an HTTP request to the plugin; the request is cancelled after timeoutMs.
+   */
+  async sendHttpRequest(request: PluginHttpRequest, timeoutMs: number): Promise<PluginHttpResponse> {
+    if (!this.connection) {
+      throw new PluginRequestError('unavailable', `Plugin ${this.config.name} is not connected`);
+    }
+
+    const cancellation = new CancellationTokenSource();
+    let timeoutId: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        cancellation.cancel();
+        reject(new PluginRequestError('timeout', `Plugin ${this.config.name} did not respond within ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([
+        this.connection.sendRequest(httpRequest, request, cancellation.token),
+        timeout,
+      ]);
+    } catch (error) {
+      if (error instanceof PluginRequestError) {
+        throw error;
+      }
+      throw new PluginRequestError('plugin-error', error instanceof Error ? error.message : String(error));
+    } finally {
+      clearTimeout(timeoutId);
+      cancellation.dispose();
+    }
+  }
+
   /**
    * Check if plugin is still running.
    */
   isRunning(): boolean {
-    return this.childProcess !== null && !this.childProcess.killed;
+    return this.childProcess !== null && !this.childProcess.killed && this.childProcess.exitCode === null;
+  }
+
+  /**
+   * PID of the running plugin process, if any.
+   */
+  get pid(): number | undefined {
+    return this.childProcess?.pid;
   }
 
   // ========== Private Methods ==========
 
-  private spawnProcess(): ChildProcessWithoutNullStreams {
+  private spawnProcess(cwd: string | undefined): ChildProcessWithoutNullStreams {
+    const { limits = {} } = this.config;
+    if (!this.config.command) {
+      throw new Error(`Plugin ${this.config.name} has no command`);
+    }
     logger.info(
-      { plugin: this.config.name, command: this.config.command, args: this.config.args },
+      { plugin: this.config.name, command: this.config.command, args: this.config.args, cwd, limits },
       'Spawning plugin process'
     );
+    if ((limits.cpuSeconds !== undefined || limits.memoryMb !== undefined) && process.platform === 'win32') {
+      logger.warn({ plugin: this.config.name }, 'Plugin resource limits are not supported on Windows');
+    }
 
-    const child = spawn(this.config.command, this.config.args ?? [], {
+    // Only allowlisted variables reach the plugin, so host credentials stay in the host
+    const { command, args } = wrapWithLimits(this.config.command, this.config.args ?? [], limits);
+    const child = spawn(command, args, {
       stdio: ['pipe', 'pipe', 'pipe'],
-      cwd: this.config.cwd,
-      env: { ...process.env, ...this.config.env },
+      cwd,
+      env: buildPluginEnv(this.config),
+      uid: this.config.uid,
+      gid: this.config.gid,
     }) as ChildProcessWithoutNullStreams;
 
+    forwardStderr(this.config.name, child.stderr);
+
     // Suppress EPIPE errors on stdin (expected when process exits unexpectedly)
     child.stdin.on('error', (err: NodeJS.ErrnoException) => {
       if (err.code !== 'EPIPE') {
@@ -122,8 +284,17 @@ export class PluginProcess {
   }
 
   private createConnection(child: ChildProcessWithoutNullStreams): MessageConnection {
+    const maxBytes = this.config.limits?.maxMessageBytes ?? DEFAULT_MAX_MESSAGE_BYTES;
+    const guard = new MessageSizeGuard(maxBytes, size => {
+      logger.warn({ plugin: this.config.name, size, maxBytes }, 'Dropped oversized message from plugin');
+    });
+    guard.on('error', error => {
+      logger.error({ plugin: this.config.name, error }, 'Malformed message stream from plugin; terminating');
+      child.kill('SIGKILL');
+    });
+
     const connection = createMessageConnection(
-      new StreamMessageReader(child.stdout),
+      new StreamMessageReader(child.stdout.pipe(guard)),
       new StreamMessageWriter(child.stdin)
     );
 
@@ -134,6 +305,16 @@ export class PluginProcess {
       this.options.onNotification?.(method, params);
     });
 
+    connection.onNotification(ackEvent, params => {
+      if (typeof params?.eventId === 'string') {
+        this.options.onAck?.(params.eventId);
+      }
+    });
+
+    if (this.options.host) {
+      registerHostHandlers(connection, this.options.host, this.config.name, () => this.capabilities);
+    }
+
     return connection;
   }
 
@@ -143,6 +324,9 @@ export class PluginProcess {
   private async waitForHandshake(signal: AbortSignal): Promise<{
     pluginVersion: string;
     events: Array<EventType | '*'>;
+    routes: PluginRouteDeclaration[];
+    capabilities: HostCapability[];
+    filters: PluginEventFilter[];
   }> {
     if (!this.childProcess || !this.connection) {
       throw new Error('Process or connection not initialized');
@@ -187,50 +371,155 @@ export class PluginProcess {
         signal.removeEventListener('abort', onAbort);
         this.childProcess!.off('exit', onExit);
 
+        const { routes, rejected } = normalizeRoutes(params.routes);
+        if (rejected.length > 0) {
+          logger.warn({ plugin: this.config.name, rejected }, 'Ignoring invalid plugin route declarations');
+        }
+        const { capabilities, denied } = negotiateCapabilities(params.capabilities, this.config.capabilities);
+        if (denied.length > 0) {
+          logger.warn({ plugin: this.config.name, denied }, 'Plugin requested capabilities that are not granted');
+        }
+        this.capabilities = new Set(capabilities);
+        const filters = collectFilters(this.config.name, this.config.filter, params.filter);
+
         // Resolve with plugin info
         resolve({
           pluginVersion: params.pluginVersion ?? 'unknown',
           events: params.events ?? ['*'],
+          routes,
+          capabilities,
+          filters,
         });
 
         // Return response to plugin
-        return { hostVersion: this.options.hostVersion ?? '0.0.0' };
+        return { hostVersion: this.options.hostVersion ?? '0.0.0', capabilities };
       });
     });
   }
 
+  /**
+   * Report exits after the handshake; the connection is disposed so
+   * notifications fail fast instead of writing to a dead pipe.
+   */
+  private watchExit(child: ChildProcessWithoutNullStreams): void {
+    child.once('exit', (code, signalName) => {
+      if (this.stopping || this.childProcess !== child) {
+        return;
+      }
+      logger.warn({ plugin: this.config.name, code, signal: signalName }, 'Plugin process exited unexpectedly');
+      this.connection?.dispose();
+      this.connection = null;
+      this.childProcess = null;
+      this.options.onExit?.(code, signalName);
+    });
+  }
+
   private createHandle(
     child: ChildProcessWithoutNullStreams,
     connection: MessageConnection,
-    handshakeInfo: { pluginVersion: string; events: Array<EventType | '*'> }
+    handshakeInfo: {
+      pluginVersion: string;
+      events: Array<EventType | '*'>;
+      routes: PluginRouteDeclaration[];
+      capabilities: HostCapability[];
+      filters: PluginEventFilter[];
+    }
   ): PluginHandle {
     return {
       name: this.config.name,
+      kind: 'process',
       subscribedEvents: new Set(handshakeInfo.events),
+      filters: handshakeInfo.filters,
       handshake: {
         pluginName: this.config.name,
         pluginVersion: handshakeInfo.pluginVersion,
         events: handshakeInfo.events,
       },
+      routes: handshakeInfo.routes,
+      capabilities: new Set(handshakeInfo.capabilities),
       child,
       connection,
     };
   }
 
+  /**
+   * Ask the plugin to shut down and wait for it to exit within the grace period.
+   * Plugins that do not handle `shutdown` answer MethodNotFound and are terminated right away.
+   */
+  private async requestShutdown(child: ChildProcessWithoutNullStreams): Promise<boolean> {
+    if (!this.connection) {
+      return false;
+    }
+
+    const graceMs = this.config.shutdownTimeoutMs ?? 5000;
+    const deadline = Date.now() + graceMs;
+    let timeoutId: NodeJS.Timeout | undefined;
+    const reply = await Promise.race([
+      this.connection.sendRequest(shutdownRequest).then(
+        () => 'replied' as const,
+        (error: unknown) => {
+          logger.debug({ plugin: this.config.name, error }, 'Plugin did not accept shutdown request');
+          return 'rejected' as const;
+        }
+      ),
+      waitForExit(child, graceMs).then(exited => (exited ? ('exited' as const) : ('timeout' as const))),
+      new Promise<'timeout'>(resolve => {
+        timeoutId = setTimeout(() => resolve('timeout'), graceMs);
+      }),
+    ]);
+    clearTimeout(timeoutId);
+
+    if (reply === 'exited') {
+      return true;
+    }
+    if (reply !== 'replied') {
+      if (reply === 'timeout') {
+        logger.warn({ plugin: this.config.name, graceMs }, 'Plugin did not answer shutdown request in time');
+      }
+      return false;
+    }
+
+    // The plugin is done; closing stdin lets it exit on EOF
+    this.connection?.dispose();
+    this.connection = null;
+    child.stdin.end();
+
+    if (await waitForExit(child, deadline - Date.now())) {
+      return true;
+    }
+    logger.warn({ plugin: this.config.name, graceMs }, 'Plugin did not exit after shutdown');
+    return false;
+  }
+
+  /**
+   * SIGTERM, then SIGKILL if the process is still alive after killTimeoutMs.
+   */
+  private async terminate(child: ChildProcessWithoutNullStreams): Promise<StopOutcome> {
+    const killTimeoutMs = this.config.killTimeoutMs ?? 2000;
+
+    child.kill('SIGTERM');
+    if (await waitForExit(child, killTimeoutMs)) {
+      return 'terminated';
+    }
+
+    logger.warn({ plugin: this.config.name, killTimeoutMs }, 'Plugin ignored SIGTERM; sending SIGKILL');
+    child.kill('SIGKILL');
+    await waitForExit(child, killTimeoutMs);
+    return 'killed';
+  }
+
   private async cleanup(): Promise<void> {
+    // Kill process if still running (start failures skip the shutdown request)
+    if (this.childProcess && !hasExited(this.childProcess)) {
+      await this.terminate(this.childProcess);
+    }
+
     // Dispose connection
     if (this.connection) {
       this.connection.dispose();
       this.connection = null;
     }
 
-    // Kill process if still running
-    if (this.childProcess && !this.childProcess.killed) {
-      this.childProcess.kill();
-      // Wait a moment for process to exit
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-
     this.childProcess = null;
     this.abortController = null;
   }
@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'vitest';
+import { matchRoute, normalizeRoutes } from './plugin-routes.js';
+
+describe('normalizeRoutes', () => {
+  test('keeps valid declarations and rejects malformed ones', () => {
+    const { routes, rejected } = normalizeRoutes([
+      { method: 'get', path: '/items/:id/' },
+      { method: 'POST', path: '/items', timeoutMs: 500, scope: 'sync:trigger' },
+      { method: 'TRACE', path: '/trace' },
+      { method: 'GET', path: 'relative' },
+      { method: 'GET', path: '/slow', timeoutMs: -1 },
+      { method: 'GET', path: '/scoped', scope: 'root' },
+      null,
+    ]);
+
+    expect(routes).toEqual([
+      { method: 'GET', path: '/items/:id', timeoutMs: undefined, scope: undefined },
+      { method: 'POST', path: '/items', timeoutMs: 500, scope: 'sync:trigger' },
+    ]);
+    expect(rejected).toHaveLength(5);
+  });
+
+  test('treats a missing declaration as no routes', () => {
+    expect(normalizeRoutes(undefined)).toEqual({ routes: [], rejected: [] });
+  });
+});
+
+describe('matchRoute', () => {
+  const { routes } = normalizeRoutes([
+    { method: 'GET', path: '/items' },
+    { method: 'GET', path: '/items/:id' },
+    { method: 'PUT', path: '/items/:id/tags/:tag' },
+  ]);
+
+  test('matches static and parameterised paths', () => {
+    expect(matchRoute(routes, 'GET', '/items')?.route.path).toBe('/items');
+    expect(matchRoute(routes, 'get', '/items/a b/')).toEqual({
+      route: routes[1],
+      params: { id: 'a b' },
+    });
+    expect(matchRoute(routes, 'PUT', '/items/1/tags/x')?.params).toEqual({ id: '1', tag: 'x' });
+  });
+
+  test('does not decode the already decoded path again', () => {
+    expect(matchRoute(routes, 'GET', '/items/100%')?.params).toEqual({ id: '100%' });
+    expect(matchRoute(routes, 'GET', '/items/%41')?.params).toEqual({ id: '%41' });
+  });
+
+  test('returns null when method or path does not match', () => {
+    expect(matchRoute(routes, 'POST', '/items')).toBeNull();
+    expect(matchRoute(routes, 'GET', '/items/1/extra')).toBeNull();
+    expect(matchRoute(routes, 'GET', '/')).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+// Validation and matching of HTTP routes declared by plugins in the handshake.
+import type { PluginHttpMethod, PluginRouteDeclaration } from './types.js';
+import { API_SCOPES } from '../api/token-store.js';
+
+const METHODS: PluginHttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export interface RouteMatch {
+  route: PluginRouteDeclaration;
+  params: Record<string, string>;
+}
+
+const splitPath = (path: string): string[] => path.split('/').filter(segment => segment.length > 0);
+
+/**
+ * Keep well-formed declarations; returns the rejected ones so the caller can log them.
+ */
+export function normalizeRoutes(declared: unknown): {
+  routes: PluginRouteDeclaration[];
+  rejected: unknown[];
+} {
+  const routes: PluginRouteDeclaration[] = [];
+  const rejected: unknown[] = [];
+
+  for (const entry of Array.isArray(declared) ? declared : []) {
+    const method = typeof entry?.method === 'string' ? entry.method.toUpperCase() : undefined;
+    const valid =
+      METHODS.includes(method) &&
+      typeof entry.path === 'string' &&
+      entry.path.startsWith('/') &&
+      (entry.timeoutMs === undefined || (Number.isInteger(entry.timeoutMs) && entry.timeoutMs > 0)) &&
+      (entry.scope === undefined || API_SCOPES.includes(entry.scope));
+
+    if (!valid) {
+      rejected.push(entry);
+      continue;
+    }
+    routes.push({
+      method,
+      path: `/${splitPath(entry.path).join('/')}`,
+      timeoutMs: entry.timeoutMs,
+      scope: entry.scope,
+    });
+  }
+
+  return { routes, rejected };
+}
+
+/**
+ * Find the first declared route matching method and path, extracting `:param` segments.
+ * The path is expected already decoded (Fastify decodes route params), so
+ * segments are taken as they are.
+ */
+export function matchRoute(
+  routes: PluginRouteDeclaration[],
+  method: string,
+  path: string,
+): RouteMatch | null {
+  const segments = splitPath(path);
+
+  for (const route of routes) {
+    if (route.method !== method.toUpperCase()) {
+      continue;
+    }
+    const pattern = splitPath(route.path);
+    if (pattern.length !== segments.length) {
+      continue;
+    }
+
+    const params: Record<string, string> = {};
+    const matched = pattern.every((part, index) => {
+      if (part.startsWith(':')) {
+        params[part.slice(1)] = segments[index];
+        return true;
+      }
+      return part === segments[index];
+    });
+    if (matched) {
+      return { route, params };
+    }
+  }
+
+  return null;
+}
+
+export type PluginRequestErrorCode = 'not-found' | 'unavailable' | 'timeout' | 'plugin-error';
+
+/**
+ * Failure of a proxied plugin HTTP request; the code decides the HTTP status.
+ */
+export class PluginRequestError extends Error {
+  constructor(
+    readonly code: PluginRequestErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'PluginRequestError';
+  }
+}
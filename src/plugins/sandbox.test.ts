@@ -0,0 +1,130 @@
+import path from 'node:path';
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { fileURLToPath } from 'node:url';
+import { afterEach, describe, expect, test } from 'vitest';
+import { PluginManager } from './plugin-manager.js';
+import { buildPluginEnv, MessageSizeGuard, resolvePluginCwd, wrapWithLimits } from './sandbox.js';
+import type { PluginConfig } from './types.js';
+
+const fixture = (name: string) =>
+  path.resolve(path.dirname(fileURLToPath(import.meta.url)), 'test-fixtures', name);
+
+const frame = (body: string) => `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`;
+
+describe('buildPluginEnv', () => {
+  const hostEnv = {
+    PATH: '/usr/bin',
+    HOME: '/home/host',
+    COUCHDB_URL: 'http://couch',
+    COUCHDB_PASSWORD: 'hunter2',
+    COUCHDB_PASSPHRASE: 'e2ee',
+    MY_PLUGIN_MODE: 'fast',
+  };
+
+  test('passes only the base allowlist and config.env by default', () => {
+    expect(buildPluginEnv({ env: { FOO: 'bar' } }, hostEnv)).toEqual({ PATH: '/usr/bin', HOME: '/home/host', FOO: 'bar' });
+  });
+
+  test('wildcards never match secrets; exact names do', () => {
+    expect(buildPluginEnv({ envAllowlist: ['COUCHDB_*'] }, hostEnv)).not.toHaveProperty('COUCHDB_PASSWORD');
+    expect(buildPluginEnv({ envAllowlist: ['COUCHDB_*'] }, hostEnv)).toHaveProperty('COUCHDB_URL', 'http://couch');
+    expect(buildPluginEnv({ envAllowlist: ['COUCHDB_PASSWORD', 'MY_PLUGIN_MODE'] }, hostEnv)).toMatchObject({
+      COUCHDB_PASSWORD: 'hunter2',
+      MY_PLUGIN_MODE: 'fast',
+    });
+  });
+});
+
+describe('resolvePluginCwd', () => {
+  const roots: string[] = [];
+  afterEach(() => {
+    roots.splice(0).forEach(root => rmSync(root, { recursive: true, force: true }));
+  });
+
+  test('confines the working directory to the sandbox root', async () => {
+    const root = mkdtempSync(path.join(tmpdir(), 'plugin-sandbox-'));
+    roots.push(root);
+
+    expect(await resolvePluginCwd({ name: 'p', cwd: '/srv/p' })).toBe('/srv/p');
+    const cwd = await resolvePluginCwd({ name: 'p' }, root);
+    expect(cwd).toBe(path.join(root, 'p'));
+    expect(existsSync(cwd!)).toBe(true);
+    await expect(resolvePluginCwd({ name: 'p', cwd: '../escape' }, root)).rejects.toThrow(/outside the sandbox root/);
+    await expect(resolvePluginCwd({ name: 'p', cwd: '/etc' }, root)).rejects.toThrow(/outside the sandbox root/);
+  });
+});
+
+describe('wrapWithLimits', () => {
+  test('runs the command through ulimit when limits are set', () => {
+    expect(wrapWithLimits('node', ['p.js'])).toEqual({ command: 'node', args: ['p.js'] });
+    expect(wrapWithLimits('node', ['p.js'], { cpuSeconds: 10, memoryMb: 512 }, 'linux')).toEqual({
+      command: '/bin/sh',
+      args: ['-c', 'ulimit -t 10 && ulimit -v 524288 && exec "$0" "$@"', 'node', 'p.js'],
+    });
+    expect(wrapWithLimits('node', [], { cpuSeconds: 10 }, 'win32')).toEqual({ command: 'node', args: [] });
+  });
+});
+
+describe('MessageSizeGuard', () => {
+  test('drops oversized messages and passes the rest through, across chunk boundaries', async () => {
+    const dropped: number[] = [];
+    const guard = new MessageSizeGuard(10, size => dropped.push(size));
+    const output: Buffer[] = [];
+    guard.on('data', chunk => output.push(chunk));
+
+    const input = Buffer.from(frame('"small"') + frame('"much too large"') + frame('"ok"'));
+    for (let i = 0; i < input.length; i += 7) {
+      guard.write(input.subarray(i, i + 7));
+    }
+    guard.end();
+    await new Promise(resolve => guard.on('end', resolve));
+
+    expect(Buffer.concat(output).toString()).toBe(frame('"small"') + frame('"ok"'));
+    expect(dropped).toEqual([16]);
+  });
+});
+
+describe('sandboxed plugin process', () => {
+  let root: string;
+  afterEach(() => rmSync(root, { recursive: true, force: true }));
+
+  test('starts with a minimal env in the jail, applies rlimits and drops oversized messages', async () => {
+    root = mkdtempSync(path.join(tmpdir(), 'plugin-sandbox-'));
+    process.env.SANDBOX_TEST_PASSWORD = 'secret';
+    const config: PluginConfig = {
+      name: 'probe',
+      command: process.execPath,
+      args: [fixture('plugin-sandbox-probe.js')],
+      env: { OVERSIZED_BYTES: String(64 * 1024) },
+      envAllowlist: ['SANDBOX_TEST_*'],
+      limits: { cpuSeconds: 30, maxMessageBytes: 32 * 1024 },
+    };
+    const manager = new PluginManager([config], { sandboxDir: root });
+    const methods: string[] = [];
+    const probe = new Promise<any>(resolve => {
+      manager.onPluginNotification((_plugin, method, params) => {
+        methods.push(method);
+        if (method === 'probe') {
+          resolve(params);
+        }
+      });
+    });
+
+    try {
+      await manager.startAll();
+      const { env, cwd, limits } = await probe;
+
+      expect(env).not.toHaveProperty('SANDBOX_TEST_PASSWORD');
+      expect(env).toHaveProperty('OVERSIZED_BYTES');
+      expect(cwd).toBe(path.join(root, 'probe'));
+      if (limits !== null) {
+        expect(limits).toMatch(/Max cpu time\s+30\s+30/);
+      }
+      expect(methods).toEqual(['probe']);
+    } finally {
+      delete process.env.SANDBOX_TEST_PASSWORD;
+      await manager.stopAll();
+    }
+  });
+});
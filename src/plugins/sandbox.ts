@@ -0,0 +1,154 @@
+// Process sandboxing for plugins: minimal environment, working directory jail,
+// resource limits and a size cap on messages read from the plugin.
+import { mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { Transform, type TransformCallback } from 'node:stream';
+import type { PluginConfig, PluginLimits } from './types.js';
+
+/** Host variables every plugin gets; none of them carries credentials */
+export const BASE_ENV_ALLOWLIST = ['PATH', 'HOME', 'LANG', 'TZ', 'TMPDIR'];
+
+export const DEFAULT_MAX_MESSAGE_BYTES = 4 * 1024 * 1024;
+
+const SECRET_NAME = /PASSWORD|PASSPHRASE|SECRET|TOKEN|API_KEY|CREDENTIAL/i;
+
+/**
+ * Whether an env var name looks like it holds a credential
+ */
+export function isSecretEnvName(name: string): boolean {
+  return SECRET_NAME.test(name);
+}
+
+function matches(pattern: string, name: string): boolean {
+  if (pattern.endsWith('*')) {
+    // Wildcards never grant secrets; those must be listed by exact name
+    return name.startsWith(pattern.slice(0, -1)) && !isSecretEnvName(name);
+  }
+  return pattern === name;
+}
+
+/**
+ * Environment for a plugin process: the base allowlist, host variables the
+ * config lists in envAllowlist (exact names or `PREFIX_*`), then config.env.
+ */
+export function buildPluginEnv(
+  config: Pick<PluginConfig, 'env' | 'envAllowlist'>,
+  hostEnv: NodeJS.ProcessEnv = process.env,
+): Record<string, string> {
+  const patterns = [...BASE_ENV_ALLOWLIST, ...(config.envAllowlist ?? [])];
+  const env: Record<string, string> = {};
+  for (const [name, value] of Object.entries(hostEnv)) {
+    if (value !== undefined && patterns.some(pattern => matches(pattern, name))) {
+      env[name] = value;
+    }
+  }
+  return { ...env, ...config.env };
+}
+
+/**
+ * Working directory for a plugin. With a sandbox root, the plugin runs in
+ * `<root>/<name>` (or config.cwd resolved against the root) and may not
+ * point outside it; the directory is created if missing.
+ */
+export async function resolvePluginCwd(
+  config: Pick<PluginConfig, 'name' | 'cwd'>,
+  sandboxRoot?: string,
+): Promise<string | undefined> {
+  if (!sandboxRoot) {
+    return config.cwd;
+  }
+
+  const root = path.resolve(sandboxRoot);
+  const cwd = path.resolve(root, config.cwd ?? config.name);
+  const relative = path.relative(root, cwd);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Plugin ${config.name} cwd ${cwd} is outside the sandbox root ${root}`);
+  }
+  await mkdir(cwd, { recursive: true });
+  return cwd;
+}
+
+/**
+ * Apply CPU and memory rlimits by starting the plugin through `sh -c ulimit ...; exec`.
+ * Not available on Windows, where the command is returned unchanged.
+ */
+export function wrapWithLimits(
+  command: string,
+  args: string[],
+  limits: PluginLimits = {},
+  platform: NodeJS.Platform = process.platform,
+): { command: string; args: string[] } {
+  const ulimits: string[] = [];
+  if (limits.cpuSeconds !== undefined) {
+    ulimits.push(`ulimit -t ${Math.ceil(limits.cpuSeconds)}`);
+  }
+  if (limits.memoryMb !== undefined) {
+    ulimits.push(`ulimit -v ${Math.ceil(limits.memoryMb * 1024)}`);
+  }
+  if (ulimits.length === 0 || platform === 'win32') {
+    return { command, args };
+  }
+  // "$0" "$@" keeps the command and its arguments out of shell parsing
+  return { command: '/bin/sh', args: ['-c', `${ulimits.join(' && ')} && exec "$0" "$@"`, command, ...args] };
+}
+
+/**
+ * Pass-through for a JSON-RPC byte stream (Content-Length framing) that drops
+ * messages whose body exceeds maxBytes instead of buffering them.
+ */
+export class MessageSizeGuard extends Transform {
+  private header = Buffer.alloc(0);
+  private remaining = 0;
+  private skipping = false;
+
+  constructor(
+    private readonly maxBytes: number,
+    private readonly onOversized: (size: number) => void,
+  ) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    let data = chunk;
+    while (data.length > 0) {
+      if (this.remaining > 0) {
+        const body = data.subarray(0, this.remaining);
+        if (!this.skipping) {
+          this.push(body);
+        }
+        this.remaining -= body.length;
+        data = data.subarray(body.length);
+        continue;
+      }
+
+      this.header = Buffer.concat([this.header, data]);
+      data = Buffer.alloc(0);
+      const end = this.header.indexOf('\r\n\r\n');
+      if (end === -1) {
+        if (this.header.length > 8192) {
+          callback(new Error('Plugin message header too large'));
+          return;
+        }
+        break;
+      }
+
+      const headerBytes = this.header.subarray(0, end + 4);
+      data = this.header.subarray(end + 4);
+      this.header = Buffer.alloc(0);
+
+      const length = /Content-Length:\s*(\d+)/i.exec(headerBytes.toString('ascii'));
+      if (!length) {
+        callback(new Error('Plugin message without Content-Length header'));
+        return;
+      }
+      this.remaining = Number(length[1]);
+      this.skipping = this.remaining > this.maxBytes;
+      if (this.skipping) {
+        this.onOversized(this.remaining);
+      } else {
+        this.push(headerBytes);
+      }
+    }
+    callback();
+  }
+}
@@ -0,0 +1,141 @@
+import { PassThrough } from 'node:stream';
+import { afterEach, describe, expect, test } from 'vitest';
+import {
+  createMessageConnection,
+  NotificationType,
+  StreamMessageReader,
+  StreamMessageWriter,
+  type MessageConnection,
+} from 'vscode-jsonrpc/node';
+import { definePlugin } from './sdk.js';
+import { ackEvent, handshakeRequest, hostGetStatus, httpRequest, notifyEvent, shutdownRequest } from './types.js';
+import type { HandshakePayload } from './types.js';
+import { EventType } from '../types/index.js';
+
+const seenEvent = new NotificationType<{ type: EventType; path?: string; attempt?: number }>('seen');
+
+describe('definePlugin', () => {
+  let host: MessageConnection;
+  afterEach(() => host.dispose());
+
+  // Host side of an in-memory connection; answers the handshake and records what the plugin sends
+  function connect(capabilities: string[] = []) {
+    const hostToPlugin = new PassThrough();
+    const pluginToHost = new PassThrough();
+    const stderr = new PassThrough();
+    host = createMessageConnection(new StreamMessageReader(pluginToHost), new StreamMessageWriter(hostToPlugin));
+
+    const received = { handshake: undefined as HandshakePayload | undefined, acks: [] as string[], seen: [] as unknown[] };
+    host.onRequest(handshakeRequest, params => {
+      received.handshake = params;
+      return { hostVersion: '1.2.3', capabilities: capabilities as any };
+    });
+    host.onRequest(hostGetStatus, () => ({ isRunning: false, lastSyncTime: null, lastSyncSuccess: true, documentsCount: 7 }));
+    host.onNotification(ackEvent, params => received.acks.push(params.eventId));
+    host.onNotification(seenEvent, params => received.seen.push(params));
+    host.listen();
+
+    const logs: any[] = [];
+    stderr.on('data', chunk => logs.push(...chunk.toString().trim().split('\n').map((line: string) => JSON.parse(line))));
+    return { received, logs, options: { input: hostToPlugin, output: pluginToHost, stderr } };
+  }
+
+  const waitFor = async (predicate: () => boolean, timeoutMs = 2000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!predicate()) {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  test('performs the handshake with declared events, routes and capabilities', async () => {
+    const { received, options } = connect(['status:read']);
+    const ctx = await definePlugin({
+      name: 'sdk-plugin',
+      version: '2.0.0',
+      events: [EventType.NoteUpserted],
+      capabilities: ['status:read', 'sync:trigger'],
+      routes: [{ method: 'GET', path: '/status', timeoutMs: 1000, handler: () => ({ body: 'ok' }) }],
+    }).start(options);
+
+    expect(received.handshake).toEqual({
+      pluginName: 'sdk-plugin',
+      pluginVersion: '2.0.0',
+      events: [EventType.NoteUpserted],
+      routes: [{ method: 'GET', path: '/status', timeoutMs: 1000 }],
+      capabilities: ['status:read', 'sync:trigger'],
+    });
+    expect(ctx.capabilities).toEqual(['status:read']);
+    expect(ctx.hostVersion).toBe('1.2.3');
+    expect(await ctx.host.getStatus()).toMatchObject({ documentsCount: 7 });
+  });
+
+  test('delivers events in order, unwrapping the envelope, and acks them', async () => {
+    const { received, logs, options } = connect();
+    await definePlugin({
+      name: 'sdk-plugin',
+      events: [EventType.NoteUpserted, EventType.SyncFailed],
+      onEvent: async (event, ctx) => {
+        if (event.type === EventType.SyncFailed) {
+          throw new Error(event.payload.error);
+        }
+        // Later events must wait for this one
+        await new Promise(resolve => setTimeout(resolve, 20));
+        await ctx.notify(seenEvent.method, { type: event.type, path: event.payload.path, attempt: event.attempt });
+      },
+    }).start(options);
+
+    const envelope = (payload: unknown) => ({ payload, metadata: {}, source: 'SyncService' });
+    await host.sendNotification(notifyEvent, {
+      eventType: EventType.NoteUpserted,
+      eventId: 'e1',
+      timestamp: 1,
+      payload: envelope({ path: 'a.md' }),
+      requiresAck: true,
+      attempt: 2,
+    });
+    await host.sendNotification(notifyEvent, {
+      eventType: EventType.SyncFailed,
+      eventId: 'e2',
+      timestamp: 2,
+      payload: envelope({ error: 'boom' }),
+      requiresAck: true,
+    });
+    await host.sendNotification(notifyEvent, {
+      eventType: EventType.NoteUpserted,
+      eventId: 'e3',
+      timestamp: 3,
+      payload: envelope({ path: 'b.md' }),
+    });
+
+    await waitFor(() => received.seen.length === 2);
+    expect(received.seen).toEqual([
+      { type: EventType.NoteUpserted, path: 'a.md', attempt: 2 },
+      { type: EventType.NoteUpserted, path: 'b.md' },
+    ]);
+    // A failed handler leaves the event unacked so the host redelivers it
+    expect(received.acks).toEqual(['e1']);
+    expect(logs).toContainEqual({ level: 'error', msg: 'Event handler failed', eventId: 'e2', eventType: EventType.SyncFailed, error: 'boom' });
+  });
+
+  test('dispatches HTTP requests to route handlers and runs onShutdown', async () => {
+    const { options } = connect();
+    let flushed = false;
+    await definePlugin({
+      name: 'sdk-plugin',
+      routes: [{ method: 'GET', path: '/items/:id', handler: request => ({ status: 200, body: { id: request.params.id } }) }],
+      onShutdown: async () => {
+        flushed = true;
+      },
+    }).start(options);
+
+    const request = { method: 'GET' as const, route: '/items/:id', path: '/items/7', params: { id: '7' }, query: {}, headers: {} };
+    expect(await host.sendRequest(httpRequest, request)).toEqual({ status: 200, body: { id: '7' } });
+    expect(await host.sendRequest(httpRequest, { ...request, route: '/other' })).toMatchObject({ status: 404 });
+
+    await host.sendRequest(shutdownRequest);
+    expect(flushed).toBe(true);
+  });
+});
@@ -0,0 +1,209 @@
+// Plugin SDK: definePlugin() wraps the JSON-RPC protocol (handshake, typed
+// events, acks, HTTP routes, host/* calls and shutdown) for plugins written in TypeScript.
+import type { Readable, Writable } from 'node:stream';
+import {
+  createMessageConnection,
+  StreamMessageReader,
+  StreamMessageWriter,
+  type MessageConnection,
+} from 'vscode-jsonrpc/node';
+import type { EventType } from '../types/index.js';
+import type {
+  HostCapability,
+  HostClient,
+  PluginEvent,
+  PluginEventFilter,
+  PluginHttpRequest,
+  PluginHttpResponse,
+  PluginLogLevel,
+  PluginLogLine,
+  PluginRouteDeclaration,
+} from './types.js';
+import {
+  ackEvent,
+  handshakeRequest,
+  hostGetNote,
+  hostGetStatus,
+  hostListNotes,
+  hostSearch,
+  hostTriggerSync,
+  httpRequest,
+  notifyEvent,
+  shutdownRequest,
+} from './types.js';
+import { toPluginEvent } from './plugin-events.js';
+
+export { EventType } from '../types/index.js';
+export type {
+  EventPayloads,
+  HostCapability,
+  HostClient,
+  HostNote,
+  HostNoteSummary,
+  PluginEvent,
+  PluginEventFilter,
+  PluginHttpRequest,
+  PluginHttpResponse,
+} from './types.js';
+
+type SubscribedEvent<E extends EventType | '*'> = PluginEvent<'*' extends E ? EventType : Exclude<E, '*'>>;
+
+export interface PluginLogger {
+  debug(msg: string, fields?: Record<string, unknown>): void;
+  info(msg: string, fields?: Record<string, unknown>): void;
+  warn(msg: string, fields?: Record<string, unknown>): void;
+  error(msg: string, fields?: Record<string, unknown>): void;
+}
+
+export interface PluginContext {
+  /** Writes JSON lines to stderr; the host logs them under the plugin's name */
+  log: PluginLogger;
+  host: HostClient;
+  /** Capabilities granted in the handshake */
+  capabilities: HostCapability[];
+  hostVersion: string;
+  /** Custom notification, delivered to the host's onPluginNotification listeners */
+  notify(method: string, params?: unknown): Promise<void>;
+}
+
+export interface PluginRoute extends PluginRouteDeclaration {
+  handler(request: PluginHttpRequest, ctx: PluginContext): PluginHttpResponse | Promise<PluginHttpResponse>;
+}
+
+export interface PluginDefinition<E extends EventType | '*' = EventType | '*'> {
+  name: string;
+  version?: string;
+  /** Event types to receive (default all) */
+  events?: readonly E[];
+  /** Path, tag, size and sync mode filter the host applies before sending events */
+  filter?: PluginEventFilter;
+  capabilities?: HostCapability[];
+  routes?: PluginRoute[];
+  onStart?(ctx: PluginContext): void | Promise<void>;
+  /** Called once per event, in order; events of at-least-once plugins are acked when it resolves */
+  onEvent?(event: SubscribedEvent<E>, ctx: PluginContext): void | Promise<void>;
+  /** Flush work before exiting; runs on the host's shutdown request or SIGTERM */
+  onShutdown?(ctx: PluginContext): void | Promise<void>;
+}
+
+export interface PluginStartOptions {
+  /** Streams to talk JSON-RPC over (default stdin/stdout); with custom streams the process is not exited */
+  input?: Readable;
+  output?: Writable;
+  /** Log destination (default stderr) */
+  stderr?: Writable;
+}
+
+export interface DefinedPlugin<E extends EventType | '*'> {
+  readonly definition: PluginDefinition<E>;
+  /** Connect to the host and complete the handshake */
+  start(options?: PluginStartOptions): Promise<PluginContext>;
+}
+
+function createLogger(stream: Writable): PluginLogger {
+  const write = (level: PluginLogLevel) => (msg: string, fields: Record<string, unknown> = {}) => {
+    const line: PluginLogLine = { ...fields, level, msg };
+    stream.write(`${JSON.stringify(line)}\n`);
+  };
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
+
+function createRpcHostClient(connection: MessageConnection): HostClient {
+  return {
+    getNote: id => connection.sendRequest(hostGetNote, { id }),
+    listNotes: () => connection.sendRequest(hostListNotes),
+    search: query => connection.sendRequest(hostSearch, { query }),
+    triggerSync: () => connection.sendRequest(hostTriggerSync),
+    getStatus: () => connection.sendRequest(hostGetStatus),
+  };
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Define a plugin; call start() from the plugin's entry point.
+ *
+ * @example
+ * definePlugin({
+ *   name: 'note-logger',
+ *   events: [EventType.NoteUpserted],
+ *   onEvent: (event, ctx) => ctx.log.info('Note changed', { path: event.payload.path }),
+ * }).start();
+ */
+export function definePlugin<const E extends EventType | '*' = '*'>(
+  definition: PluginDefinition<E>,
+): DefinedPlugin<E> {
+  return {
+    definition,
+    start: options => startPlugin(definition, options),
+  };
+}
+
+async function startPlugin<E extends EventType | '*'>(
+  definition: PluginDefinition<E>,
+  options: PluginStartOptions = {},
+): Promise<PluginContext> {
+  const usesStdio = !options.input && !options.output;
+  const connection = createMessageConnection(
+    new StreamMessageReader(options.input ?? process.stdin),
+    new StreamMessageWriter(options.output ?? process.stdout),
+  );
+  const log = createLogger(options.stderr ?? process.stderr);
+  const ctx: PluginContext = {
+    log,
+    host: createRpcHostClient(connection),
+    capabilities: [],
+    hostVersion: 'unknown',
+    notify: (method, params) => connection.sendNotification(method, params),
+  };
+
+  // Events are handled one at a time so acks and side effects keep their order
+  let events: Promise<void> = Promise.resolve();
+  connection.onNotification(notifyEvent, params => {
+    events = events.then(async () => {
+      try {
+        await definition.onEvent?.(toPluginEvent(params) as SubscribedEvent<E>, ctx);
+        if (params.requiresAck) {
+          await connection.sendNotification(ackEvent, { eventId: params.eventId });
+        }
+      } catch (error) {
+        log.error('Event handler failed', { eventId: params.eventId, eventType: params.eventType, error: errorMessage(error) });
+      }
+    });
+  });
+
+  const routes = definition.routes ?? [];
+  connection.onRequest(httpRequest, request => {
+    const route = routes.find(candidate => candidate.method === request.method && candidate.path === request.route);
+    return route ? route.handler(request, ctx) : { status: 404, body: { error: 'Route not found' } };
+  });
+
+  let shuttingDown: Promise<void> | undefined;
+  const shutdown = () =>
+    (shuttingDown ??= events
+      .then(() => definition.onShutdown?.(ctx))
+      .catch(error => log.error('Shutdown handler failed', { error: errorMessage(error) })));
+
+  connection.onRequest(shutdownRequest, () => shutdown());
+  if (usesStdio) {
+    // The host closes stdin after the shutdown reply
+    connection.onClose(() => void shutdown().then(() => process.exit(0)));
+    process.once('SIGTERM', () => void shutdown().then(() => process.exit(0)));
+  }
+
+  connection.listen();
+
+  const result = await connection.sendRequest(handshakeRequest, {
+    pluginName: definition.name,
+    pluginVersion: definition.version,
+    events: definition.events ? [...definition.events] : ['*'],
+    filter: definition.filter,
+    routes: routes.map(({ method, path, timeoutMs, scope }) => ({ method, path, timeoutMs, scope })),
+    capabilities: definition.capabilities,
+  });
+  ctx.capabilities = result.capabilities ?? [];
+  ctx.hostVersion = result.hostVersion;
+
+  await definition.onStart?.(ctx);
+  return ctx;
+}
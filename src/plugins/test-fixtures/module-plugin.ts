@@ -0,0 +1,30 @@
+// In-process plugin: reports events and shutdown via ctx.notify and serves a route calling the host.
+import { definePlugin, EventType } from '../sdk.js';
+
+export default definePlugin({
+  name: 'module-fixture',
+  version: '3.1.0',
+  events: [EventType.NoteUpserted],
+  capabilities: ['status:read'],
+  routes: [
+    {
+      method: 'GET',
+      path: '/status',
+      handler: async (_request, ctx) => ({ body: await ctx.host.getStatus() }),
+    },
+    {
+      method: 'GET',
+      path: '/fail',
+      handler: () => {
+        throw new Error('route failed');
+      },
+    },
+  ],
+  onEvent: async (event, ctx) => {
+    if (event.payload.path === 'Journal/throws.md') {
+      throw new Error('handler failed');
+    }
+    await ctx.notify('seen', { path: event.payload.path, tags: event.payload.tags });
+  },
+  onShutdown: ctx => ctx.notify('shutdown'),
+});
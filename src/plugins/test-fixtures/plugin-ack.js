@@ -0,0 +1,40 @@
+// Plugin that acknowledges at-least-once deliveries, starting from attempt ACK_FROM_ATTEMPT (default 1; 0 never acks).
+import {
+  createMessageConnection,
+  StreamMessageReader,
+  StreamMessageWriter,
+  NotificationType,
+  RequestType,
+} from 'vscode-jsonrpc/node.js';
+
+const handshakeRequest = new RequestType('handshake');
+const notifyEvent = new NotificationType('notify');
+const ackEvent = new NotificationType('ack');
+const logEvent = new NotificationType('log');
+
+const connection = createMessageConnection(
+  new StreamMessageReader(process.stdin),
+  new StreamMessageWriter(process.stdout),
+);
+
+const ackFromAttempt = Number(process.env.ACK_FROM_ATTEMPT ?? '1');
+
+connection.onNotification(notifyEvent, params => {
+  connection.sendNotification(logEvent, { eventId: params.eventId, attempt: params.attempt, requiresAck: params.requiresAck });
+  if (params.requiresAck && ackFromAttempt > 0 && params.attempt >= ackFromAttempt) {
+    connection.sendNotification(ackEvent, { eventId: params.eventId });
+  }
+});
+
+connection.listen();
+
+setTimeout(() => {
+  connection
+    .sendRequest(handshakeRequest, { pluginName: 'plugin-ack', events: ['*'] })
+    .catch(err => {
+      console.error(err);
+      process.exit(1);
+    });
+}, 50);
+
+setInterval(() => {}, 1_000);
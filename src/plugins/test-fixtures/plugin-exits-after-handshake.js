@@ -5,6 +5,7 @@ import {
   StreamMessageWriter,
   RequestType,
 } from 'vscode-jsonrpc/node.js';
+import { existsSync, writeFileSync } from 'node:fs';
 
 const handshakeRequest = new RequestType('handshake');
 
@@ -16,6 +17,8 @@ const connection = createMessageConnection(
 const pluginName = process.env.PLUGIN_NAME ?? 'plugin-exits-after-handshake';
 const pluginVersion = process.env.PLUGIN_VERSION ?? '1.0.0';
 const eventsEnv = process.env.EVENTS ? process.env.EVENTS.split(',') : ['*'];
+// When set, only the first run exits; later runs find the marker file and stay up.
+const crashMarker = process.env.CRASH_MARKER;
 
 const sendHandshake = () =>
   connection.sendRequest(handshakeRequest, {
@@ -31,6 +34,12 @@ setTimeout(() => {
   console.error(`[${pluginName}] sending handshake`);
   sendHandshake()
     .then(() => {
+      if (crashMarker && existsSync(crashMarker)) {
+        return;
+      }
+      if (crashMarker) {
+        writeFileSync(crashMarker, 'crashed');
+      }
       // Exit soon after handshake to mimic crash after startup.
       setTimeout(() => process.exit(0), 200);
     })
@@ -0,0 +1,59 @@
+// Plugin that calls host/* methods after handshake and reports the outcomes in a "results" notification.
+import {
+  createMessageConnection,
+  StreamMessageReader,
+  StreamMessageWriter,
+  NotificationType,
+  RequestType,
+} from 'vscode-jsonrpc/node.js';
+
+const handshakeRequest = new RequestType('handshake');
+const resultsEvent = new NotificationType('results');
+
+const connection = createMessageConnection(
+  new StreamMessageReader(process.stdin),
+  new StreamMessageWriter(process.stdout),
+);
+
+const capabilities = process.env.CAPABILITIES ? process.env.CAPABILITIES.split(',') : [];
+
+const calls = [
+  ['host/getNote', { id: 'notes/a.md' }],
+  ['host/getNote', { id: 'image.png' }],
+  ['host/getNote', { id: 'missing.md' }],
+  ['host/getNote', {}],
+  ['host/listNotes'],
+  ['host/search', { query: 'hello' }],
+  ['host/getStatus'],
+  ['host/triggerSync'],
+];
+
+connection.listen();
+
+setTimeout(async () => {
+  try {
+    const handshake = await connection.sendRequest(handshakeRequest, {
+      pluginName: 'plugin-host-client',
+      events: [],
+      capabilities,
+    });
+
+    const results = [];
+    for (const [method, params] of calls) {
+      try {
+        const result = params === undefined
+          ? await connection.sendRequest(method)
+          : await connection.sendRequest(method, params);
+        results.push({ method, result });
+      } catch (error) {
+        results.push({ method, error: { code: error.code, message: error.message } });
+      }
+    }
+    connection.sendNotification(resultsEvent, { granted: handshake.capabilities, results });
+  } catch (err) {
+    console.error(err);
+    process.exit(1);
+  }
+}, 50);
+
+setInterval(() => {}, 1_000);
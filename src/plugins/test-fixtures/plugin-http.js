@@ -0,0 +1,71 @@
+// Plugin that declares HTTP routes in its handshake and answers "http/request" calls.
+import {
+  createMessageConnection,
+  StreamMessageReader,
+  StreamMessageWriter,
+  RequestType,
+} from 'vscode-jsonrpc/node.js';
+
+const handshakeRequest = new RequestType('handshake');
+const httpRequest = new RequestType('http/request');
+
+const connection = createMessageConnection(
+  new StreamMessageReader(process.stdin),
+  new StreamMessageWriter(process.stdout),
+);
+
+const pluginName = process.env.PLUGIN_NAME ?? 'plugin-http';
+
+connection.onRequest(httpRequest, async request => {
+  switch (request.route) {
+    case '/echo':
+      return { body: request };
+    case '/items/:id':
+      return { status: 201, headers: { 'x-plugin': pluginName }, body: { id: request.params.id, saved: request.body } };
+    case '/text':
+      return { headers: { 'content-type': 'text/plain' }, body: 'plain text' };
+    case '/unsafe-headers':
+      return {
+        headers: {
+          'Set-Cookie': 'session=plugin',
+          'access-control-allow-origin': '*',
+          'content-length': '1',
+          connection: 'close',
+          'cache-control': 'no-store',
+        },
+        body: { ok: true },
+      };
+    case '/slow':
+      await new Promise(resolve => setTimeout(resolve, 1_000));
+      return { body: 'too late' };
+    default:
+      throw new Error(`boom: ${request.route}`);
+  }
+});
+
+connection.listen();
+
+setTimeout(() => {
+  connection
+    .sendRequest(handshakeRequest, {
+      pluginName,
+      pluginVersion: '1.0.0',
+      events: [],
+      routes: [
+        { method: 'GET', path: '/echo' },
+        { method: 'POST', path: '/items/:id' },
+        { method: 'GET', path: '/text' },
+        { method: 'GET', path: '/unsafe-headers' },
+        { method: 'GET', path: '/slow', timeoutMs: 100 },
+        { method: 'GET', path: '/boom' },
+        { method: 'DELETE', path: '/admin', scope: 'admin' },
+        { method: 'GET', path: 'no-leading-slash' },
+      ],
+    })
+    .catch(err => {
+      console.error(err);
+      process.exit(1);
+    });
+}, 50);
+
+setInterval(() => {}, 1_000);
@@ -0,0 +1,46 @@
+// Plugin that reports its environment, working directory and rlimits, then
+// sends an OVERSIZED_BYTES message followed by a normal one.
+import { readFileSync } from 'node:fs';
+import {
+  createMessageConnection,
+  StreamMessageReader,
+  StreamMessageWriter,
+  NotificationType,
+  RequestType,
+} from 'vscode-jsonrpc/node.js';
+
+const handshakeRequest = new RequestType('handshake');
+const probeEvent = new NotificationType('probe');
+const logEvent = new NotificationType('log');
+
+const connection = createMessageConnection(
+  new StreamMessageReader(process.stdin),
+  new StreamMessageWriter(process.stdout),
+);
+
+connection.listen();
+
+const readLimits = () => {
+  try {
+    return readFileSync('/proc/self/limits', 'utf8');
+  } catch {
+    return null;
+  }
+};
+
+setTimeout(async () => {
+  try {
+    await connection.sendRequest(handshakeRequest, { pluginName: 'plugin-sandbox-probe', events: ['*'] });
+  } catch (err) {
+    console.error(err);
+    process.exit(1);
+  }
+
+  const oversized = Number(process.env.OVERSIZED_BYTES ?? '0');
+  if (oversized > 0) {
+    connection.sendNotification(logEvent, { padding: 'x'.repeat(oversized) });
+  }
+  connection.sendNotification(probeEvent, { env: process.env, cwd: process.cwd(), limits: readLimits() });
+}, 50);
+
+setInterval(() => {}, 1_000);
@@ -0,0 +1,50 @@
+// Plugin that implements the shutdown request. SHUTDOWN_MODE=graceful (default) flushes, writes
+// FLUSH_MARKER and exits; SHUTDOWN_MODE=hang never answers and ignores SIGTERM.
+import { writeFileSync } from 'node:fs';
+import {
+  createMessageConnection,
+  StreamMessageReader,
+  StreamMessageWriter,
+  RequestType,
+  RequestType0,
+} from 'vscode-jsonrpc/node.js';
+
+const handshakeRequest = new RequestType('handshake');
+const shutdownRequest = new RequestType0('shutdown');
+
+const connection = createMessageConnection(
+  new StreamMessageReader(process.stdin),
+  new StreamMessageWriter(process.stdout),
+);
+
+const mode = process.env.SHUTDOWN_MODE ?? 'graceful';
+
+if (mode === 'hang') {
+  process.on('SIGTERM', () => {});
+}
+
+connection.onRequest(shutdownRequest, async () => {
+  if (mode === 'hang') {
+    return new Promise(() => {});
+  }
+  // Simulate flushing buffered work before replying.
+  await new Promise(resolve => setTimeout(resolve, 50));
+  if (process.env.FLUSH_MARKER) {
+    writeFileSync(process.env.FLUSH_MARKER, 'flushed');
+  }
+  setTimeout(() => process.exit(0), 10);
+  return null;
+});
+
+connection.listen();
+
+setTimeout(() => {
+  connection
+    .sendRequest(handshakeRequest, { pluginName: 'plugin-shutdown', events: [] })
+    .catch(err => {
+      console.error(err);
+      process.exit(1);
+    });
+}, 50);
+
+setInterval(() => {}, 1_000);
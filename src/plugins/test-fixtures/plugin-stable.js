@@ -19,6 +19,7 @@ const connection = createMessageConnection(
 const eventsEnv = process.env.EVENTS ? process.env.EVENTS.split(',') : ['*'];
 const pluginName = process.env.PLUGIN_NAME ?? 'plugin-stable';
 const pluginVersion = process.env.PLUGIN_VERSION ?? '1.0.0';
+const filter = process.env.FILTER ? JSON.parse(process.env.FILTER) : undefined;
 
 connection.onNotification(notifyEvent, params => {
   // Echo back what we received so the host test can assert delivery.
@@ -31,6 +32,7 @@ const sendHandshake = () =>
     pluginName,
     pluginVersion,
     events: eventsEnv,
+    filter,
   });
 
 connection.listen();
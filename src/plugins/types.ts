@@ -1,6 +1,17 @@
 // Shared types for PluginManager <-> Plugin communication.
-import { NotificationType, RequestType } from 'vscode-jsonrpc/node';
-import { EventType } from '../types/index.js';
+import { NotificationType, RequestType, RequestType0 } from 'vscode-jsonrpc/node';
+import {
+  ApiScope,
+  ConflictResolvedPayload,
+  EventType,
+  Note,
+  NoteDeletedPayload,
+  NoteUpsertedPayload,
+  SyncCompletedPayload,
+  SyncFailedPayload,
+  SyncStartedPayload,
+  SyncStatus,
+} from '../types/index.js';
 import type { ChildProcessWithoutNullStreams } from 'node:child_process';
 import type { MessageConnection } from 'vscode-jsonrpc';
 
@@ -9,43 +20,304 @@ export interface HandshakePayload {
   pluginName?: string;
   pluginVersion?: string;
   events?: Array<EventType | '*'>;
+  routes?: PluginRouteDeclaration[];
+  /** Host capabilities the plugin wants; only those granted in PluginConfig are given */
+  capabilities?: HostCapability[];
+  /** Narrows the subscribed events further; see PluginEventFilter */
+  filter?: PluginEventFilter;
+}
+
+// Event filter applied by the host; a criterion is skipped for events without the field it checks
+export interface PluginEventFilter {
+  /** Note path globs such as `Journal/**` (`**` spans folders, `*` does not); at least one must match */
+  paths?: string[];
+  /** Note path globs to skip even if they match `paths` */
+  excludePaths?: string[];
+  /** Notes must carry at least one of these tags (case-insensitive, without `#`) */
+  tags?: string[];
+  /** Note size bounds in bytes */
+  minSize?: number;
+  maxSize?: number;
+  syncModes?: Array<'full' | 'incremental'>;
+}
+
+// HTTP route a plugin serves under /api/plugins/<name>/<path>
+export type PluginHttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface PluginRouteDeclaration {
+  method: PluginHttpMethod;
+  /** Path relative to the plugin prefix; `:param` segments are matched (e.g. /items/:id) */
+  path: string;
+  /** How long the host waits for the plugin's response (default 10s) */
+  timeoutMs?: number;
+  /** Additional API scope required on top of notes:read */
+  scope?: ApiScope;
+}
+
+// HTTP request forwarded to the plugin (host -> plugin)
+export interface PluginHttpRequest {
+  method: PluginHttpMethod;
+  /** Declared route path that matched */
+  route: string;
+  /** Request path relative to the plugin prefix */
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, string | string[]>;
+  headers: Record<string, string | string[]>;
+  body?: unknown;
+}
+
+// Plugin response mapped back to HTTP
+export interface PluginHttpResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  /** Strings are sent as-is, anything else as JSON */
+  body?: unknown;
 }
 
 // Handshake response (host -> plugin)
 export interface HandshakeResult {
   hostVersion: string;
+  /** Capabilities the plugin was granted */
+  capabilities: HostCapability[];
+}
+
+// Reverse RPC (plugin -> host)
+export type HostCapability = 'notes:read' | 'sync:trigger' | 'status:read';
+
+// Host services reachable through reverse RPC (implemented by SyncService)
+export interface PluginHost {
+  getNote(id: string): Promise<Note | undefined>;
+  getNotes(): Promise<Note[]>;
+  searchNotes(query: string): Promise<Note[]>;
+  sync(): Promise<void>;
+  getStatus(): SyncStatus;
 }
 
+// host/* requests as a plugin calls them; each needs the matching capability to be granted
+export interface HostClient {
+  getNote(id: string): Promise<HostNote | null>;
+  listNotes(): Promise<HostNoteSummary[]>;
+  search(query: string): Promise<HostNoteSummary[]>;
+  triggerSync(): Promise<SyncStatus>;
+  getStatus(): Promise<SyncStatus>;
+}
+
+// Note as returned to plugins; binary content is base64 encoded
+export interface HostNote {
+  id: string;
+  path: string;
+  content: string;
+  encoding: 'utf-8' | 'base64';
+  mtime: string;
+  ctime: string;
+  size: number;
+}
+
+// Listing entry without content (host/listNotes, host/search)
+export type HostNoteSummary = Omit<HostNote, 'content' | 'encoding'>;
+
 // Host -> Plugin event notify
 export interface NotifyPayload {
   eventType: EventType;
   eventId: string;
   timestamp: number;
   payload: unknown;
+  /** Set for at-least-once plugins: reply with an `ack` notification carrying eventId */
+  requiresAck?: boolean;
+  /** Delivery attempt, starting at 1 (at-least-once plugins only) */
+  attempt?: number;
+}
+
+// NotifyPayload.payload as sent by the host for bus events
+export interface EventEnvelope<P = Record<string, unknown>> {
+  payload: P;
+  metadata: Record<string, unknown>;
+  source: string;
+}
+
+// Event payload by type, for typed event handlers
+export interface EventPayloads {
+  [EventType.SyncStarted]: SyncStartedPayload;
+  [EventType.SyncCompleted]: SyncCompletedPayload;
+  [EventType.SyncFailed]: SyncFailedPayload;
+  [EventType.BackupTriggered]: Record<string, unknown>;
+  [EventType.BackupCompleted]: Record<string, unknown>;
+  [EventType.NoteIndexed]: Record<string, unknown>;
+  [EventType.NoteUpserted]: NoteUpsertedPayload;
+  [EventType.NoteDeleted]: NoteDeletedPayload;
+  [EventType.ConflictResolved]: ConflictResolvedPayload;
+}
+
+// Event as plugins see it (SDK onEvent, in-process modules); narrowing on `type` narrows `payload`
+export type PluginEvent<T extends EventType = EventType> = T extends EventType
+  ? {
+      type: T;
+      eventId: string;
+      timestamp: number;
+      payload: EventPayloads[T];
+      metadata: Record<string, unknown>;
+      source: string;
+      /** Delivery attempt (at-least-once plugins only) */
+      attempt?: number;
+    }
+  : never;
+
+// Acknowledgement of an event delivered with requiresAck (plugin -> host)
+export interface AckPayload {
+  eventId: string;
+}
+
+// Structured log line on a plugin's stderr; other lines are logged as plain text
+export type PluginLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface PluginLogLine {
+  level: PluginLogLevel;
+  msg: string;
+  [field: string]: unknown;
 }
 
+export type DeliveryMode = 'best-effort' | 'at-least-once';
+
 // Wire protocol message types
 export const handshakeRequest = new RequestType<HandshakePayload, HandshakeResult, void>('handshake');
 export const notifyEvent = new NotificationType<NotifyPayload>('notify');
+export const ackEvent = new NotificationType<AckPayload>('ack');
+// Host asks the plugin to flush and exit; the plugin replies once it is ready to go
+export const shutdownRequest = new RequestType0<void, void>('shutdown');
+export const httpRequest = new RequestType<PluginHttpRequest, PluginHttpResponse, void>('http/request');
+export const hostGetNote = new RequestType<{ id: string }, HostNote | null, void>('host/getNote');
+export const hostListNotes = new RequestType0<HostNoteSummary[], void>('host/listNotes');
+export const hostSearch = new RequestType<{ query: string }, HostNoteSummary[], void>('host/search');
+export const hostTriggerSync = new RequestType0<SyncStatus, void>('host/triggerSync');
+export const hostGetStatus = new RequestType0<SyncStatus, void>('host/getStatus');
 
 // Plugin process/config handles
 export interface PluginConfig {
   name: string;
-  command: string;
+  /** Executable of a process plugin; exactly one of command and module is set */
+  command?: string;
+  /**
+   * ESM module of a trusted in-process plugin, resolved against cwd; it default-exports
+   * definePlugin(...) or a plugin definition and receives events straight from the event bus
+   */
+  module?: string;
   args?: string[];
+  /** Working directory; resolved against, and confined to, the sandbox root when one is configured */
   cwd?: string;
+  /** Variables set for the plugin; the host environment is not inherited */
   env?: Record<string, string>;
+  /**
+   * Host variables passed through on top of PATH, HOME, LANG, TZ and TMPDIR.
+   * `PREFIX_*` patterns never match secrets (PASSWORD, TOKEN, ...); those must be listed by name.
+   */
+  envAllowlist?: string[];
+  /** Run the plugin as this user/group (POSIX; the host needs permission to switch) */
+  uid?: number;
+  gid?: number;
+  limits?: PluginLimits;
   handshakeTimeoutMs?: number;
+  /** Host capabilities the operator grants this plugin (default none) */
+  capabilities?: HostCapability[];
+  /** Event filter applied in addition to the one the plugin declares in its handshake */
+  filter?: PluginEventFilter;
+  /**
+   * best-effort (default): events are sent once and lost if the plugin is down.
+   * at-least-once: events go through a persistent outbox and are redelivered until acked.
+   */
+  delivery?: DeliveryMode;
+  /** at-least-once: time to wait for an ack before redelivering (default 30s) */
+  ackTimeoutMs?: number;
+  /** at-least-once: deliveries before an event is dead-lettered (default 5) */
+  maxDeliveryAttempts?: number;
+  /** Grace period for the shutdown request and the exit that follows it (default 5s) */
+  shutdownTimeoutMs?: number;
+  /** Time to wait after SIGTERM before escalating to SIGKILL (default 2s) */
+  killTimeoutMs?: number;
 }
 
+// Resource limits for a plugin process; rlimits are not applied on Windows
+export interface PluginLimits {
+  /** Address space limit (ulimit -v); V8 reserves more than it uses, so leave headroom */
+  memoryMb?: number;
+  /** CPU time after which the plugin is killed with SIGXCPU (ulimit -t) */
+  cpuSeconds?: number;
+  /** Messages from the plugin larger than this are dropped (default 4 MiB) */
+  maxMessageBytes?: number;
+}
+
+export type PluginKind = 'process' | 'module';
+
 export interface PluginHandle {
   name: string;
+  kind: PluginKind;
   subscribedEvents: Set<EventType | '*'>;
+  /** Config and handshake filters; an event must pass all of them */
+  filters: PluginEventFilter[];
   handshake?: {
     pluginName: string;
     pluginVersion: string;
     events: Array<EventType | '*'>;
   };
+  routes: PluginRouteDeclaration[];
+  capabilities: Set<HostCapability>;
   child?: ChildProcessWithoutNullStreams;
   connection?: MessageConnection;
 }
+
+// A plugin instance as the manager drives it: a child process or an in-process module
+export interface PluginRuntime {
+  start(): Promise<PluginHandle>;
+  stop(): Promise<PluginStopResult>;
+  sendNotification(event: NotifyPayload): Promise<void>;
+  sendHttpRequest(request: PluginHttpRequest, timeoutMs: number): Promise<PluginHttpResponse>;
+  isRunning(): boolean;
+  readonly pid: number | undefined;
+}
+
+// Supervision
+export type PluginState = 'starting' | 'running' | 'restarting' | 'failed' | 'stopped';
+
+export interface RestartPolicy {
+  /** Delay before the first restart; doubles with each restart in the window */
+  minBackoffMs: number;
+  maxBackoffMs: number;
+  /** Restarts allowed within windowMs before the plugin is marked failed */
+  maxRestarts: number;
+  windowMs: number;
+}
+
+// How a plugin process ended when stopped
+export type StopOutcome = 'graceful' | 'terminated' | 'killed' | 'not-running';
+
+export interface PluginStopResult {
+  name: string;
+  outcome: StopOutcome;
+  /** Exited without needing SIGKILL */
+  clean: boolean;
+  exitCode: number | null;
+  signal: string | null;
+  durationMs: number;
+}
+
+export interface PluginStatus {
+  name: string;
+  kind: PluginKind;
+  state: PluginState;
+  pid?: number;
+  /** Total restarts since the manager started */
+  restarts: number;
+  startedAt?: string;
+  lastExit?: {
+    code: number | null;
+    signal: string | null;
+    at: string;
+  };
+  lastError?: string;
+  nextRestartAt?: string;
+  /** at-least-once plugins: events waiting for an ack and dead letters */
+  outbox?: {
+    pending: number;
+    deadLetters: number;
+  };
+}
@@ -1,4 +1,4 @@
-import { mkdtempSync, rmSync } from 'node:fs';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 
@@ -45,6 +45,17 @@ describe('DiskNoteRepository', () => {
     expect(stored?.path).toBe(note.path);
   });
 
+  it('writes binary notes byte-exact and reads them back as buffers', async () => {
+    const bytes = Buffer.from([0x25, 0x50, 0x44, 0x46, 0x00, 0xff, 0xc3, 0x28, 0x0a]);
+    const note = createNote({ id: 'files/doc.pdf', path: 'files/doc.pdf', content: bytes, size: bytes.length });
+    await repository.save(note);
+
+    expect(readFileSync(join(vaultDir, 'files/doc.pdf')).equals(bytes)).toBe(true);
+    const stored = await repository.get(note.id);
+    expect(Buffer.isBuffer(stored?.content)).toBe(true);
+    expect((stored?.content as Buffer).equals(bytes)).toBe(true);
+  });
+
   it('prevents path traversal attacks', async () => {
     const note = createNote({ path: '../evil.txt', id: '../evil.txt' });
     await expect(repository.save(note)).rejects.toThrow('Invalid note path');
@@ -95,6 +106,14 @@ describe('DiskNoteRepository', () => {
     expect(all).toHaveLength(notes.length);
   });
 
+  it('lists note ids as vault-relative paths', async () => {
+    await repository.saveMany([
+      createNote({ id: 'a.md', path: 'a.md' }),
+      createNote({ id: 'folder/b.md', path: 'folder/b.md' }),
+    ]);
+    expect((await repository.listIds()).sort()).toEqual(['a.md', 'folder/b.md']);
+  });
+
   it('searches by content when query provided', async () => {
     await repository.save(createNote({ id: 'foo.md', path: 'foo.md', content: 'hello world' }));
     const results = await repository.search('world');
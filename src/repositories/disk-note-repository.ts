@@ -3,10 +3,12 @@ import { dirname, posix, relative, resolve, sep } from 'node:path';
 
 import type { Note } from '../types/index.js';
 import type { NoteRepository } from './note-repository.js';
+import { isPlainTextPath } from '../utils/file-types.js';
 
 /**
  * Disk-backed NoteRepository implementation.
  * Writes notes to disk under a configured vault directory.
+ * Binary notes (Buffer content) are written and read back as raw bytes.
  */
 export class DiskNoteRepository implements NoteRepository {
   private readonly root: string;
@@ -22,7 +24,11 @@ export class DiskNoteRepository implements NoteRepository {
     await this.ready;
     const target = this.resolveWithinVault(this.getRelativePathForNote(note));
     await fs.mkdir(dirname(target), { recursive: true });
-    await fs.writeFile(target, note.content ?? '', 'utf-8');
+    if (Buffer.isBuffer(note.content)) {
+      await fs.writeFile(target, note.content);
+    } else {
+      await fs.writeFile(target, note.content ?? '', 'utf-8');
+    }
   }
 
   async saveMany(notes: Note[]): Promise<void> {
@@ -54,6 +60,12 @@ export class DiskNoteRepository implements NoteRepository {
     return Promise.all(filePaths.map((path) => this.readNoteFrom(path)));
   }
 
+  async listIds(): Promise<string[]> {
+    await this.ready;
+    const filePaths = await this.listFiles(this.root);
+    return filePaths.map((path) => this.toNoteId(path));
+  }
+
   async search(query: string): Promise<Note[]> {
     if (!query.trim()) {
       return [];
@@ -63,7 +75,7 @@ export class DiskNoteRepository implements NoteRepository {
     return notes.filter(
       (note) =>
         note.path.toLowerCase().includes(lower) ||
-        (note.content ?? '').toLowerCase().includes(lower)
+        (typeof note.content === 'string' && note.content.toLowerCase().includes(lower))
     );
   }
 
@@ -121,8 +133,10 @@ export class DiskNoteRepository implements NoteRepository {
 
   private async readNoteFrom(fullPath: string): Promise<Note> {
     const stats = await fs.stat(fullPath);
-    const rel = relative(this.root, fullPath).split(sep).join('/');
-    const content = await fs.readFile(fullPath, 'utf-8');
+    const rel = this.toNoteId(fullPath);
+    const content = isPlainTextPath(rel)
+      ? await fs.readFile(fullPath, 'utf-8')
+      : await fs.readFile(fullPath);
     return {
       id: rel,
       path: rel,
@@ -133,6 +147,10 @@ export class DiskNoteRepository implements NoteRepository {
     };
   }
 
+  private toNoteId(fullPath: string): string {
+    return relative(this.root, fullPath).split(sep).join('/');
+  }
+
   private async listFiles(directory: string): Promise<string[]> {
     const entries = await fs.readdir(directory, { withFileTypes: true });
     const files: string[] = [];
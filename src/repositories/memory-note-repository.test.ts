@@ -88,6 +88,7 @@ describe('MemoryNoteRepository', () => {
     const notes = await repository.getAll();
     expect(notes).toHaveLength(2);
     expect(notes.map((n) => n.id).sort()).toEqual(['a', 'b']);
+    expect((await repository.listIds()).sort()).toEqual(['a', 'b']);
   });
 
   it('returns empty array when search query is blank or no matches', async () => {
@@ -36,12 +36,16 @@ export class MemoryNoteRepository implements NoteRepository {
     return Array.from(this.notes.values());
   }
 
+  async listIds(): Promise<string[]> {
+    return Array.from(this.notes.keys());
+  }
+
   async search(query: string): Promise<Note[]> {
     const lower = query.toLowerCase();
     return Array.from(this.notes.values()).filter(
       (note) =>
         note.path.toLowerCase().includes(lower) ||
-        note.content.toLowerCase().includes(lower)
+        (typeof note.content === 'string' && note.content.toLowerCase().includes(lower))
     );
   }
 
@@ -35,6 +35,11 @@ export interface NoteRepository {
    */
   getAll(): Promise<Note[]>;
 
+  /**
+   * List the ids of all notes without reading their content.
+   */
+  listIds(): Promise<string[]>;
+
   /**
    * Case-insensitive search on note path/content.
    */
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ConflictResolver } from './conflict-resolver.js';
+import type {
+  IDocumentAssembler,
+  IDocumentWriter,
+  IRevisionStorage,
+  IWritableDocumentStorage,
+} from '../core/interfaces.js';
+import type { LiveSyncDocument } from '../types/index.js';
+
+const revision = (rev: string, data: string, mtime: number, history: string[]): LiveSyncDocument => ({
+  _id: 'notes/todo.md',
+  _rev: rev,
+  type: 'plain',
+  path: 'notes/todo.md',
+  data,
+  mtime,
+  ctime: 1000,
+  size: data.length,
+  _revisions: { start: parseInt(rev, 10), ids: history },
+});
+
+describe('ConflictResolver', () => {
+  let revisions: Map<string, LiveSyncDocument>;
+  let storage: IRevisionStorage & IWritableDocumentStorage;
+  let assembler: IDocumentAssembler;
+  let writer: IDocumentWriter;
+
+  // Winner 3-w and loser 3-l both descend from 2-base
+  const base = revision('2-base', 'a\nb\nc\n', 2000, ['base', 'root']);
+  const winner = revision('3-w', 'A\nb\nc\n', 3000, ['w', 'base', 'root']);
+  const loser = revision('3-l', 'a\nb\nC\n', 4000, ['l', 'base', 'root']);
+  const winnerDoc: LiveSyncDocument = { ...winner, _revisions: undefined, _conflicts: ['3-l'] };
+
+  beforeEach(() => {
+    revisions = new Map([base, winner, loser].map((doc) => [doc._rev!, doc]));
+    storage = {
+      getDocumentRevision: vi.fn(async (_id: string, rev: string) => revisions.get(rev) ?? null),
+      putDocument: vi.fn(async (doc: LiveSyncDocument) => ({ id: doc._id, rev: '4-res' })),
+      putDocuments: vi.fn(async (docs: LiveSyncDocument[]) => docs.map((doc) => ({ id: doc._id, rev: '4-del' }))),
+    } as any;
+    writer = {
+      writeDocument: vi.fn(async () => '4-merged'),
+      deleteDocument: vi.fn(),
+    };
+    assembler = {
+      assembleDocument: vi.fn(async (doc: LiveSyncDocument) => doc.data ?? null),
+    };
+  });
+
+  it('should pick the revision with the newest mtime', async () => {
+    const resolver = new ConflictResolver(storage, assembler, 'newest');
+
+    const resolution = await resolver.resolve(winnerDoc, winner.data!);
+
+    expect(resolution.content).toBe('a\nb\nC\n');
+    expect(resolution.mtime).toBe(4000);
+    expect(resolution.copies).toEqual([]);
+    expect(resolution.record).toMatchObject({
+      noteId: 'notes/todo.md',
+      winnerRev: '3-w',
+      conflictRevs: ['3-l'],
+      outcome: 'newest',
+      chosenRev: '3-l',
+    });
+  });
+
+  it('should keep both by writing conflict copies next to the note', async () => {
+    const resolver = new ConflictResolver(storage, assembler, 'keep-both');
+
+    const resolution = await resolver.resolve(winnerDoc, winner.data!);
+
+    expect(resolution.content).toBe('A\nb\nc\n');
+    expect(resolution.copies).toHaveLength(1);
+    expect(resolution.copies[0]).toMatchObject({
+      id: 'notes/todo.conflict-3-l.md',
+      path: 'notes/todo.conflict-3-l.md',
+      content: 'a\nb\nC\n',
+    });
+    expect(resolution.record.outcome).toBe('kept-both');
+    expect(resolution.record.copies).toEqual(['notes/todo.conflict-3-l.md']);
+  });
+
+  it('should three-way merge against the common ancestor', async () => {
+    const resolver = new ConflictResolver(storage, assembler, 'merge');
+
+    const resolution = await resolver.resolve(winnerDoc, winner.data!);
+
+    expect(resolution.content).toBe('A\nb\nC\n');
+    expect(resolution.copies).toEqual([]);
+    expect(resolution.record.outcome).toBe('merged');
+    expect(storage.getDocumentRevision).toHaveBeenCalledWith('notes/todo.md', '2-base');
+  });
+
+  it('should fall back to keep-both when the ancestor is unavailable', async () => {
+    revisions.delete('2-base');
+    const resolver = new ConflictResolver(storage, assembler, 'merge');
+
+    const resolution = await resolver.resolve(winnerDoc, winner.data!);
+
+    expect(resolution.content).toBe('A\nb\nc\n');
+    expect(resolution.record.outcome).toBe('kept-both');
+    expect(resolution.copies.map((copy) => copy.path)).toEqual(['notes/todo.conflict-3-l.md']);
+  });
+
+  it('should fall back to keep-both on overlapping edits', async () => {
+    revisions.set('3-l', revision('3-l', 'A!\nb\nc\n', 4000, ['l', 'base', 'root']));
+    const resolver = new ConflictResolver(storage, assembler, 'merge');
+
+    const resolution = await resolver.resolve(winnerDoc, winner.data!);
+
+    expect(resolution.record.outcome).toBe('kept-both');
+  });
+
+  it('should write the chosen revision as winner and delete the losing revisions', async () => {
+    const resolver = new ConflictResolver(storage, assembler, 'newest', writer);
+
+    await resolver.resolve(winnerDoc, winner.data!);
+
+    const { _revisions, ...chosen } = loser;
+    expect(storage.putDocument).toHaveBeenCalledWith({ ...chosen, _rev: '3-w' });
+    expect(storage.putDocuments).toHaveBeenCalledWith([
+      { _id: 'notes/todo.md', _rev: '3-l', _deleted: true },
+    ]);
+    expect(resolver.getConflicts()).toEqual([
+      expect.objectContaining({ outcome: 'newest', resolvedAt: expect.any(String) }),
+    ]);
+  });
+
+  it('should write merged content through the document writer', async () => {
+    const resolver = new ConflictResolver(storage, assembler, 'merge', writer);
+
+    await resolver.resolve(winnerDoc, winner.data!);
+
+    expect(writer.writeDocument).toHaveBeenCalledWith({
+      path: 'notes/todo.md',
+      content: 'A\nb\nC\n',
+      mtime: new Date(4000),
+      ctime: new Date(1000),
+    });
+    expect(storage.putDocument).not.toHaveBeenCalled();
+    expect(storage.putDocuments).toHaveBeenCalledWith([
+      { _id: 'notes/todo.md', _rev: '3-l', _deleted: true },
+    ]);
+    expect(resolver.getConflicts()).toEqual([
+      expect.objectContaining({ outcome: 'merged', resolvedAt: expect.any(String) }),
+    ]);
+  });
+
+  it('should keep the losing revisions in CouchDB when copies are kept', async () => {
+    const resolver = new ConflictResolver(storage, assembler, 'keep-both', writer);
+
+    await resolver.resolve(winnerDoc, winner.data!);
+
+    expect(storage.putDocument).not.toHaveBeenCalled();
+    expect(storage.putDocuments).not.toHaveBeenCalled();
+    expect(resolver.getConflicts()).toHaveLength(1);
+  });
+
+  it.each(['newest', 'merge'] as const)(
+    'should leave CouchDB untouched without a document writer (%s)',
+    async (policy) => {
+      const resolver = new ConflictResolver(storage, assembler, policy);
+
+      const resolution = await resolver.resolve(winnerDoc, winner.data!);
+
+      expect(resolution.content).toBe(policy === 'merge' ? 'A\nb\nC\n' : 'a\nb\nC\n');
+      expect(storage.putDocument).not.toHaveBeenCalled();
+      expect(storage.putDocuments).not.toHaveBeenCalled();
+      expect(resolver.getConflicts()).toHaveLength(1);
+    }
+  );
+
+  it('should track conflicts CouchDB did not resolve and only report changes once', async () => {
+    storage.putDocuments = vi.fn(async (docs: LiveSyncDocument[]) =>
+      docs.map((doc) => ({ id: doc._id, error: 'conflict' }))
+    );
+    const resolver = new ConflictResolver(storage, assembler, 'newest', writer);
+
+    const first = await resolver.resolve(winnerDoc, winner.data!);
+    const second = await resolver.resolve(winnerDoc, winner.data!);
+
+    expect(first.changed).toBe(true);
+    expect(second.changed).toBe(false);
+    expect(second.record.detectedAt).toBe(first.record.detectedAt);
+    expect(resolver.getConflicts()).toEqual([expect.not.objectContaining({ resolvedAt: expect.anything() })]);
+
+    resolver.markResolved('notes/todo.md');
+    expect(resolver.getConflicts()[0].resolvedAt).toEqual(expect.any(String));
+
+    resolver.clear('notes/todo.md');
+    expect(resolver.getConflicts()).toEqual([]);
+  });
+
+  it('should ignore conflicting revisions that are deleted', async () => {
+    revisions.set('3-l', { ...loser, deleted: true });
+    const resolver = new ConflictResolver(storage, assembler, 'newest');
+
+    const resolution = await resolver.resolve(winnerDoc, winner.data!);
+
+    expect(resolution.content).toBe('A\nb\nc\n');
+    expect(resolution.record.chosenRev).toBe('3-w');
+  });
+});
@@ -0,0 +1,363 @@
+import { posix } from 'node:path';
+import type {
+  IDocumentAssembler,
+  IDocumentWriter,
+  IRevisionStorage,
+  IWritableDocumentStorage,
+} from '../core/interfaces.js';
+import type {
+  ConflictPolicy,
+  ConflictRecord,
+  LiveSyncDocument,
+  Note,
+  NoteContent,
+} from '../types/index.js';
+import logger from '../utils/logger.js';
+import { threeWayMerge } from '../utils/three-way-merge.js';
+
+/** `<name>.conflict-<rev><ext>`, where a revision is `<generation>-<hash>` */
+const CONFLICT_COPY_PATTERN = /\.conflict-\d+-[^./]+(\.[^./]*)?$/;
+
+/**
+ * What to write to the vault for a conflicted note
+ */
+export interface ConflictResolution {
+  /** Content for the note's own path */
+  content: NoteContent;
+  /** mtime (ms) of the revision the content came from */
+  mtime?: number;
+  /** Conflict copies to write next to the note (keep-both) */
+  copies: Note[];
+  record: ConflictRecord;
+  /** False when the same conflict was already resolved the same way */
+  changed: boolean;
+}
+
+/**
+ * Outcome of applying a policy, before it is recorded
+ */
+interface PolicyResult {
+  content: NoteContent;
+  mtime?: number;
+  copies: Note[];
+  outcome: ConflictRecord['outcome'];
+  chosenRev: string;
+}
+
+interface RevisionContent {
+  rev: string;
+  doc: LiveSyncDocument;
+  content: NoteContent;
+}
+
+/**
+ * Resolves notes whose CouchDB documents have conflicting revisions
+ *
+ * With a document writer (push enabled) the resolution is also written back
+ * to CouchDB: the chosen or merged content becomes the winning revision and
+ * the losing revisions are deleted, so the conflict is gone for every client.
+ * Without one, and for keep-both (whose copies only exist in the vault),
+ * only the vault is resolved and CouchDB is left untouched.
+ * Every conflict stays listed with its outcome until the note is deleted;
+ * `resolvedAt` is set once CouchDB no longer holds it.
+ */
+export class ConflictResolver {
+  private readonly conflicts = new Map<string, ConflictRecord>();
+
+  /**
+   * @param writer - Opts in to resolving conflicts in CouchDB; only passed when pushing is enabled
+   */
+  constructor(
+    private readonly storage: IRevisionStorage & IWritableDocumentStorage,
+    private readonly assembler: IDocumentAssembler,
+    private readonly policy: ConflictPolicy = 'newest',
+    private readonly writer?: IDocumentWriter,
+  ) {}
+
+  /**
+   * Conflicted notes and how they were resolved; resolved ones carry `resolvedAt`
+   */
+  getConflicts(): ConflictRecord[] {
+    return Array.from(this.conflicts.values());
+  }
+
+  /**
+   * Record that a note's document arrived without conflicts
+   */
+  markResolved(noteId: string): void {
+    const record = this.conflicts.get(noteId);
+    if (record && !record.resolvedAt) {
+      record.resolvedAt = new Date().toISOString();
+      logger.info({ noteId }, 'Conflict no longer present in CouchDB');
+    }
+  }
+
+  /**
+   * Forget a note's conflict (note was deleted)
+   */
+  clear(noteId: string): void {
+    if (this.conflicts.delete(noteId)) {
+      logger.info({ noteId }, 'Conflict cleared');
+    }
+  }
+
+  /**
+   * Resolve a conflicted document according to the configured policy
+   *
+   * @param doc - Winning revision as returned by CouchDB (with _conflicts)
+   * @param winnerContent - Assembled content of the winning revision
+   */
+  async resolve(doc: LiveSyncDocument, winnerContent: NoteContent): Promise<ConflictResolution> {
+    const path = doc.path ?? doc._id;
+    const winner: RevisionContent = { rev: doc._rev ?? '', doc, content: winnerContent };
+    const conflictRevs = [...(doc._conflicts ?? [])].sort();
+    const others = await this.loadRevisions(doc._id, conflictRevs);
+
+    logger.info(
+      { noteId: doc._id, winnerRev: winner.rev, conflictRevs, policy: this.policy },
+      'Resolving conflicted note'
+    );
+
+    let resolution: PolicyResult;
+    if (this.policy === 'newest') {
+      resolution = this.pickNewest(winner, others);
+    } else if (this.policy === 'merge') {
+      resolution = (await this.merge(doc, winner, others)) ?? this.keepBoth(path, winner, others);
+    } else {
+      resolution = this.keepBoth(path, winner, others);
+    }
+
+    const previous = this.conflicts.get(doc._id);
+    const record: ConflictRecord = {
+      noteId: doc._id,
+      path,
+      winnerRev: winner.rev,
+      conflictRevs,
+      policy: this.policy,
+      outcome: resolution.outcome,
+      chosenRev: resolution.chosenRev,
+      copies: resolution.copies.map((copy) => copy.path),
+      detectedAt: new Date().toISOString(),
+    };
+    const changed = !previous || !this.sameConflict(previous, record);
+    if (!changed) {
+      record.detectedAt = previous.detectedAt;
+    }
+
+    if (await this.resolveRemote(doc, winner, others, resolution)) {
+      record.resolvedAt = new Date().toISOString();
+    }
+    this.conflicts.set(doc._id, record);
+
+    return {
+      content: resolution.content,
+      mtime: resolution.mtime,
+      copies: resolution.copies,
+      record,
+      changed,
+    };
+  }
+
+  /**
+   * Build the conflict copy path: `folder/note.md` -> `folder/note.conflict-<rev>.md`
+   */
+  static conflictCopyPath(path: string, rev: string): string {
+    const { dir, name, ext } = posix.parse(path);
+    return posix.join(dir, `${name}.conflict-${rev}${ext}`);
+  }
+
+  /**
+   * True for paths built by conflictCopyPath
+   */
+  static isConflictCopyPath(path: string): boolean {
+    return CONFLICT_COPY_PATTERN.test(posix.basename(path));
+  }
+
+  /**
+   * Write the chosen or merged content as the winning revision, then delete
+   * the losing revisions. Returns false when CouchDB still holds the conflict,
+   * which is always the case without a document writer or when conflict
+   * copies were kept.
+   */
+  private async resolveRemote(
+    doc: LiveSyncDocument,
+    winner: RevisionContent,
+    others: RevisionContent[],
+    resolution: PolicyResult
+  ): Promise<boolean> {
+    if (!this.writer) {
+      logger.debug({ noteId: doc._id }, 'Push disabled, conflict left in CouchDB');
+      return false;
+    }
+    if (resolution.outcome === 'kept-both') {
+      // The copies only exist in the vault; deleting the revisions would lose them for other clients
+      logger.debug({ noteId: doc._id }, 'Conflict copies kept, losing revisions left in CouchDB');
+      return false;
+    }
+
+    try {
+      if (resolution.outcome === 'merged') {
+        await this.writer.writeDocument({
+          path: doc.path ?? doc._id,
+          content: resolution.content,
+          mtime: new Date(resolution.mtime ?? Date.now()),
+          ctime: new Date(doc.ctime ?? Date.now()),
+        });
+      } else if (resolution.chosenRev !== winner.rev) {
+        // Chunks are content-addressed, so the chosen metadata can be reused as is
+        const chosen = others.find((other) => other.rev === resolution.chosenRev)!;
+        const { _revisions, _conflicts, ...fields } = chosen.doc;
+        await this.storage.putDocument({ ...fields, _rev: winner.rev });
+      }
+
+      const deletions = (doc._conflicts ?? []).map(
+        (rev): LiveSyncDocument => ({ _id: doc._id, _rev: rev, _deleted: true })
+      );
+      const failed = (await this.storage.putDocuments(deletions)).filter((row) => row.error);
+      if (failed.length > 0) {
+        logger.warn(
+          { noteId: doc._id, errors: failed.map((row) => row.error) },
+          'Failed to delete conflicting revisions'
+        );
+        return false;
+      }
+
+      logger.info(
+        { noteId: doc._id, chosenRev: resolution.chosenRev, deleted: deletions.length },
+        'Conflict resolved in CouchDB'
+      );
+      return true;
+    } catch (error: any) {
+      logger.warn({ error: error.message, noteId: doc._id }, 'Failed to resolve conflict in CouchDB');
+      return false;
+    }
+  }
+
+  private pickNewest(winner: RevisionContent, others: RevisionContent[]): PolicyResult {
+    const newest = others.reduce(
+      (best, candidate) => ((candidate.doc.mtime ?? 0) > (best.doc.mtime ?? 0) ? candidate : best),
+      winner
+    );
+    return {
+      content: newest.content,
+      mtime: newest.doc.mtime,
+      copies: [],
+      outcome: 'newest',
+      chosenRev: newest.rev,
+    };
+  }
+
+  private keepBoth(path: string, winner: RevisionContent, others: RevisionContent[]): PolicyResult {
+    const copies = others.map((other): Note => {
+      const copyPath = ConflictResolver.conflictCopyPath(path, other.rev);
+      return {
+        id: copyPath,
+        path: copyPath,
+        content: other.content,
+        mtime: other.doc.mtime ? new Date(other.doc.mtime) : new Date(),
+        ctime: other.doc.ctime ? new Date(other.doc.ctime) : new Date(),
+        size: other.doc.size || 0,
+      };
+    });
+    return {
+      content: winner.content,
+      mtime: winner.doc.mtime,
+      copies,
+      outcome: 'kept-both',
+      chosenRev: winner.rev,
+    };
+  }
+
+  /**
+   * Merge each conflicting revision into the winner against their common
+   * ancestor. Returns null when a merge is not possible (binary content,
+   * ancestor unavailable, overlapping edits) so the caller can fall back.
+   */
+  private async merge(
+    doc: LiveSyncDocument,
+    winner: RevisionContent,
+    others: RevisionContent[]
+  ): Promise<PolicyResult | null> {
+    if (typeof winner.content !== 'string') {
+      return null;
+    }
+
+    const winnerHistory = await this.storage.getDocumentRevision(doc._id, winner.rev);
+    const winnerRevs = new Set(this.revisionHistory(winnerHistory));
+    let merged = winner.content;
+    let mtime = winner.doc.mtime ?? 0;
+
+    for (const other of others) {
+      if (typeof other.content !== 'string') {
+        return null;
+      }
+      const ancestorRev = this.revisionHistory(other.doc).find((rev) => winnerRevs.has(rev));
+      const ancestor = ancestorRev ? await this.loadRevisions(doc._id, [ancestorRev]) : [];
+      if (ancestor.length === 0 || typeof ancestor[0].content !== 'string') {
+        logger.warn({ noteId: doc._id, rev: other.rev }, 'Common ancestor unavailable, cannot merge');
+        return null;
+      }
+
+      const result = threeWayMerge(ancestor[0].content, merged, other.content);
+      if (!result.clean) {
+        logger.warn({ noteId: doc._id, rev: other.rev }, 'Overlapping edits, cannot merge');
+        return null;
+      }
+      merged = result.merged;
+      mtime = Math.max(mtime, other.doc.mtime ?? 0);
+    }
+
+    return {
+      content: merged,
+      mtime: mtime || undefined,
+      copies: [],
+      outcome: 'merged',
+      chosenRev: winner.rev,
+    };
+  }
+
+  /**
+   * Fetch and assemble revisions, skipping missing, deleted or unreadable ones
+   */
+  private async loadRevisions(id: string, revs: string[]): Promise<RevisionContent[]> {
+    const loaded: RevisionContent[] = [];
+    for (const rev of revs) {
+      try {
+        const doc = await this.storage.getDocumentRevision(id, rev);
+        if (!doc || doc.deleted || doc._deleted) {
+          logger.debug({ id, rev }, 'Conflicting revision missing or deleted');
+          continue;
+        }
+        const content = await this.assembler.assembleDocument(doc);
+        if (content === null) {
+          logger.warn({ id, rev }, 'Failed to assemble conflicting revision');
+          continue;
+        }
+        loaded.push({ rev, doc, content });
+      } catch (error: any) {
+        logger.warn({ error: error.message, id, rev }, 'Failed to load conflicting revision');
+      }
+    }
+    return loaded;
+  }
+
+  /**
+   * Revision IDs from newest to oldest, excluding the document's own revision
+   */
+  private revisionHistory(doc: LiveSyncDocument | null): string[] {
+    const revisions = doc?._revisions;
+    if (!revisions) {
+      return [];
+    }
+    return revisions.ids.slice(1).map((hash, index) => `${revisions.start - index - 1}-${hash}`);
+  }
+
+  private sameConflict(a: ConflictRecord, b: ConflictRecord): boolean {
+    return (
+      a.winnerRev === b.winnerRev &&
+      a.outcome === b.outcome &&
+      a.chosenRev === b.chosenRev &&
+      a.conflictRevs.join(',') === b.conflictRevs.join(',')
+    );
+  }
+}
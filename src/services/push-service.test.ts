@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PushService } from './push-service.js';
+import type { IDocumentAssembler, IDocumentStorage, IDocumentWriter } from '../core/interfaces.js';
+import type { LiveSyncDocument, Note } from '../types/index.js';
+import { MemoryNoteRepository } from '../repositories/memory-note-repository.js';
+import { ConflictResolver } from './conflict-resolver.js';
+
+function createNote(partial?: Partial<Note>): Note {
+  return {
+    id: 'note.md',
+    path: 'note.md',
+    content: 'local content',
+    mtime: new Date('2024-01-02T00:00:00Z'),
+    ctime: new Date('2024-01-01T00:00:00Z'),
+    size: 13,
+    ...partial,
+  };
+}
+
+describe('PushService', () => {
+  let repository: MemoryNoteRepository;
+  let mockStorage: IDocumentStorage;
+  let mockAssembler: IDocumentAssembler;
+  let mockWriter: IDocumentWriter;
+  let pushService: PushService;
+
+  beforeEach(() => {
+    repository = new MemoryNoteRepository();
+
+    mockStorage = {
+      getDocument: vi.fn(async () => null),
+      getDocuments: vi.fn(),
+      getAllDocuments: vi.fn(),
+    };
+
+    mockAssembler = {
+      assembleDocument: vi.fn(async () => 'remote content'),
+    };
+
+    mockWriter = {
+      writeDocument: vi.fn(async () => '1-abc'),
+      deleteDocument: vi.fn(async () => '2-abc'),
+    };
+
+    pushService = new PushService('/vault', repository, mockStorage, mockAssembler, mockWriter);
+  });
+
+  afterEach(() => {
+    pushService.stop();
+  });
+
+  it('should write new local notes to CouchDB', async () => {
+    const note = createNote();
+    await repository.save(note);
+
+    const result = await pushService.pushPath('note.md');
+
+    expect(result).toBe('written');
+    expect(mockWriter.writeDocument).toHaveBeenCalledWith({
+      path: 'note.md',
+      content: 'local content',
+      mtime: note.mtime,
+      ctime: note.ctime,
+    });
+  });
+
+  it('should skip notes whose content matches the remote document', async () => {
+    await repository.save(createNote({ content: 'remote content' }));
+    mockStorage.getDocument = vi.fn(async () => ({
+      _id: 'note.md',
+      _rev: '1-abc',
+      type: 'newnote',
+      path: 'note.md',
+    } as LiveSyncDocument));
+
+    const result = await pushService.pushPath('note.md');
+
+    expect(result).toBe('unchanged');
+    expect(mockWriter.writeDocument).not.toHaveBeenCalled();
+  });
+
+  it('should overwrite remote documents with different content', async () => {
+    await repository.save(createNote());
+    mockStorage.getDocument = vi.fn(async () => ({
+      _id: 'note.md',
+      _rev: '1-abc',
+      type: 'newnote',
+      path: 'note.md',
+    } as LiveSyncDocument));
+
+    expect(await pushService.pushPath('note.md')).toBe('written');
+  });
+
+  it('should soft-delete remote documents missing locally', async () => {
+    mockStorage.getDocument = vi.fn(async () => ({
+      _id: 'note.md',
+      _rev: '1-abc',
+      type: 'newnote',
+      path: 'note.md',
+    } as LiveSyncDocument));
+
+    const result = await pushService.pushPath('note.md');
+
+    expect(result).toBe('deleted');
+    expect(mockWriter.deleteDocument).toHaveBeenCalledWith('note.md');
+  });
+
+  it('should not push deletions for documents already deleted remotely', async () => {
+    mockStorage.getDocument = vi.fn(async () => ({
+      _id: 'note.md',
+      _rev: '2-abc',
+      deleted: true,
+    } as LiveSyncDocument));
+
+    expect(await pushService.pushPath('note.md')).toBe('unchanged');
+    expect(mockWriter.deleteDocument).not.toHaveBeenCalled();
+  });
+
+  it('should ignore hidden, internal and reserved paths', async () => {
+    expect(await pushService.pushPath('.obsidian/workspace.json')).toBe('ignored');
+    expect(await pushService.pushPath('folder/.hidden.md')).toBe('ignored');
+    expect(await pushService.pushPath('h:chunk')).toBe('ignored');
+    expect(await pushService.pushPath('_design.md')).toBe('ignored');
+    expect(mockStorage.getDocument).not.toHaveBeenCalled();
+  });
+
+  it('should ignore conflict copies', async () => {
+    const copyPath = ConflictResolver.conflictCopyPath('notes/todo.md', '3-abc');
+    await repository.save(createNote({ id: copyPath, path: copyPath }));
+
+    expect(await pushService.pushPath(copyPath)).toBe('ignored');
+    expect(await pushService.pushPath('notes/todo.conflict-3-abc')).toBe('ignored');
+    expect(mockWriter.writeDocument).not.toHaveBeenCalled();
+  });
+
+  it('should push notes that only mention conflicts in their name', async () => {
+    await repository.save(createNote({ id: 'notes/todo.conflict-notes.md', path: 'notes/todo.conflict-notes.md' }));
+
+    expect(await pushService.pushPath('notes/todo.conflict-notes.md')).toBe('written');
+  });
+
+  it('should serialize concurrent pushes for the same path', async () => {
+    await repository.save(createNote());
+    const order: string[] = [];
+    mockWriter.writeDocument = vi.fn(async () => {
+      order.push('start');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      order.push('end');
+      return '1-abc';
+    });
+
+    await Promise.all([pushService.pushPath('note.md'), pushService.pushPath('note.md')]);
+
+    expect(order).toEqual(['start', 'end', 'start', 'end']);
+  });
+});
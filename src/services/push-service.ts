@@ -0,0 +1,176 @@
+import { watch, type FSWatcher } from 'node:fs';
+import type { IDocumentAssembler, IDocumentStorage, IDocumentWriter } from '../core/interfaces.js';
+import type { NoteRepository } from '../repositories/note-repository.js';
+import logger from '../utils/logger.js';
+import { contentEquals } from '../utils/content-hash.js';
+import { ConflictResolver } from './conflict-resolver.js';
+
+export type PushResult = 'written' | 'deleted' | 'unchanged' | 'ignored';
+
+export interface PushServiceOptions {
+  /** Quiet period before a changed file is pushed (default 1000ms) */
+  debounceMs?: number;
+}
+
+/**
+ * Service for pushing local vault edits back to CouchDB
+ *
+ * Watches the vault directory and writes changed files through an
+ * IDocumentWriter. Before writing, the file is compared with the assembled
+ * remote document, so files written by SyncService itself are not echoed back.
+ */
+export class PushService {
+  private watcher?: FSWatcher;
+  private readonly debounceMs: number;
+  private readonly pending = new Map<string, NodeJS.Timeout>();
+  private readonly inFlight = new Map<string, Promise<PushResult>>();
+
+  constructor(
+    private readonly vaultPath: string,
+    private readonly repository: NoteRepository,
+    private readonly storage: IDocumentStorage,
+    private readonly assembler: IDocumentAssembler,
+    private readonly writer: IDocumentWriter,
+    options: PushServiceOptions = {},
+  ) {
+    this.debounceMs = options.debounceMs ?? 1000;
+  }
+
+  /**
+   * Start watching the vault for changes
+   */
+  start(): void {
+    if (this.watcher) {
+      logger.warn('Push watcher already running');
+      return;
+    }
+
+    logger.info({ vaultPath: this.vaultPath, debounceMs: this.debounceMs }, 'Starting push watcher');
+    this.watcher = watch(this.vaultPath, { recursive: true }, (_eventType, filename) => {
+      if (filename) {
+        this.schedule(filename.split('\\').join('/'));
+      }
+    });
+    this.watcher.on('error', (error) => {
+      logger.error({ error }, 'Push watcher error');
+    });
+  }
+
+  /**
+   * Stop watching and drop pending pushes
+   */
+  stop(): void {
+    this.pending.forEach((timer) => clearTimeout(timer));
+    this.pending.clear();
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = undefined;
+      logger.info('Push watcher stopped');
+    }
+  }
+
+  /**
+   * Push a single vault-relative path to CouchDB
+   *
+   * Missing files are soft-deleted remotely; unchanged content is skipped.
+   * Pushes for the same path are serialized.
+   */
+  async pushPath(path: string): Promise<PushResult> {
+    const previous = this.inFlight.get(path) ?? Promise.resolve<PushResult>('unchanged');
+    const next = previous
+      .catch(() => 'unchanged' as PushResult)
+      .then(() => this.doPush(path));
+    this.inFlight.set(path, next);
+
+    try {
+      return await next;
+    } finally {
+      if (this.inFlight.get(path) === next) {
+        this.inFlight.delete(path);
+      }
+    }
+  }
+
+  private schedule(path: string): void {
+    if (this.isIgnored(path)) {
+      return;
+    }
+
+    const existing = this.pending.get(path);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    this.pending.set(
+      path,
+      setTimeout(() => {
+        this.pending.delete(path);
+        this.pushPath(path).catch((error) => {
+          logger.error({ error, path }, 'Failed to push local change');
+        });
+      }, this.debounceMs),
+    );
+  }
+
+  private async doPush(path: string): Promise<PushResult> {
+    if (this.isIgnored(path)) {
+      logger.debug({ path }, 'Ignoring path for push');
+      return 'ignored';
+    }
+
+    let note;
+    try {
+      note = await this.repository.get(path);
+    } catch (error: any) {
+      // Directory events are reported by the watcher as well
+      if (error.code === 'EISDIR') {
+        return 'ignored';
+      }
+      throw error;
+    }
+
+    const remote = await this.storage.getDocument(path);
+    const remoteExists = !!remote && !remote.deleted && !remote._deleted;
+
+    if (!note) {
+      if (!remoteExists) {
+        return 'unchanged';
+      }
+      await this.writer.deleteDocument(path);
+      logger.info({ path }, 'Pushed local deletion');
+      return 'deleted';
+    }
+
+    if (remoteExists) {
+      const remoteContent = await this.assembler.assembleDocument(remote).catch((error) => {
+        logger.warn({ error: error.message, path }, 'Failed to assemble remote document, overwriting');
+        return null;
+      });
+      if (contentEquals(remoteContent, note.content)) {
+        logger.debug({ path }, 'Local content matches remote, skipping push');
+        return 'unchanged';
+      }
+    }
+
+    await this.writer.writeDocument({
+      path,
+      content: note.content,
+      mtime: note.mtime,
+      ctime: note.ctime,
+    });
+    logger.info({ path }, 'Pushed local change');
+    return 'written';
+  }
+
+  /**
+   * Hidden files/folders (.obsidian, .trash), paths that would be treated as
+   * internal documents (contain ':'), CouchDB-reserved ids ('_') and local
+   * conflict copies are not pushed.
+   */
+  private isIgnored(path: string): boolean {
+    if (!path || path.includes(':') || path.startsWith('_') || ConflictResolver.isConflictCopyPath(path)) {
+      return true;
+    }
+    return path.split('/').some((segment) => segment.startsWith('.'));
+  }
+}
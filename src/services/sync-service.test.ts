@@ -2,10 +2,13 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SyncService } from './sync-service.js';
 import { CouchDBClient } from '../core/couchdb-client.js';
 import type { IDocumentAssembler, IStateStorage } from '../core/interfaces.js';
-import type { LiveSyncDocument } from '../types/index.js';
+import { EventType } from '../types/index.js';
+import type { LiveSyncDocument, LiveSyncEvent } from '../types/index.js';
 import { MemoryNoteRepository } from '../repositories/memory-note-repository.js';
 import type { NoteRepository } from '../repositories/note-repository.js';
 import { EventBus } from '../core/event-bus.js';
+import { computeContentHash } from '../utils/content-hash.js';
+import metrics from '../utils/metrics.js';
 
 describe('SyncService', () => {
   let mockClient: CouchDBClient;
@@ -26,6 +29,14 @@ describe('SyncService', () => {
         update_seq: '123-abc',
       })),
       getChanges: vi.fn(),
+      waitForChanges: vi.fn(),
+      // Full sync pages through iterateDocuments; serve getAllDocuments as one batch
+      iterateDocuments: vi.fn(async function* () {
+        const documents = await mockClient.getAllDocuments();
+        if (documents.length > 0) {
+          yield documents;
+        }
+      }),
     } as any;
 
     // Mock StateStorage
@@ -549,6 +560,255 @@ new EventBus(),
     });
   });
 
+  describe('Batched full sync', () => {
+    const doc = (id: string): LiveSyncDocument => ({
+      _id: id,
+      _rev: '1-abc',
+      type: 'newnote',
+      path: id,
+      data: 'content',
+      mtime: Date.now(),
+      ctime: Date.now(),
+      size: 100,
+    });
+
+    it('should process each batch and checkpoint after it', async () => {
+      mockClient.iterateDocuments = vi.fn(async function* () {
+        yield [doc('a.md'), doc('b.md')];
+        yield [doc('c.md')];
+      }) as any;
+
+      await syncService.sync();
+
+      expect(mockAssembler.assembleDocument).toHaveBeenCalledTimes(3);
+      expect(await noteRepository.count()).toBe(3);
+      expect(mockStateStorage.updateState).toHaveBeenNthCalledWith(1, {
+        fullSyncCursor: 'b.md',
+        fullSyncSeq: '123-abc',
+      });
+      expect(mockStateStorage.updateState).toHaveBeenNthCalledWith(2, {
+        fullSyncCursor: 'c.md',
+        fullSyncSeq: '123-abc',
+      });
+      expect(mockStateStorage.updateState).toHaveBeenLastCalledWith(
+        expect.objectContaining({ lastSeq: '123-abc', fullSyncCursor: undefined, fullSyncSeq: undefined })
+      );
+    });
+
+    it('should capture update_seq before listing documents', async () => {
+      const order: string[] = [];
+      mockClient.getDatabaseInfo = vi.fn(async () => {
+        order.push('info');
+        return { update_seq: '100-before' };
+      }) as any;
+      mockClient.iterateDocuments = vi.fn(async function* () {
+        order.push('list');
+        yield [doc('a.md')];
+      }) as any;
+
+      await syncService.sync();
+
+      expect(order).toEqual(['info', 'list']);
+      expect(syncService.getStatus().lastSeq).toBe('100-before');
+    });
+
+    it('should resume an interrupted full sync from the checkpoint', async () => {
+      mockStateStorage.getState = vi.fn(async () => ({
+        fullSyncCursor: 'b.md',
+        fullSyncSeq: '90-resume',
+      }));
+      mockClient.iterateDocuments = vi.fn(async function* () {
+        yield [doc('c.md')];
+      }) as any;
+
+      await syncService.sync();
+
+      expect(mockClient.iterateDocuments).toHaveBeenCalledWith({ batchSize: 500, startAfter: 'b.md' });
+      expect(mockClient.getDatabaseInfo).not.toHaveBeenCalled();
+      expect(syncService.getStatus().lastSeq).toBe('90-resume');
+    });
+
+    it('should keep the checkpoint when a batch fails', async () => {
+      mockClient.iterateDocuments = vi.fn(async function* () {
+        yield [doc('a.md')];
+        throw new Error('timeout');
+      }) as any;
+
+      await expect(syncService.sync()).rejects.toThrow('timeout');
+
+      expect(mockStateStorage.updateState).toHaveBeenCalledTimes(1);
+      expect(mockStateStorage.updateState).toHaveBeenCalledWith({
+        fullSyncCursor: 'a.md',
+        fullSyncSeq: '123-abc',
+      });
+      expect(syncService.getStatus().lastSeq).toBeUndefined();
+    });
+  });
+
+  describe('Incremental sync checkpoints', () => {
+    const change = (id: string, seq: string) => ({
+      id,
+      seq,
+      changes: [{ rev: '1-abc' }],
+      doc: {
+        _id: id,
+        _rev: '1-abc',
+        type: 'newnote',
+        path: id,
+        data: 'content',
+        mtime: Date.now(),
+        ctime: Date.now(),
+        size: 100,
+      },
+    });
+
+    beforeEach(() => {
+      syncService = new SyncService(
+        mockClient,
+        mockStateStorage,
+        mockAssembler,
+        noteRepository,
+        new EventBus(),
+        { batchSize: 2 },
+      );
+    });
+
+    it('should checkpoint lastSeq after each batch of changes', async () => {
+      mockClient.getAllDocuments = vi.fn(async () => []);
+      await syncService.sync();
+      vi.mocked(mockStateStorage.updateState).mockClear();
+
+      mockClient.getChanges = vi.fn(async () => ({
+        results: [change('a.md', '124-a'), change('b.md', '125-b'), change('c.md', '126-c')],
+        last_seq: '126-c',
+        pending: 0,
+      })) as any;
+
+      await syncService.sync();
+
+      expect(mockStateStorage.updateState).toHaveBeenNthCalledWith(1, { lastSeq: '125-b' });
+      expect(mockStateStorage.updateState).toHaveBeenLastCalledWith(
+        expect.objectContaining({ lastSeq: '126-c' })
+      );
+      expect(await noteRepository.count()).toBe(3);
+    });
+
+    it('should resume from the last checkpoint when a later batch fails', async () => {
+      mockClient.getAllDocuments = vi.fn(async () => []);
+      await syncService.sync();
+
+      mockClient.getChanges = vi.fn(async () => ({
+        results: [change('a.md', '124-a'), change('b.md', '125-b'), change('c.md', '126-c')],
+        last_seq: '126-c',
+        pending: 0,
+      })) as any;
+      vi.spyOn(noteRepository, 'saveMany')
+        .mockImplementationOnce(async (notes) => {
+          for (const note of notes) await noteRepository.save(note);
+        })
+        .mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(syncService.sync()).rejects.toThrow('disk full');
+
+      expect(syncService.getStatus().lastSeq).toBe('125-b');
+      expect(mockStateStorage.updateState).toHaveBeenLastCalledWith({ lastSeq: '125-b' });
+    });
+  });
+
+  describe('Changes feed', () => {
+    const changeFor = (id: string, seq: string) => ({
+      results: [
+        {
+          id,
+          seq,
+          changes: [{ rev: '1-abc' }],
+          doc: {
+            _id: id,
+            _rev: '1-abc',
+            type: 'newnote',
+            path: id,
+            data: 'content',
+            mtime: Date.now(),
+            ctime: Date.now(),
+            size: 100,
+          },
+        },
+      ],
+      last_seq: seq,
+      pending: 0,
+    });
+
+    // Resolves only when the feed is aborted, like an idle longpoll request
+    const idleFeed = (_since: string, options: { signal?: AbortSignal }) =>
+      new Promise((_resolve, reject) => {
+        options.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+
+    it('should run a full sync first and then apply changes as they arrive', async () => {
+      mockClient.getAllDocuments = vi.fn(async () => []);
+      mockClient.waitForChanges = vi.fn()
+        .mockResolvedValueOnce(changeFor('live.md', '124-live'))
+        .mockImplementation(idleFeed) as any;
+
+      syncService.startChangesFeed({ minBackoffMs: 5 });
+
+      await vi.waitFor(async () => {
+        expect(await syncService.getNote('live.md')).toBeDefined();
+      });
+      expect(mockClient.getAllDocuments).toHaveBeenCalledTimes(1);
+      expect(mockClient.waitForChanges).toHaveBeenCalledWith(
+        '123-abc',
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+      await vi.waitFor(() => {
+        expect(mockClient.waitForChanges).toHaveBeenCalledWith('124-live', expect.anything());
+      });
+      expect(syncService.getStatus().lastSeq).toBe('124-live');
+      expect(mockClient.getChanges).not.toHaveBeenCalled();
+    });
+
+    it('should reconnect with backoff when the feed drops', async () => {
+      mockClient.getAllDocuments = vi.fn(async () => []);
+      mockClient.waitForChanges = vi.fn()
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockResolvedValueOnce(changeFor('after-reconnect.md', '130-x'))
+        .mockImplementation(idleFeed) as any;
+
+      syncService.startChangesFeed({ minBackoffMs: 5, maxBackoffMs: 20 });
+
+      await vi.waitFor(async () => {
+        expect(await syncService.getNote('after-reconnect.md')).toBeDefined();
+      });
+      expect(mockClient.waitForChanges).toHaveBeenCalledTimes(4);
+    });
+
+    it('should stop waiting on the feed when auto-sync is stopped', async () => {
+      mockClient.getAllDocuments = vi.fn(async () => []);
+      mockClient.waitForChanges = vi.fn().mockImplementation(idleFeed) as any;
+
+      syncService.startChangesFeed({ minBackoffMs: 5 });
+      await vi.waitFor(() => {
+        expect(mockClient.waitForChanges).toHaveBeenCalledTimes(1);
+      });
+
+      syncService.stopAutoSync();
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      expect(mockClient.waitForChanges).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not start interval polling while the feed is running', () => {
+      mockClient.getAllDocuments = vi.fn(async () => []);
+      mockClient.waitForChanges = vi.fn().mockImplementation(idleFeed) as any;
+
+      syncService.startChangesFeed();
+      syncService.startAutoSync(1000);
+
+      expect((syncService as any).syncInterval).toBeUndefined();
+    });
+  });
+
   describe('Custom assembler', () => {
     it('should allow injecting custom assembler', async () => {
       const customAssembler: IDocumentAssembler = {
@@ -945,6 +1205,312 @@ new EventBus(),
       expect(repoMock.deleteMany).toHaveBeenCalledWith(['obsolete.md']);
     });
   });
+  describe('Note events', () => {
+    let eventBus: EventBus;
+    let events: LiveSyncEvent[];
+
+    const noteDoc = (id: string): LiveSyncDocument => ({
+      _id: id,
+      _rev: '1-abc',
+      type: 'newnote',
+      path: id,
+      data: 'content',
+      mtime: 1704067200000,
+      ctime: 1704067200000,
+      size: 100,
+    });
+
+    const eventsOf = (type: EventType) => events.filter((event) => event.type === type);
+
+    beforeEach(() => {
+      eventBus = new EventBus();
+      events = [];
+      eventBus.subscribe('*', (event) => {
+        events.push(event);
+      });
+      syncService = new SyncService(
+        mockClient,
+        mockStateStorage,
+        mockAssembler,
+        noteRepository,
+        eventBus,
+      );
+    });
+
+    it('should emit NoteUpserted per saved note sharing the sync run id', async () => {
+      mockClient.getAllDocuments = vi.fn(async () => [noteDoc('a.md'), noteDoc('b.md')]);
+
+      await syncService.sync();
+
+      const started = eventsOf(EventType.SyncStarted)[0];
+      const completed = eventsOf(EventType.SyncCompleted)[0];
+      const upserts = eventsOf(EventType.NoteUpserted);
+      const syncRunId = started.payload?.syncRunId;
+
+      expect(syncRunId).toEqual(expect.any(String));
+      expect(completed.payload?.syncRunId).toBe(syncRunId);
+      expect(upserts.map((event) => event.payload)).toEqual([
+        {
+          noteId: 'a.md',
+          path: 'a.md',
+          mtime: 1704067200000,
+          contentHash: computeContentHash('Content of a.md'),
+          size: expect.any(Number),
+          tags: [],
+          syncMode: 'full',
+          syncRunId,
+          lastSeq: undefined,
+        },
+        expect.objectContaining({ noteId: 'b.md', syncRunId }),
+      ]);
+    });
+
+    it('should only emit NoteUpserted when content changed', async () => {
+      mockClient.getAllDocuments = vi.fn(async () => [noteDoc('a.md')]);
+      await syncService.sync();
+
+      const changes = {
+        results: [
+          { id: 'a.md', seq: '124-a', changes: [{ rev: '2-abc' }], doc: noteDoc('a.md') },
+          { id: 'b.md', seq: '125-b', changes: [{ rev: '1-abc' }], doc: noteDoc('b.md') },
+        ],
+        last_seq: '125-b',
+        pending: 0,
+      };
+      mockClient.getChanges = vi.fn(async () => changes) as any;
+      events = [];
+
+      await syncService.sync();
+
+      const upserts = eventsOf(EventType.NoteUpserted);
+      expect(upserts).toHaveLength(1);
+      expect(upserts[0].payload).toEqual(
+        expect.objectContaining({
+          noteId: 'b.md',
+          syncMode: 'incremental',
+          lastSeq: '125-b',
+          syncRunId: eventsOf(EventType.SyncStarted)[0].payload?.syncRunId,
+        })
+      );
+    });
+
+    it('should emit NoteDeleted for deleted notes with their path', async () => {
+      mockClient.getAllDocuments = vi.fn(async () => [noteDoc('gone.md')]);
+      await syncService.sync();
+
+      mockClient.getChanges = vi.fn(async () => ({
+        results: [{ id: 'gone.md', seq: '124-del', changes: [{ rev: '2-del' }], deleted: true }],
+        last_seq: '124-del',
+        pending: 0,
+      })) as any;
+      events = [];
+
+      await syncService.sync();
+
+      const deletions = eventsOf(EventType.NoteDeleted);
+      expect(deletions).toHaveLength(1);
+      expect(deletions[0].payload).toEqual({
+        noteId: 'gone.md',
+        path: 'gone.md',
+        syncMode: 'incremental',
+        syncRunId: eventsOf(EventType.SyncCompleted)[0].payload?.syncRunId,
+        lastSeq: '124-del',
+      });
+    });
+  });
+
+  describe('Conflicts', () => {
+    let eventBus: EventBus;
+    let events: LiveSyncEvent[];
+
+    const conflicted: LiveSyncDocument = {
+      _id: 'clash.md',
+      _rev: '2-win',
+      type: 'newnote',
+      path: 'clash.md',
+      data: 'winner',
+      mtime: 1000,
+      ctime: 1000,
+      size: 6,
+      _conflicts: ['2-lose'],
+    };
+
+    beforeEach(() => {
+      eventBus = new EventBus();
+      events = [];
+      eventBus.subscribe(EventType.ConflictResolved, (event) => {
+        events.push(event);
+      });
+      (mockClient as any).putDocument = vi.fn(async (doc: LiveSyncDocument) => ({ id: doc._id, rev: '3-res' }));
+      (mockClient as any).putDocuments = vi.fn(async (docs: LiveSyncDocument[]) =>
+        docs.map((doc) => ({ id: doc._id, rev: '3-del' }))
+      );
+      (mockClient as any).getDocumentRevision = vi.fn(async (_id: string, rev: string) => ({
+        ...conflicted,
+        _rev: rev,
+        _conflicts: undefined,
+        path: 'clash.md',
+        mtime: 2000,
+      }));
+      mockAssembler.assembleDocument = vi.fn(async (doc: LiveSyncDocument) => `Content of ${doc._rev}`);
+      syncService = new SyncService(
+        mockClient,
+        mockStateStorage,
+        mockAssembler,
+        noteRepository,
+        eventBus,
+        { conflictPolicy: 'keep-both', writer: { writeDocument: vi.fn(), deleteDocument: vi.fn() } },
+      );
+    });
+
+    const pushingNewest = () =>
+      new SyncService(mockClient, mockStateStorage, mockAssembler, noteRepository, eventBus, {
+        conflictPolicy: 'newest',
+        writer: { writeDocument: vi.fn(), deleteDocument: vi.fn() },
+      });
+
+    it('should apply the conflict policy, expose the conflict and emit one event', async () => {
+      mockClient.getAllDocuments = vi.fn(async () => [conflicted]);
+
+      await syncService.sync();
+
+      expect((await noteRepository.get('clash.md'))?.content).toBe('Content of 2-win');
+      expect((await noteRepository.get('clash.conflict-2-lose.md'))?.content).toBe('Content of 2-lose');
+      // Conflict copies are local only, so the losing revision must survive in CouchDB
+      expect(mockClient.putDocuments).not.toHaveBeenCalled();
+      expect(syncService.getConflicts()).toEqual([
+        expect.objectContaining({ noteId: 'clash.md', policy: 'keep-both', outcome: 'kept-both' }),
+      ]);
+      expect(events).toHaveLength(1);
+      expect(events[0].payload).toMatchObject({
+        noteId: 'clash.md',
+        winnerRev: '2-win',
+        conflictRevs: ['2-lose'],
+        copies: ['clash.conflict-2-lose.md'],
+        syncMode: 'full',
+      });
+    });
+
+    it('should leave CouchDB untouched when pushing is disabled', async () => {
+      syncService = new SyncService(mockClient, mockStateStorage, mockAssembler, noteRepository, eventBus, {
+        conflictPolicy: 'newest',
+      });
+      mockClient.getAllDocuments = vi.fn(async () => [conflicted]);
+
+      await syncService.sync();
+
+      expect((await noteRepository.get('clash.md'))?.content).toBe('Content of 2-lose');
+      expect(mockClient.putDocument).not.toHaveBeenCalled();
+      expect(mockClient.putDocuments).not.toHaveBeenCalled();
+      expect(syncService.getConflicts()).toEqual([expect.objectContaining({ noteId: 'clash.md', outcome: 'newest' })]);
+    });
+
+    it('should expose conflicts that could not be resolved in CouchDB', async () => {
+      syncService = pushingNewest();
+      mockClient.putDocuments = vi.fn(async (docs: LiveSyncDocument[]) =>
+        docs.map((doc) => ({ id: doc._id, error: 'conflict' }))
+      );
+      mockClient.getAllDocuments = vi.fn(async () => [conflicted]);
+
+      await syncService.sync();
+
+      expect(syncService.getConflicts()).toEqual([
+        expect.objectContaining({ noteId: 'clash.md', policy: 'newest', outcome: 'newest' }),
+      ]);
+    });
+
+    it('should not report the conflict again once it is resolved in CouchDB', async () => {
+      syncService = pushingNewest();
+      // CouchDB drops _conflicts once the losing revision is deleted
+      let current = conflicted;
+      mockClient.putDocuments = vi.fn(async (docs: LiveSyncDocument[]) => {
+        current = { ...conflicted, _conflicts: undefined };
+        return docs.map((doc) => ({ id: doc._id, rev: '3-del' }));
+      });
+      mockClient.getAllDocuments = vi.fn(async () => [current]);
+      await syncService.sync();
+
+      mockClient.getChanges = vi.fn(async () => ({
+        results: [{ id: 'clash.md', seq: '124-abc', changes: [{ rev: current._rev }], doc: current }],
+        last_seq: '124-abc',
+        pending: 0,
+      })) as any;
+      await syncService.sync();
+
+      expect(mockClient.putDocuments).toHaveBeenCalledTimes(1);
+      expect(syncService.getConflicts()).toEqual([
+        expect.objectContaining({ noteId: 'clash.md', outcome: 'newest', resolvedAt: expect.any(String) }),
+      ]);
+      expect(events).toHaveLength(1);
+    });
+
+    it('should mark the conflict resolved once the document arrives without conflicts', async () => {
+      mockClient.getAllDocuments = vi.fn(async () => [conflicted]);
+      await syncService.sync();
+
+      mockClient.getChanges = vi.fn(async () => ({
+        results: [
+          {
+            id: 'clash.md',
+            seq: '124-abc',
+            changes: [{ rev: '3-res' }],
+            doc: { ...conflicted, _rev: '3-res', _conflicts: undefined },
+          },
+        ],
+        last_seq: '124-abc',
+        pending: 0,
+      })) as any;
+      await syncService.sync();
+
+      expect(syncService.getConflicts()).toEqual([
+        expect.objectContaining({ noteId: 'clash.md', outcome: 'kept-both', resolvedAt: expect.any(String) }),
+      ]);
+      expect(events).toHaveLength(1);
+    });
+
+    it('should forget the conflict once the note is deleted', async () => {
+      mockClient.getAllDocuments = vi.fn(async () => [conflicted]);
+      await syncService.sync();
+
+      mockClient.getChanges = vi.fn(async () => ({
+        results: [{ id: 'clash.md', seq: '124-abc', changes: [{ rev: '3-del' }], deleted: true }],
+        last_seq: '124-abc',
+        pending: 0,
+      })) as any;
+      await syncService.sync();
+
+      expect(syncService.getConflicts()).toEqual([]);
+    });
+  });
+
+  describe('Metrics', () => {
+    it('should record sync duration and document counts', async () => {
+      const durationBefore = metrics.syncDuration.get({ mode: 'full', result: 'success' })?.count ?? 0;
+      const processedBefore = metrics.documents.get({ result: 'processed' });
+      const skippedBefore = metrics.documents.get({ result: 'skipped' });
+      mockClient.getAllDocuments = vi.fn(async () => [
+        { _id: 'a.md', type: 'newnote', path: 'a.md', data: 'x' } as LiveSyncDocument,
+        { _id: 'h:chunk', type: 'leaf', data: 'x' } as LiveSyncDocument,
+      ]);
+
+      await syncService.sync();
+
+      expect(metrics.syncDuration.get({ mode: 'full', result: 'success' })?.count).toBe(durationBefore + 1);
+      expect(metrics.documents.get({ result: 'processed' })).toBe(processedBefore + 1);
+      expect(metrics.documents.get({ result: 'skipped' })).toBe(skippedBefore + 1);
+    });
+
+    it('should report the sequence lag behind update_seq', async () => {
+      expect(await syncService.getSeqLag()).toBeUndefined();
+
+      mockClient.getAllDocuments = vi.fn(async () => []);
+      await syncService.sync();
+      mockClient.getDatabaseInfo = vi.fn(async () => ({ update_seq: '130-xyz' })) as any;
+
+      expect(await syncService.getSeqLag()).toBe(7);
+    });
+  });
+
   describe('initialize', () => {
     it('forces full sync when repository empty but state has lastSeq', async () => {
       mockStateStorage.getState = vi.fn(async () => ({ lastSeq: '42-abc' }));
@@ -975,6 +1541,7 @@ type NoteRepositoryMock = NoteRepository & {
   deleteMany: ReturnType<typeof vi.fn>;
   get: ReturnType<typeof vi.fn>;
   getAll: ReturnType<typeof vi.fn>;
+  listIds: ReturnType<typeof vi.fn>;
   search: ReturnType<typeof vi.fn>;
   count: ReturnType<typeof vi.fn>;
 };
@@ -987,6 +1554,7 @@ function createRepositoryMock(): NoteRepositoryMock {
     deleteMany: vi.fn(async () => {}),
     get: vi.fn(async () => undefined),
     getAll: vi.fn(async () => []),
+    listIds: vi.fn(async () => []),
     search: vi.fn(async () => []),
     count: vi.fn(async () => 0),
   };
@@ -1,9 +1,58 @@
+import { randomUUID } from 'node:crypto';
+import type Nano from 'nano';
 import { CouchDBClient } from '../core/couchdb-client.js';
-import type { IDocumentAssembler, IStateStorage } from '../core/interfaces.js';
-import { SyncStatus, LiveSyncDocument, Note, EventType } from '../types/index.js';
+import type { IDocumentAssembler, IDocumentWriter, IStateStorage } from '../core/interfaces.js';
+import {
+  SyncStatus,
+  LiveSyncDocument,
+  Note,
+  EventType,
+  NoteUpsertedPayload,
+  NoteDeletedPayload,
+  ConflictPolicy,
+  ConflictRecord,
+  ConflictResolvedPayload,
+} from '../types/index.js';
 import type { NoteRepository } from '../repositories/note-repository.js';
 import logger from '../utils/logger.js';
+import { computeContentHash } from '../utils/content-hash.js';
+import { extractTags } from '../utils/note-tags.js';
+import metrics from '../utils/metrics.js';
 import type { IEventBus } from '../core/event-bus.js';
+import { ConflictResolver } from './conflict-resolver.js';
+
+/**
+ * Identifies a single sync run; shared by all events it emits
+ */
+interface SyncRunContext {
+  syncMode: 'full' | 'incremental';
+  syncRunId: string;
+  lastSeq?: string;
+}
+
+/**
+ * Options for the live changes feed
+ */
+export interface ChangesFeedOptions {
+  /** Heartbeat interval sent by CouchDB to keep the connection open (default 30s) */
+  heartbeatMs?: number;
+  /** First reconnect delay after the feed drops (default 1s) */
+  minBackoffMs?: number;
+  /** Upper bound for the exponential reconnect delay (default 60s) */
+  maxBackoffMs?: number;
+}
+
+/**
+ * Tuning options for SyncService
+ */
+export interface SyncServiceOptions {
+  /** Documents fetched and assembled per full sync batch (default 500) */
+  batchSize?: number;
+  /** How notes with conflicting revisions are written (default newest) */
+  conflictPolicy?: ConflictPolicy;
+  /** Resolves conflicts in CouchDB too; leave unset to only resolve them in the vault */
+  writer?: IDocumentWriter;
+}
 
 /**
  * Service for managing synchronization with CouchDB
@@ -15,8 +64,11 @@ export class SyncService {
   private stateStorage: IStateStorage;
   private status: SyncStatus;
   private syncInterval?: NodeJS.Timeout;
+  private feedController?: AbortController;
   private repository: NoteRepository;
   private eventBus: IEventBus;
+  private readonly batchSize: number;
+  private readonly conflictResolver: ConflictResolver;
 
   constructor(
     client: CouchDBClient,
@@ -24,12 +76,20 @@ export class SyncService {
     assembler: IDocumentAssembler,
     repository: NoteRepository,
     eventBus: IEventBus,
+    options: SyncServiceOptions = {},
   ) {
     this.client = client;
     this.stateStorage = stateStorage;
     this.assembler = assembler;
     this.repository = repository;
     this.eventBus = eventBus;
+    this.batchSize = options.batchSize ?? 500;
+    this.conflictResolver = new ConflictResolver(
+      client,
+      assembler,
+      options.conflictPolicy,
+      options.writer,
+    );
     this.status = {
       isRunning: false,
       lastSyncTime: null,
@@ -77,7 +137,7 @@ export class SyncService {
    * Start automatic synchronization
    */
   startAutoSync(intervalMs: number): void {
-    if (this.syncInterval) {
+    if (this.syncInterval || this.feedController) {
       logger.warn('Auto-sync already running');
       return;
     }
@@ -96,7 +156,25 @@ export class SyncService {
   }
 
   /**
-   * Stop automatic synchronization
+   * Start live synchronization via a longpoll changes feed
+   * Changes are applied as they arrive; the feed reconnects with exponential backoff
+   */
+  startChangesFeed(options: ChangesFeedOptions = {}): void {
+    if (this.syncInterval || this.feedController) {
+      logger.warn('Auto-sync already running');
+      return;
+    }
+
+    logger.info({ heartbeatMs: options.heartbeatMs }, 'Starting changes feed');
+    const controller = new AbortController();
+    this.feedController = controller;
+    this.runChangesFeed(controller.signal, options).catch((error) => {
+      logger.error({ error }, 'Changes feed stopped unexpectedly');
+    });
+  }
+
+  /**
+   * Stop automatic synchronization (interval polling or changes feed)
    */
   stopAutoSync(): void {
     if (this.syncInterval) {
@@ -104,6 +182,11 @@ export class SyncService {
       this.syncInterval = undefined;
       logger.info('Auto-sync stopped');
     }
+    if (this.feedController) {
+      this.feedController.abort();
+      this.feedController = undefined;
+      logger.info('Changes feed stopped');
+    }
   }
 
   /**
@@ -127,7 +210,12 @@ export class SyncService {
   }
 
   /**
-   * Perform a full synchronization (fetch all documents)
+   * Perform a full synchronization (page through all documents)
+   *
+   * Documents are fetched, assembled and saved batch by batch, with a
+   * checkpoint after each batch so an interrupted full sync resumes where it
+   * stopped. The database update_seq is captured up front so changes made
+   * during the full sync are picked up by the next incremental sync.
    */
   private async fullSync(): Promise<void> {
     if (this.status.isRunning) {
@@ -136,16 +224,43 @@ export class SyncService {
     }
 
     this.status.isRunning = true;
-    this.emitEvent(EventType.SyncStarted, { mode: 'full' });
-    logger.info('Starting full sync');
+    const endTimer = metrics.syncDuration.startTimer({ mode: 'full' });
+    let outcome = 'failure';
+    const run: SyncRunContext = { syncMode: 'full', syncRunId: randomUUID() };
+    this.emitEvent(EventType.SyncStarted, { mode: 'full', syncRunId: run.syncRunId });
+    logger.info({ syncRunId: run.syncRunId }, 'Starting full sync');
 
     try {
-      const documents = await this.client.getAllDocuments();
-      const result = await this.processDocuments(documents);
+      const state = await this.stateStorage.getState();
+      let since: string;
+      let startAfter: string | undefined;
+      if (state.fullSyncCursor && state.fullSyncSeq) {
+        since = state.fullSyncSeq;
+        startAfter = state.fullSyncCursor;
+        logger.info({ startAfter, since }, 'Resuming interrupted full sync');
+      } else {
+        const dbInfo = await this.client.getDatabaseInfo();
+        since = String(dbInfo.update_seq);
+      }
+
+      let documentsCount = 0;
+      const result = { processedCount: 0, skippedCount: 0, errorCount: 0 };
+
+      for await (const batch of this.client.iterateDocuments({ batchSize: this.batchSize, startAfter })) {
+        const batchResult = await this.processDocuments(batch, run);
+        documentsCount += batch.length;
+        result.processedCount += batchResult.processedCount;
+        result.skippedCount += batchResult.skippedCount;
+        result.errorCount += batchResult.errorCount;
+
+        await this.stateStorage.updateState({
+          fullSyncCursor: batch[batch.length - 1]._id,
+          fullSyncSeq: since,
+        });
+        logger.debug({ documentsCount, processed: result.processedCount }, 'Full sync batch checkpointed');
+      }
 
-      // Get current database update_seq for next incremental sync
-      const dbInfo = await this.client.getDatabaseInfo();
-      this.status.lastSeq = String(dbInfo.update_seq);
+      this.status.lastSeq = since;
 
       const notesCount = await this.repository.count();
 
@@ -154,19 +269,24 @@ export class SyncService {
       this.status.documentsCount = result.processedCount;
       delete this.status.error;
 
-      // Persist state for incremental sync
+      // Persist state for incremental sync and clear the full sync checkpoint
       await this.stateStorage.updateState({
         lastSeq: this.status.lastSeq,
         lastSyncTime: new Date().toISOString(),
+        fullSyncCursor: undefined,
+        fullSyncSeq: undefined,
       });
 
+      outcome = 'success';
+      metrics.lastSyncTimestamp.set({ mode: 'full' }, Date.now() / 1000);
       logger.info(
-        { count: documents.length, processed: result.processedCount, notesCount, lastSeq: this.status.lastSeq },
+        { count: documentsCount, processed: result.processedCount, notesCount, lastSeq: this.status.lastSeq },
         'Full sync completed successfully'
       );
       this.emitEvent(EventType.SyncCompleted, {
         mode: 'full',
-        documentsCount: documents.length,
+        syncRunId: run.syncRunId,
+        documentsCount,
         processedCount: result.processedCount,
         notesCount,
         lastSeq: this.status.lastSeq,
@@ -177,30 +297,99 @@ export class SyncService {
       logger.error({ error }, 'Full sync failed');
       this.emitEvent(EventType.SyncFailed, {
         mode: 'full',
+        syncRunId: run.syncRunId,
         error: error.message,
       });
       throw error;
     } finally {
+      endTimer({ result: outcome });
       this.status.isRunning = false;
     }
   }
 
+  /**
+   * Changes feed loop: full sync first if needed, then wait on longpoll
+   * requests and apply each batch of changes via incrementalSync
+   */
+  private async runChangesFeed(signal: AbortSignal, options: ChangesFeedOptions): Promise<void> {
+    const minBackoffMs = options.minBackoffMs ?? 1000;
+    const maxBackoffMs = options.maxBackoffMs ?? 60000;
+    let failures = 0;
+
+    while (!signal.aborted) {
+      try {
+        // A manual sync is in progress; let it finish before resuming the feed
+        if (this.status.isRunning) {
+          await this.delay(minBackoffMs, signal);
+          continue;
+        }
+
+        if (!this.status.lastSeq) {
+          await this.sync();
+        } else {
+          const since = this.status.lastSeq;
+          const changes = await this.client.waitForChanges(since, {
+            heartbeatMs: options.heartbeatMs,
+            signal,
+          });
+
+          // Skip stale batches if another sync advanced lastSeq meanwhile
+          if (!signal.aborted && this.status.lastSeq === since && changes.results?.length) {
+            await this.incrementalSync(changes);
+          }
+        }
+        failures = 0;
+      } catch (error) {
+        if (signal.aborted) {
+          break;
+        }
+        failures++;
+        const delayMs = Math.min(minBackoffMs * 2 ** (failures - 1), maxBackoffMs);
+        logger.warn({ error, failures, delayMs }, 'Changes feed interrupted, reconnecting');
+        await this.delay(delayMs, signal);
+      }
+    }
+  }
+
+  /**
+   * Sleep that resolves early when the signal aborts
+   */
+  private delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal.addEventListener('abort', done, { once: true });
+    });
+  }
+
   /**
    * Perform an incremental synchronization (fetch only changes since lastSeq)
+   * Changes already received from the changes feed can be passed in directly.
    */
-  private async incrementalSync(): Promise<void> {
+  private async incrementalSync(prefetched?: Nano.DatabaseChangesResponse): Promise<void> {
     if (this.status.isRunning) {
       logger.warn('Sync already in progress');
       return;
     }
 
     this.status.isRunning = true;
-    this.emitEvent(EventType.SyncStarted, { mode: 'incremental', lastSeq: this.status.lastSeq });
-    logger.info({ lastSeq: this.status.lastSeq }, 'Starting incremental sync');
+    const endTimer = metrics.syncDuration.startTimer({ mode: 'incremental' });
+    let outcome = 'failure';
+    const run: SyncRunContext = { syncMode: 'incremental', syncRunId: randomUUID() };
+    this.emitEvent(EventType.SyncStarted, {
+      mode: 'incremental',
+      syncRunId: run.syncRunId,
+      lastSeq: this.status.lastSeq,
+    });
+    logger.info({ lastSeq: this.status.lastSeq, syncRunId: run.syncRunId }, 'Starting incremental sync');
 
     try {
       // Get changes since last sync
-      const changes = await this.client.getChanges(this.status.lastSeq);
+      const changes = prefetched ?? await this.client.getChanges(this.status.lastSeq);
 
       if (!changes.results || changes.results.length === 0) {
         logger.info('No changes detected');
@@ -212,6 +401,7 @@ export class SyncService {
         const notesCount = await this.repository.count();
         this.emitEvent(EventType.SyncCompleted, {
           mode: 'incremental',
+          syncRunId: run.syncRunId,
           changedCount: 0,
           deletedCount: 0,
           notesCount,
@@ -221,53 +411,30 @@ export class SyncService {
           lastSeq: this.status.lastSeq,
           lastSyncTime: now.toISOString(),
         });
+        outcome = 'success';
+        metrics.lastSyncTimestamp.set({ mode: 'incremental' }, Date.now() / 1000);
         return;
       }
 
       logger.info({ changesCount: changes.results.length }, 'Processing changes');
+      run.lastSeq = String(changes.last_seq);
 
-      // Separate changed documents and deleted documents
-      const changedDocs: LiveSyncDocument[] = [];
-      const deletedIds: string[] = [];
-
-      for (const change of changes.results) {
-        // Skip internal documents (containing ':')
-        if (change.id.includes(':')) {
-          continue;
-        }
-
-        // Type assertion: CouchDB changes API with include_docs=true returns a 'doc' field
-        // containing the full document content. This is confirmed in the official CouchDB docs:
-        // https://docs.couchdb.org/en/stable/api/database/changes.html#get--db-_changes
-        // Quote: "Include the associated document with each result."
-        // However, Nano's TypeScript types don't include this field, so we use 'as any'.
-        const changeWithDoc = change as any;
-
-        // Handle deleted documents
-        if (change.deleted || changeWithDoc.doc?.deleted || changeWithDoc.doc?._deleted) {
-          deletedIds.push(change.id);
-          logger.debug({ id: change.id }, 'Document marked for deletion');
-          continue;
-        }
-
-        // Collect changed documents
-        if (changeWithDoc.doc) {
-          changedDocs.push(changeWithDoc.doc as LiveSyncDocument);
-        }
-      }
-
-      // Process changed documents
+      // Apply changes in batches, checkpointing lastSeq after each one so a
+      // restart resumes from the last processed sequence
       let processedChanged = 0;
-      if (changedDocs.length > 0) {
-        const result = await this.processDocuments(changedDocs);
-        processedChanged = result.processedCount;
-        logger.info({ count: processedChanged }, 'Processed changed documents');
-      }
-
-      // Remove deleted notes from memory
-      if (deletedIds.length > 0) {
-        await this.repository.deleteMany(deletedIds);
-        logger.info({ count: deletedIds.length }, 'Removed deleted documents');
+      let deletedCount = 0;
+      for (let offset = 0; offset < changes.results.length; offset += this.batchSize) {
+        const batch = changes.results.slice(offset, offset + this.batchSize);
+        const batchResult = await this.applyChanges(batch, run);
+        processedChanged += batchResult.processedCount;
+        deletedCount += batchResult.deletedCount;
+
+        const checkpointSeq = batch[batch.length - 1].seq;
+        if (checkpointSeq !== undefined && offset + this.batchSize < changes.results.length) {
+          this.status.lastSeq = String(checkpointSeq);
+          await this.stateStorage.updateState({ lastSeq: this.status.lastSeq });
+          logger.debug({ lastSeq: this.status.lastSeq }, 'Incremental sync batch checkpointed');
+        }
       }
 
       // Update lastSeq to the latest
@@ -284,11 +451,13 @@ export class SyncService {
       });
 
       const notesCount = await this.repository.count();
+      outcome = 'success';
+      metrics.lastSyncTimestamp.set({ mode: 'incremental' }, Date.now() / 1000);
 
       logger.info(
         {
           changedCount: processedChanged,
-          deletedCount: deletedIds.length,
+          deletedCount,
           notesCount,
           lastSeq: this.status.lastSeq,
         },
@@ -296,8 +465,9 @@ export class SyncService {
       );
       this.emitEvent(EventType.SyncCompleted, {
         mode: 'incremental',
+        syncRunId: run.syncRunId,
         changedCount: processedChanged,
-        deletedCount: deletedIds.length,
+        deletedCount,
         notesCount,
         lastSeq: this.status.lastSeq,
       });
@@ -307,15 +477,87 @@ export class SyncService {
       logger.error({ error }, 'Incremental sync failed');
       this.emitEvent(EventType.SyncFailed, {
         mode: 'incremental',
+        syncRunId: run.syncRunId,
         error: error.message,
         lastSeq: this.status.lastSeq,
       });
       throw error;
     } finally {
+      endTimer({ result: outcome });
       this.status.isRunning = false;
     }
   }
 
+  /**
+   * Apply a batch of _changes results: save changed notes, remove deleted ones
+   */
+  private async applyChanges(
+    results: Nano.DatabaseChangesResultItem[],
+    run: SyncRunContext
+  ): Promise<{ processedCount: number; deletedCount: number }> {
+    // Separate changed documents and deleted documents
+    const changedDocs: LiveSyncDocument[] = [];
+    const deletedIds: string[] = [];
+    const deletedPaths = new Map<string, string>();
+
+    for (const change of results) {
+      // Skip internal documents (containing ':')
+      if (change.id.includes(':')) {
+        continue;
+      }
+
+      // Type assertion: CouchDB changes API with include_docs=true returns a 'doc' field
+      // containing the full document content. This is confirmed in the official CouchDB docs:
+      // https://docs.couchdb.org/en/stable/api/database/changes.html#get--db-_changes
+      // Quote: "Include the associated document with each result."
+      // However, Nano's TypeScript types don't include this field, so we use 'as any'.
+      const changeWithDoc = change as any;
+
+      // Handle deleted documents
+      if (change.deleted || changeWithDoc.doc?.deleted || changeWithDoc.doc?._deleted) {
+        deletedIds.push(change.id);
+        if (changeWithDoc.doc?.path) {
+          deletedPaths.set(change.id, changeWithDoc.doc.path);
+        }
+        logger.debug({ id: change.id }, 'Document marked for deletion');
+        continue;
+      }
+
+      // Collect changed documents
+      if (changeWithDoc.doc) {
+        changedDocs.push(changeWithDoc.doc as LiveSyncDocument);
+      }
+    }
+
+    // Process changed documents
+    let processedCount = 0;
+    if (changedDocs.length > 0) {
+      const result = await this.processDocuments(changedDocs, run);
+      processedCount = result.processedCount;
+      logger.info({ count: processedCount }, 'Processed changed documents');
+    }
+
+    // Remove deleted notes from memory
+    if (deletedIds.length > 0) {
+      for (const id of deletedIds) {
+        const previous = await this.getExistingNote(id);
+        if (previous) {
+          deletedPaths.set(id, previous.path);
+        }
+      }
+
+      await this.repository.deleteMany(deletedIds);
+      logger.info({ count: deletedIds.length }, 'Removed deleted documents');
+
+      for (const id of deletedIds) {
+        this.conflictResolver.clear(id);
+        this.emitNoteDeleted(id, deletedPaths.get(id), run);
+      }
+    }
+
+    return { processedCount, deletedCount: deletedIds.length };
+  }
+
   /**
    * Process LiveSync documents and convert to notes
    *
@@ -324,14 +566,24 @@ export class SyncService {
    * 2. Skip other internal documents (ps:, ix:, etc.)
    * 3. Skip deleted documents
    * 4. Process metadata documents (type="newnote" or "plain")
+   *
+   * Documents with `_conflicts` are resolved by the ConflictResolver, which may
+   * pick another revision's content or add conflict copies, and writes the
+   * resolution back to CouchDB.
+   *
+   * Emits NoteUpserted for every saved note whose content hash changed and
+   * ConflictResolved for every new or changed conflict.
    */
   private async processDocuments(
-    documents: LiveSyncDocument[]
+    documents: LiveSyncDocument[],
+    run: SyncRunContext
   ): Promise<{ processedCount: number; skippedCount: number; errorCount: number }> {
     let processedCount = 0;
     let skippedCount = 0;
     let errorCount = 0;
     const notesToSave: Note[] = [];
+    const changedNotes: Array<{ note: Note; contentHash: string }> = [];
+    const resolvedConflicts: ConflictRecord[] = [];
 
     for (const doc of documents) {
       logger.debug({ docId: doc._id, docType: doc.type, docPath: doc.path }, 'Processing document');
@@ -396,8 +648,30 @@ export class SyncService {
           ctime: doc.ctime ? new Date(doc.ctime) : new Date(),
           size: doc.size || 0,
         };
+        const notes = [note];
+
+        if (doc._conflicts && doc._conflicts.length > 0) {
+          const resolution = await this.conflictResolver.resolve(doc, content);
+          note.content = resolution.content;
+          if (resolution.mtime) {
+            note.mtime = new Date(resolution.mtime);
+          }
+          notes.push(...resolution.copies);
+          if (resolution.changed) {
+            resolvedConflicts.push(resolution.record);
+          }
+        } else {
+          this.conflictResolver.markResolved(doc._id);
+        }
 
-        notesToSave.push(note);
+        for (const staged of notes) {
+          const contentHash = computeContentHash(staged.content);
+          const previous = await this.getExistingNote(staged.id);
+          if (!previous || computeContentHash(previous.content) !== contentHash) {
+            changedNotes.push({ note: staged, contentHash });
+          }
+          notesToSave.push(staged);
+        }
         processedCount++;
         logger.debug({ docId: doc._id, path: doc.path, contentLength: content.length }, 'Note processed successfully');
       } catch (error: any) {
@@ -410,6 +684,18 @@ export class SyncService {
       await this.repository.saveMany(notesToSave);
     }
 
+    for (const { note, contentHash } of changedNotes) {
+      this.emitNoteUpserted(note, contentHash, run);
+    }
+
+    for (const record of resolvedConflicts) {
+      this.emitConflictResolved(record, run);
+    }
+
+    metrics.documents.inc({ result: 'processed' }, processedCount);
+    metrics.documents.inc({ result: 'skipped' }, skippedCount);
+    metrics.documents.inc({ result: 'errored' }, errorCount);
+
     logger.info({
       total: documents.length,
       processed: processedCount,
@@ -448,6 +734,80 @@ export class SyncService {
     return this.repository.search(query);
   }
 
+  /**
+   * How many sequence numbers the last synced sequence trails the database
+   * update_seq (numeric prefix of CouchDB's opaque seq strings)
+   *
+   * @returns undefined until a sync has established lastSeq
+   */
+  async getSeqLag(): Promise<number | undefined> {
+    if (!this.status.lastSeq) {
+      return undefined;
+    }
+    const dbInfo = await this.client.getDatabaseInfo();
+    const current = parseInt(String(dbInfo.update_seq), 10);
+    const synced = parseInt(this.status.lastSeq, 10);
+    if (Number.isNaN(current) || Number.isNaN(synced)) {
+      return undefined;
+    }
+    return Math.max(0, current - synced);
+  }
+
+  /**
+   * Get notes whose CouchDB documents had conflicting revisions and how they were resolved
+   */
+  getConflicts(): ConflictRecord[] {
+    return this.conflictResolver.getConflicts();
+  }
+
+  /**
+   * Look up the currently stored note, treating lookup failures as absent
+   */
+  private async getExistingNote(id: string): Promise<Note | undefined> {
+    try {
+      return await this.repository.get(id);
+    } catch (error: any) {
+      logger.debug({ error: error.message, id }, 'Failed to load existing note');
+      return undefined;
+    }
+  }
+
+  private emitNoteUpserted(note: Note, contentHash: string, run: SyncRunContext): void {
+    const payload: NoteUpsertedPayload = {
+      noteId: note.id,
+      path: note.path,
+      mtime: note.mtime.getTime(),
+      contentHash,
+      size: note.size,
+      tags: extractTags(note.content),
+      syncMode: run.syncMode,
+      syncRunId: run.syncRunId,
+      lastSeq: run.lastSeq,
+    };
+    this.emitEvent(EventType.NoteUpserted, { ...payload });
+  }
+
+  private emitNoteDeleted(noteId: string, path: string | undefined, run: SyncRunContext): void {
+    const payload: NoteDeletedPayload = {
+      noteId,
+      path,
+      syncMode: run.syncMode,
+      syncRunId: run.syncRunId,
+      lastSeq: run.lastSeq,
+    };
+    this.emitEvent(EventType.NoteDeleted, { ...payload });
+  }
+
+  private emitConflictResolved(record: ConflictRecord, run: SyncRunContext): void {
+    const payload: ConflictResolvedPayload = {
+      ...record,
+      syncMode: run.syncMode,
+      syncRunId: run.syncRunId,
+      lastSeq: run.lastSeq,
+    };
+    this.emitEvent(EventType.ConflictResolved, { ...payload });
+  }
+
   private emitEvent(type: EventType, payload?: Record<string, unknown>): void {
     void this.eventBus.emit({
       type,
@@ -166,6 +166,25 @@ describe('JsonFileStorage', () => {
 
       expect(savedState).toEqual({});
     });
+
+    it('should not leave temp files behind', async () => {
+      await storage.saveState({ lastSeq: '300' });
+
+      const entries = await fs.readdir(testDir);
+      expect(entries).toEqual(['.obs-ls-headless-state.json']);
+    });
+
+    it('should keep the previous state intact when the write fails', async () => {
+      await storage.saveState({ lastSeq: '100' });
+
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+      await expect(storage.saveState(circular as SyncState)).rejects.toThrow();
+
+      const fileContent = await fs.readFile(testFilePath, 'utf-8');
+      expect(JSON.parse(fileContent)).toEqual({ lastSeq: '100' });
+      expect(await fs.readdir(testDir)).toEqual(['.obs-ls-headless-state.json']);
+    });
   });
 
   describe('updateState', () => {
@@ -51,23 +51,55 @@ export class JsonFileStorage implements IStateStorage {
     }
   }
 
+  /**
+   * Save state atomically: write a temp file, fsync it, then rename over the
+   * state file, so a crash mid-write never leaves a truncated state file
+   */
   async saveState(state: SyncState): Promise<void> {
     const filePath = this.getFilePath();
+    const tempPath = `${filePath}.${process.pid}.tmp`;
     try {
       // Ensure directory exists
       await fs.mkdir(this.baseDir, { recursive: true });
 
-      // Write state to file
+      // Write state to temp file and flush it to disk
       const json = JSON.stringify(state, null, 2);
-      await fs.writeFile(filePath, json, 'utf-8');
+      const handle = await fs.open(tempPath, 'w');
+      try {
+        await handle.writeFile(json, 'utf-8');
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+
+      await fs.rename(tempPath, filePath);
+      await this.syncDirectory();
 
       logger.debug({ filePath, state }, 'State saved successfully');
     } catch (error) {
+      await fs.rm(tempPath, { force: true }).catch(() => {});
       logger.error({ error, filePath }, 'Failed to save state');
       throw error;
     }
   }
 
+  /**
+   * Flush the directory entry so the rename itself survives a crash
+   * Best effort: some platforms do not allow fsync on directories
+   */
+  private async syncDirectory(): Promise<void> {
+    try {
+      const handle = await fs.open(this.baseDir, 'r');
+      try {
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+    } catch (error: any) {
+      logger.debug({ error: error.message, baseDir: this.baseDir }, 'Directory fsync not supported');
+    }
+  }
+
   async updateState(partial: Partial<SyncState>): Promise<void> {
     const currentState = await this.getState();
     const newState = { ...currentState, ...partial };
@@ -0,0 +1,68 @@
+#!/usr/bin/env tsx
+/**
+ * Manage API tokens in AUTH_TOKENS_PATH
+ * Usage:
+ *   npm run token -- create <name> <scope>[,<scope>...]
+ *   npm run token -- list
+ *   npm run token -- revoke <id>
+ */
+
+import { loadConfig } from './utils/config.js';
+import { API_SCOPES, TokenStore } from './api/token-store.js';
+import type { ApiScope } from './types/index.js';
+
+function usage(): never {
+  console.error('Usage:');
+  console.error(`  token create <name> <scopes>   scopes: comma-separated (${API_SCOPES.join(', ')})`);
+  console.error('  token list');
+  console.error('  token revoke <id>');
+  process.exit(1);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const store = new TokenStore(loadConfig().auth.tokensPath);
+
+  switch (command) {
+    case 'create': {
+      const [name, scopes] = args;
+      if (!name || !scopes) {
+        usage();
+      }
+      const { token, record } = await store.create(name, scopes.split(',') as ApiScope[]);
+      console.log(`Created token ${record.id} (${record.name}) with scopes ${record.scopes.join(', ')}`);
+      console.log('Store this token now; it cannot be shown again:');
+      console.log(token);
+      break;
+    }
+    case 'list': {
+      const tokens = await store.list();
+      if (tokens.length === 0) {
+        console.log('No tokens');
+      }
+      for (const token of tokens) {
+        console.log(`${token.id}  ${token.name}  [${token.scopes.join(', ')}]  created ${token.createdAt}`);
+      }
+      break;
+    }
+    case 'revoke': {
+      const [id] = args;
+      if (!id) {
+        usage();
+      }
+      if (!(await store.revoke(id))) {
+        console.error(`No token with id ${id}`);
+        process.exit(1);
+      }
+      console.log(`Revoked token ${id}`);
+      break;
+    }
+    default:
+      usage();
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -10,9 +10,47 @@ export interface CouchDBConfig {
   passphrase?: string; // Encryption passphrase for LiveSync
 }
 
+export type SyncMode = "interval" | "longpoll";
+
+/**
+ * How a note with conflicting CouchDB revisions is written to the vault:
+ * - newest: the revision with the newest mtime wins
+ * - keep-both: the winner is kept and each other revision is saved as `name.conflict-<rev>.ext`
+ * - merge: three-way text merge against the common ancestor (falls back to keep-both)
+ */
+export type ConflictPolicy = "newest" | "keep-both" | "merge";
+
 export interface SyncConfig {
   interval: number;
   autoSyncEnabled: boolean;
+  mode: SyncMode; // interval: poll every `interval` ms; longpoll: hold a _changes feed
+  heartbeatMs: number; // Changes feed heartbeat (longpoll mode)
+  batchSize: number; // Documents per full sync batch
+  pushEnabled: boolean; // Push local vault edits back to CouchDB
+  pushDebounceMs: number;
+  conflictPolicy: ConflictPolicy;
+}
+
+/**
+ * Scopes granted to API tokens; admin grants every scope
+ */
+export type ApiScope = "notes:read" | "sync:trigger" | "metrics:read" | "admin";
+
+/**
+ * Stored API token (only the sha256 hash of the token is kept)
+ */
+export interface ApiToken {
+  id: string;
+  name: string;
+  hash: string;
+  scopes: ApiScope[];
+  createdAt: string;
+}
+
+export interface AuthConfig {
+  enabled: boolean; // Require bearer tokens on /api routes
+  tokensPath: string; // JSON file holding hashed tokens
+  corsOrigins: string[]; // Allowed CORS origins; empty reflects any origin
 }
 
 export interface AppConfig {
@@ -22,12 +60,54 @@ export interface AppConfig {
     port: number;
     host: string;
   };
+  auth: AuthConfig;
   vaultPath: string;
   plugins?: {
     /**
      * Absolute or relative path to plugin config JSON (e.g., /plugin.config.json).
      */
     configPath?: string;
+    /**
+     * Directory for the persistent event outboxes of at-least-once plugins.
+     */
+    outboxDir?: string;
+    /**
+     * Reload plugins when the config file changes (also available via POST /api/plugins/reload).
+     */
+    watch?: boolean;
+    /**
+     * Plugin working directories are confined to this directory (default: not jailed).
+     */
+    sandboxDir?: string;
+    /**
+     * Supervision of crashed plugins: exponential backoff between restarts,
+     * at most maxRestarts within windowMs before the plugin is marked failed.
+     */
+    restart?: {
+      minBackoffMs: number;
+      maxBackoffMs: number;
+      maxRestarts: number;
+      windowMs: number;
+    };
+  };
+  ai?: {
+    /**
+     * Index notes as they sync and serve GET /api/search/semantic.
+     */
+    enabled: boolean;
+    /**
+     * Chunk size budget and overlap between chunks of a section, in characters.
+     */
+    chunkMaxChars: number;
+    chunkOverlapChars: number;
+    /**
+     * Directory holding one embedding index JSON file per note.
+     */
+    indexDir: string;
+    /**
+     * Interval of the reconciliation between vault notes and indices (0 disables; also POST /api/ai/reconcile).
+     */
+    reconcileIntervalMs: number;
   };
 }
 
@@ -76,6 +156,10 @@ export interface LiveSyncDocument {
   size?: number;
   deleted?: boolean;
   _deleted?: boolean; // CouchDB deletion marker
+
+  // Conflict information (only present when requested with conflicts=true / revs=true)
+  _conflicts?: string[];
+  _revisions?: { start: number; ids: string[] };
 }
 
 /**
@@ -100,10 +184,16 @@ export interface DecryptedContent {
   isEncrypted: boolean;
 }
 
+/**
+ * Note content: text for plain-text files (Markdown etc.),
+ * raw bytes for binary attachments (images, PDFs)
+ */
+export type NoteContent = string | Buffer;
+
 export interface Note {
   id: string;
   path: string;
-  content: string;
+  content: NoteContent;
   mtime: Date;
   ctime: Date;
   size: number;
@@ -121,6 +211,7 @@ export enum EventType {
   NoteIndexed = "NoteIndexed",
   NoteUpserted = "NoteUpserted",
   NoteDeleted = "NoteDeleted",
+  ConflictResolved = "ConflictResolved",
 }
 
 export interface LiveSyncEvent {
@@ -131,11 +222,37 @@ export interface LiveSyncEvent {
   metadata?: Record<string, unknown>;
 }
 
+export interface SyncStartedPayload {
+  mode: "full" | "incremental";
+  syncRunId: string;
+  lastSeq?: string;
+}
+
+export interface SyncCompletedPayload {
+  mode: "full" | "incremental";
+  syncRunId: string;
+  notesCount: number;
+  lastSeq?: string;
+  documentsCount?: number; // full sync
+  processedCount?: number; // full sync
+  changedCount?: number; // incremental sync
+  deletedCount?: number; // incremental sync
+}
+
+export interface SyncFailedPayload {
+  mode: "full" | "incremental";
+  syncRunId: string;
+  error: string;
+  lastSeq?: string;
+}
+
 export interface NoteUpsertedPayload {
   noteId: string;
   path: string;
   mtime: number;
   contentHash: string;
+  size: number;
+  tags: string[]; // Lower-cased, without '#'
   syncMode: "full" | "incremental";
   syncRunId: string;
   lastSeq?: string;
@@ -149,4 +266,26 @@ export interface NoteDeletedPayload {
   lastSeq?: string;
 }
 
+/**
+ * A note whose CouchDB document has conflicting revisions
+ */
+export interface ConflictRecord {
+  noteId: string;
+  path: string;
+  winnerRev: string;
+  conflictRevs: string[];
+  policy: ConflictPolicy;
+  outcome: "newest" | "kept-both" | "merged";
+  chosenRev: string; // Revision whose content was written to the note path
+  copies: string[]; // Conflict copies written next to the note (keep-both)
+  detectedAt: string;
+  resolvedAt?: string; // Set once CouchDB no longer holds the conflict (resolved here or by a LiveSync client)
+}
+
+export interface ConflictResolvedPayload extends ConflictRecord {
+  syncMode: "full" | "incremental";
+  syncRunId: string;
+  lastSeq?: string;
+}
+
 export type EventListener = (event: LiveSyncEvent) => void | Promise<void>;
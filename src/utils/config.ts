@@ -1,10 +1,16 @@
 import dotenv from 'dotenv';
 import { resolve } from 'node:path';
 
-import { AppConfig } from '../types/index.js';
+import { AppConfig, ConflictPolicy, SyncMode } from '../types/index.js';
 
 dotenv.config();
 
+const CONFLICT_POLICIES: ConflictPolicy[] = ['newest', 'keep-both', 'merge'];
+
+function parseConflictPolicy(value: string | undefined): ConflictPolicy {
+  return CONFLICT_POLICIES.includes(value as ConflictPolicy) ? (value as ConflictPolicy) : 'newest';
+}
+
 export function loadConfig(): AppConfig {
   return {
     couchdb: {
@@ -17,14 +23,44 @@ export function loadConfig(): AppConfig {
     sync: {
       interval: parseInt(process.env.SYNC_INTERVAL || '60000', 10),
       autoSyncEnabled: process.env.AUTO_SYNC_ENABLED === 'true',
+      mode: (process.env.SYNC_MODE === 'longpoll' ? 'longpoll' : 'interval') as SyncMode,
+      heartbeatMs: parseInt(process.env.SYNC_HEARTBEAT_MS || '30000', 10),
+      batchSize: parseInt(process.env.SYNC_BATCH_SIZE || '500', 10),
+      pushEnabled: process.env.PUSH_ENABLED === 'true',
+      pushDebounceMs: parseInt(process.env.PUSH_DEBOUNCE_MS || '1000', 10),
+      conflictPolicy: parseConflictPolicy(process.env.CONFLICT_POLICY),
     },
     server: {
       port: parseInt(process.env.PORT || '3000', 10),
       host: process.env.HOST || '0.0.0.0',
     },
+    auth: {
+      enabled: process.env.AUTH_ENABLED === 'true',
+      tokensPath: process.env.AUTH_TOKENS_PATH || resolve(process.cwd(), 'api-tokens.json'),
+      corsOrigins: (process.env.CORS_ORIGINS || '')
+        .split(',')
+        .map((origin) => origin.trim())
+        .filter((origin) => origin.length > 0),
+    },
     vaultPath: process.env.VAULT_PATH || resolve(process.cwd(), 'vault'),
     plugins: {
       configPath: process.env.PLUGINS_CONFIG_PATH || '/plugins.config.json',
+      watch: process.env.PLUGINS_WATCH === 'true',
+      outboxDir: process.env.PLUGIN_OUTBOX_DIR || resolve(process.cwd(), 'plugin-outbox'),
+      sandboxDir: process.env.PLUGIN_SANDBOX_DIR || undefined,
+      restart: {
+        minBackoffMs: parseInt(process.env.PLUGIN_RESTART_BACKOFF_MS || '1000', 10),
+        maxBackoffMs: parseInt(process.env.PLUGIN_RESTART_MAX_BACKOFF_MS || '60000', 10),
+        maxRestarts: parseInt(process.env.PLUGIN_RESTART_MAX || '5', 10),
+        windowMs: parseInt(process.env.PLUGIN_RESTART_WINDOW_MS || '600000', 10),
+      },
+    },
+    ai: {
+      enabled: process.env.AI_ENABLED === 'true',
+      chunkMaxChars: parseInt(process.env.AI_CHUNK_MAX_CHARS || '1500', 10),
+      chunkOverlapChars: parseInt(process.env.AI_CHUNK_OVERLAP_CHARS || '200', 10),
+      indexDir: process.env.AI_INDEX_DIR || resolve(process.cwd(), 'ai-index'),
+      reconcileIntervalMs: parseInt(process.env.AI_RECONCILE_INTERVAL_MS || '3600000', 10),
     },
   };
 }
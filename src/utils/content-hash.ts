@@ -0,0 +1,25 @@
+import { createHash } from 'node:crypto';
+import type { NoteContent } from '../types/index.js';
+
+/**
+ * Compute a stable hash of note content (sha256, hex encoded)
+ * Used to detect content changes across syncs and index runs.
+ */
+export function computeContentHash(content: NoteContent): string {
+  return typeof content === 'string'
+    ? createHash('sha256').update(content, 'utf-8').digest('hex')
+    : createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Compare two note contents (text or binary) for equality
+ */
+export function contentEquals(a: NoteContent | null | undefined, b: NoteContent | null | undefined): boolean {
+  if (typeof a === 'string' || typeof b === 'string') {
+    return a === b;
+  }
+  if (!a || !b) {
+    return a === b;
+  }
+  return a.equals(b);
+}
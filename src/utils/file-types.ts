@@ -0,0 +1,66 @@
+import { posix } from 'node:path';
+
+/**
+ * File type helpers for vault paths
+ *
+ * LiveSync stores files with these extensions as plain text (`plain` type);
+ * everything else is treated as binary and stored base64 encoded (`newnote`).
+ */
+const PLAIN_TEXT_EXTENSIONS = new Set([
+  '.md',
+  '.txt',
+  '.svg',
+  '.html',
+  '.csv',
+  '.css',
+  '.js',
+  '.xml',
+  '.canvas',
+]);
+
+const MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.html': 'text/html; charset=utf-8',
+  '.csv': 'text/csv; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.xml': 'application/xml',
+  '.canvas': 'application/json',
+  '.json': 'application/json',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.avif': 'image/avif',
+  '.pdf': 'application/pdf',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.m4a': 'audio/mp4',
+  '.webm': 'video/webm',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.zip': 'application/zip',
+};
+
+function extensionOf(path: string): string {
+  return posix.extname(path.replace(/\\/g, '/')).toLowerCase();
+}
+
+/**
+ * Whether a vault path holds plain text (as opposed to binary content)
+ */
+export function isPlainTextPath(path: string): boolean {
+  return PLAIN_TEXT_EXTENSIONS.has(extensionOf(path));
+}
+
+/**
+ * MIME type for a vault path, falling back to application/octet-stream
+ */
+export function getMimeType(path: string): string {
+  return MIME_TYPES[extensionOf(path)] ?? 'application/octet-stream';
+}
@@ -116,4 +116,20 @@ describe('LiveSyncCrypto', () => {
       expect(results).toHaveLength(0);
     });
   });
+
+  describe('encrypt', () => {
+    it('should produce %= prefixed data that decrypt() reverses', async () => {
+      const plainText = 'Hello World\n# Heading';
+      const encrypted = await crypto.encrypt(plainText);
+
+      expect(crypto.isEncrypted(encrypted)).toBe(true);
+      expect(await crypto.decrypt(encrypted)).toBe(plainText);
+    });
+
+    it('should fail when the salt cannot be loaded', async () => {
+      mockStorage.getDocument = vi.fn(async () => null);
+
+      await expect(crypto.encrypt('data')).rejects.toThrow('Encryption failed');
+    });
+  });
 });
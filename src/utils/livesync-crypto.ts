@@ -1,19 +1,20 @@
 /**
  * LiveSync Encryption/Decryption Utilities
  *
- * Uses octagonal-wheels library to decrypt LiveSync's HKDF-encrypted data.
+ * Uses octagonal-wheels library to encrypt/decrypt LiveSync's HKDF-encrypted data.
  * Requires PBKDF2 salt from the milestone document.
  */
 
-import { decrypt as decryptHKDF } from 'octagonal-wheels/encryption/hkdf.js';
+import { decrypt as decryptHKDF, encrypt as encryptHKDF } from 'octagonal-wheels/encryption/hkdf.js';
 import type { IDocumentStorage } from '../core/interfaces.js';
 import logger from './logger.js';
+import metrics from './metrics.js';
 
 const SYNC_PARAMS_DOCID = '_local/obsidian_livesync_sync_parameters';
 const HKDF_PREFIX = '%=';
 
 /**
- * LiveSync crypto utility for decrypting HKDF-encrypted chunks
+ * LiveSync crypto utility for encrypting/decrypting HKDF-encrypted chunks
  */
 export class LiveSyncCrypto {
   private pbkdf2Salt?: Uint8Array<ArrayBuffer>;
@@ -107,6 +108,7 @@ export class LiveSyncCrypto {
 
       return decrypted;
     } catch (error: any) {
+      metrics.decryptionFailures.inc();
       logger.error({
         error: error.message,
         dataPrefix: encryptedData.substring(0, 20)
@@ -115,6 +117,27 @@ export class LiveSyncCrypto {
     }
   }
 
+  /**
+   * Encrypt a single chunk of data
+   * Produces the same %= prefixed format that decrypt() accepts
+   */
+  async encrypt(plainData: string): Promise<string> {
+    try {
+      const salt = await this.getPBKDF2Salt();
+      const encrypted = await encryptHKDF(plainData, this.passphrase, salt);
+
+      logger.debug({
+        plainLength: plainData.length,
+        encryptedLength: encrypted.length
+      }, 'Chunk encrypted successfully');
+
+      return encrypted;
+    } catch (error: any) {
+      logger.error({ error: error.message }, 'Failed to encrypt chunk');
+      throw new Error(`Encryption failed: ${error.message}`);
+    }
+  }
+
   /**
    * Decrypt multiple chunks in parallel
    */
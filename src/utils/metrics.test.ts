@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { Counter, Gauge, Histogram, MetricsRegistry } from './metrics.js';
+
+describe('metrics', () => {
+  it('renders counters and gauges with labels in Prometheus text format', async () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.register(new Counter('test_events_total', 'Events seen'));
+    const gauge = registry.register(new Gauge('test_lag', 'Lag'));
+
+    counter.inc({ result: 'ok' });
+    counter.inc({ result: 'ok' }, 2);
+    counter.inc({ result: 'say "hi"\n' });
+    gauge.set({}, 42);
+
+    expect(await registry.render()).toBe(
+      [
+        '# HELP test_events_total Events seen',
+        '# TYPE test_events_total counter',
+        'test_events_total{result="ok"} 3',
+        'test_events_total{result="say \\"hi\\"\\n"} 1',
+        '# HELP test_lag Lag',
+        '# TYPE test_lag gauge',
+        'test_lag 42',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('renders cumulative histogram buckets with sum and count', async () => {
+    const registry = new MetricsRegistry();
+    const histogram = registry.register(new Histogram('test_duration_seconds', 'Duration', [1, 5]));
+
+    histogram.observe({ mode: 'full' }, 0.5);
+    histogram.observe({ mode: 'full' }, 3);
+    histogram.observe({ mode: 'full' }, 10);
+
+    const output = await registry.render();
+    expect(output).toContain('test_duration_seconds_bucket{mode="full",le="1"} 1');
+    expect(output).toContain('test_duration_seconds_bucket{mode="full",le="5"} 2');
+    expect(output).toContain('test_duration_seconds_bucket{mode="full",le="+Inf"} 3');
+    expect(output).toContain('test_duration_seconds_sum{mode="full"} 13.5');
+    expect(output).toContain('test_duration_seconds_count{mode="full"} 3');
+  });
+
+  it('runs collectors before rendering', async () => {
+    const registry = new MetricsRegistry();
+    const gauge = registry.register(new Gauge('test_collected', 'Collected'));
+    registry.addCollector(async () => gauge.set({}, 7));
+
+    expect(await registry.render()).toContain('test_collected 7');
+  });
+
+  it('rejects duplicate metric names and decreasing counters', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.register(new Counter('test_total', 'Total'));
+
+    expect(() => registry.register(new Counter('test_total', 'Again'))).toThrow('already registered');
+    expect(() => counter.inc({}, -1)).toThrow('cannot decrease');
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Minimal Prometheus metrics (text exposition format 0.0.4)
+ *
+ * Counters, gauges and histograms with labels, collected in a registry that
+ * renders them for the /metrics endpoint. Application metrics are defined
+ * once below and imported where they are recorded, like the shared logger.
+ */
+
+export type Labels = Record<string, string>;
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((key) => [key, labels[key]]));
+}
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) {
+    return '';
+  }
+  const escaped = entries.map(
+    ([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`
+  );
+  return `{${escaped.join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+abstract class LabeledMetric<T> implements Metric {
+  protected readonly series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    protected readonly help: string,
+    private readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  protected entry(labels: Labels, init: () => T): { labels: Labels; value: T } {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, value: init() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.renderSeries()];
+  }
+
+  protected abstract renderSeries(): string[];
+}
+
+export class Counter extends LabeledMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    this.entry(labels, () => 0).value += value;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.value ?? 0;
+  }
+
+  protected renderSeries(): string[] {
+    return Array.from(this.series.values()).map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+export class Gauge extends LabeledMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    return this.series.get(labelKey(labels))?.value;
+  }
+
+  protected renderSeries(): string[] {
+    return Array.from(this.series.values()).map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+interface HistogramValue {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends LabeledMetric<HistogramValue> {
+  private readonly bounds: number[];
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help, 'histogram');
+    this.bounds = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({ buckets: this.bounds.map(() => 0), sum: 0, count: 0 }));
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.value.buckets[index]++;
+      }
+    });
+    entry.value.sum += value;
+    entry.value.count++;
+  }
+
+  /**
+   * Start timing; call the returned function to observe the elapsed seconds
+   */
+  startTimer(labels: Labels = {}): (extra?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (extra = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...extra }, seconds);
+      return seconds;
+    };
+  }
+
+  get(labels: Labels = {}): { sum: number; count: number } | undefined {
+    const entry = this.series.get(labelKey(labels));
+    return entry ? { sum: entry.value.sum, count: entry.value.count } : undefined;
+  }
+
+  protected renderSeries(): string[] {
+    const lines: string[] = [];
+    this.series.forEach(({ labels, value }) => {
+      this.bounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels(labels, { le: formatValue(bound) })} ${value.buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    });
+    return lines;
+  }
+}
+
+/**
+ * Collection of metrics plus collectors that refresh values before a scrape
+ */
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+  private readonly collectors: Array<() => void | Promise<void>> = [];
+
+  register<T extends Metric>(metric: T): T {
+    if (this.metrics.some((existing) => existing.name === metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /**
+   * Add a callback run before every render (e.g. to read a lag from CouchDB)
+   */
+  addCollector(collector: () => void | Promise<void>): void {
+    this.collectors.push(collector);
+  }
+
+  async render(): Promise<string> {
+    await Promise.all(this.collectors.map(async (collector) => collector()));
+    return this.metrics.map((metric) => metric.render().join('\n')).join('\n') + '\n';
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const registry = new MetricsRegistry();
+
+const metrics = {
+  syncDuration: registry.register(
+    new Histogram('obsls_sync_duration_seconds', 'Duration of sync runs by mode and result', [
+      0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600,
+    ])
+  ),
+  lastSyncTimestamp: registry.register(
+    new Gauge('obsls_last_sync_success_timestamp_seconds', 'Unix time of the last successful sync by mode')
+  ),
+  documents: registry.register(
+    new Counter('obsls_sync_documents_total', 'Documents handled by sync, by result (processed, skipped, errored)')
+  ),
+  chunkFetches: registry.register(
+    new Counter('obsls_chunk_fetches_total', 'Chunk documents requested by the chunk assembler')
+  ),
+  chunkFetchFailures: registry.register(
+    new Counter('obsls_chunk_fetch_failures_total', 'Chunks that were missing or had no data')
+  ),
+  decryptionFailures: registry.register(
+    new Counter('obsls_decryption_failures_total', 'Chunks that failed to decrypt')
+  ),
+  seqLag: registry.register(
+    new Gauge('obsls_sync_seq_lag', 'Database update_seq minus the last synced sequence number')
+  ),
+  pluginNotificationFailures: registry.register(
+    new Counter('obsls_plugin_notification_failures_total', 'Event notifications that failed to reach a plugin')
+  ),
+  pluginRestarts: registry.register(
+    new Counter('obsls_plugin_restarts_total', 'Plugin process restarts')
+  ),
+  pluginEventsFiltered: registry.register(
+    new Counter('obsls_plugin_events_filtered_total', 'Events not sent to a plugin because its event filter excluded them')
+  ),
+};
+
+export default metrics;
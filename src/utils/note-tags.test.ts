@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { extractTags } from './note-tags.js';
+
+describe('extractTags', () => {
+  it('collects inline tags outside code, without headings', () => {
+    const content = [
+      '# Heading',
+      'Draft for #Publish and #blog/tech, issue #42.',
+      '`#notatag` and',
+      '```',
+      '#alsonot',
+      '```',
+      '#publish again',
+    ].join('\n');
+
+    expect(extractTags(content)).toEqual(['publish', 'blog/tech']);
+  });
+
+  it('reads frontmatter tags as list, inline array or comma separated', () => {
+    expect(extractTags('---\ntitle: x\ntags:\n  - journal\n  - "daily"\n---\nbody')).toEqual(['journal', 'daily']);
+    expect(extractTags('---\ntags: [a, "#b"]\n---\n#c')).toEqual(['a', 'b', 'c']);
+    expect(extractTags('---\ntag: one, two\n---\n')).toEqual(['one', 'two']);
+  });
+
+  it('returns no tags for binary content', () => {
+    expect(extractTags(Buffer.from('#tag'))).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import type { NoteContent } from '../types/index.js';
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+const FENCED_CODE = /^(```|~~~)[\s\S]*?^\1/gm;
+const INLINE_CODE = /`[^`\n]*`/g;
+// Obsidian tags: letters, digits, _, -, / (nesting); at least one non-digit
+const INLINE_TAG = /(?:^|\s)#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu;
+
+function frontmatterTags(frontmatter: string): string[] {
+  const lines = frontmatter.split(/\r?\n/);
+  const index = lines.findIndex(line => /^tags?:/.test(line));
+  if (index === -1) {
+    return [];
+  }
+
+  const inline = lines[index].replace(/^tags?:/, '').trim();
+  if (inline) {
+    // tags: [a, b] | tags: a, b | tags: a b
+    return inline.replace(/^\[|\]$/g, '').split(/[,\s]+/);
+  }
+  const tags: string[] = [];
+  for (const line of lines.slice(index + 1)) {
+    const item = /^\s*-\s*(.+)$/.exec(line);
+    if (!item) {
+      break;
+    }
+    tags.push(item[1]);
+  }
+  return tags;
+}
+
+/**
+ * Tags of a Markdown note: frontmatter `tags` and inline `#tags` outside code
+ * Returned without `#`, lower-cased (Obsidian tags are case-insensitive) and deduplicated.
+ */
+export function extractTags(content: NoteContent): string[] {
+  if (typeof content !== 'string') {
+    return [];
+  }
+
+  const tags: string[] = [];
+  const frontmatter = FRONTMATTER.exec(content);
+  if (frontmatter) {
+    tags.push(...frontmatterTags(frontmatter[1]));
+  }
+
+  const body = (frontmatter ? content.slice(frontmatter[0].length) : content)
+    .replace(FENCED_CODE, '')
+    .replace(INLINE_CODE, '');
+  for (const match of body.matchAll(INLINE_TAG)) {
+    tags.push(match[1]);
+  }
+
+  const normalized = tags
+    .map(tag => tag.trim().replace(/^['"#]+|['"]+$/g, '').toLowerCase())
+    .filter(tag => tag.length > 0);
+  return [...new Set(normalized)];
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { threeWayMerge } from './three-way-merge.js';
+
+describe('threeWayMerge', () => {
+  const base = 'title\n\nfirst\nsecond\nthird\n';
+
+  it('should combine edits to different lines', () => {
+    const ours = 'title\n\nfirst (ours)\nsecond\nthird\n';
+    const theirs = 'title\n\nfirst\nsecond\nthird (theirs)\n';
+
+    expect(threeWayMerge(base, ours, theirs)).toEqual({
+      clean: true,
+      merged: 'title\n\nfirst (ours)\nsecond\nthird (theirs)\n',
+    });
+  });
+
+  it('should keep insertions and deletions from both sides', () => {
+    const ours = 'title\n\nintro\nfirst\nsecond\nthird\n';
+    const theirs = 'title\n\nfirst\nthird\nappendix\n';
+
+    expect(threeWayMerge(base, ours, theirs)).toEqual({
+      clean: true,
+      merged: 'title\n\nintro\nfirst\nthird\nappendix\n',
+    });
+  });
+
+  it('should accept identical edits on both sides', () => {
+    const edited = 'title\n\nfirst\nsecond!\nthird\n';
+
+    expect(threeWayMerge(base, edited, 'title\n\nfirst\nsecond!\nthird\nmore\n')).toEqual({
+      clean: true,
+      merged: 'title\n\nfirst\nsecond!\nthird\nmore\n',
+    });
+  });
+
+  it('should report overlapping edits as not clean', () => {
+    const ours = 'title\n\nfirst\nsecond (ours)\nthird\n';
+    const theirs = 'title\n\nfirst\nsecond (theirs)\nthird\n';
+
+    expect(threeWayMerge(base, ours, theirs).clean).toBe(false);
+  });
+
+  it('should take the changed side when only one side changed', () => {
+    expect(threeWayMerge(base, base, 'changed')).toEqual({ clean: true, merged: 'changed' });
+    expect(threeWayMerge(base, 'changed', base)).toEqual({ clean: true, merged: 'changed' });
+  });
+
+  it('should handle text without a trailing newline', () => {
+    expect(threeWayMerge('a\nb\nc', 'A\nb\nc', 'a\nb\nC')).toEqual({ clean: true, merged: 'A\nb\nC' });
+  });
+});
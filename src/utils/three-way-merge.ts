@@ -0,0 +1,147 @@
+/**
+ * Line-based three-way merge (diff3 style)
+ *
+ * Lines of `base` that survive unchanged in both `ours` and `theirs` act as
+ * sync points. Between two sync points, a region changed on only one side
+ * takes that side's lines; a region changed identically on both sides is
+ * taken once; any other region is a conflict and the merge is not clean.
+ */
+
+export interface MergeResult {
+  clean: boolean;
+  merged: string;
+}
+
+// Upper bound for the LCS table (lines x lines) to keep memory bounded
+const MAX_LCS_CELLS = 4_000_000;
+
+export function threeWayMerge(base: string, ours: string, theirs: string): MergeResult {
+  if (ours === theirs) {
+    return { clean: true, merged: ours };
+  }
+  if (base === ours) {
+    return { clean: true, merged: theirs };
+  }
+  if (base === theirs) {
+    return { clean: true, merged: ours };
+  }
+
+  const baseLines = splitLines(base);
+  const ourLines = splitLines(ours);
+  const theirLines = splitLines(theirs);
+
+  const ourMatch = matchLines(baseLines, ourLines);
+  const theirMatch = matchLines(baseLines, theirLines);
+  if (!ourMatch || !theirMatch) {
+    return { clean: false, merged: ours };
+  }
+
+  const merged: string[] = [];
+  let i = 0;
+  let a = 0;
+  let b = 0;
+
+  while (true) {
+    // Next base line kept by both sides, or the end of all three texts
+    let j = i;
+    while (j < baseLines.length && (ourMatch[j] < 0 || theirMatch[j] < 0)) {
+      j++;
+    }
+    const aEnd = j < baseLines.length ? ourMatch[j] : ourLines.length;
+    const bEnd = j < baseLines.length ? theirMatch[j] : theirLines.length;
+
+    const baseChunk = baseLines.slice(i, j);
+    const ourChunk = ourLines.slice(a, aEnd);
+    const theirChunk = theirLines.slice(b, bEnd);
+
+    if (sameLines(ourChunk, baseChunk)) {
+      merged.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      merged.push(...ourChunk);
+    } else {
+      return { clean: false, merged: ours };
+    }
+
+    if (j >= baseLines.length) {
+      break;
+    }
+    merged.push(baseLines[j]);
+    i = j + 1;
+    a = aEnd + 1;
+    b = bEnd + 1;
+  }
+
+  return { clean: true, merged: merged.join('') };
+}
+
+/**
+ * Split text into lines, keeping line terminators so joining restores it exactly
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function sameLines(left: string[], right: string[]): boolean {
+  return left.length === right.length && left.every((line, index) => line === right[index]);
+}
+
+/**
+ * Map each base line to its index in `other` along a longest common
+ * subsequence (-1 when unmatched). Returns null if the texts are too large.
+ */
+function matchLines(base: string[], other: string[]): number[] | null {
+  const match = new Array<number>(base.length).fill(-1);
+
+  // Common prefix and suffix need no table
+  let prefix = 0;
+  while (prefix < base.length && prefix < other.length && base[prefix] === other[prefix]) {
+    match[prefix] = prefix;
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < other.length - prefix &&
+    base[base.length - 1 - suffix] === other[other.length - 1 - suffix]
+  ) {
+    match[base.length - 1 - suffix] = other.length - 1 - suffix;
+    suffix++;
+  }
+
+  const n = base.length - prefix - suffix;
+  const m = other.length - prefix - suffix;
+  if (n === 0 || m === 0) {
+    return match;
+  }
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    return null;
+  }
+
+  // lengths[x][y] = LCS length of base[prefix + x..] and other[prefix + y..]
+  const width = m + 1;
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let x = n - 1; x >= 0; x--) {
+    for (let y = m - 1; y >= 0; y--) {
+      lengths[x * width + y] =
+        base[prefix + x] === other[prefix + y]
+          ? lengths[(x + 1) * width + y + 1] + 1
+          : Math.max(lengths[(x + 1) * width + y], lengths[x * width + y + 1]);
+    }
+  }
+
+  let x = 0;
+  let y = 0;
+  while (x < n && y < m) {
+    if (base[prefix + x] === other[prefix + y]) {
+      match[prefix + x] = prefix + y;
+      x++;
+      y++;
+    } else if (lengths[(x + 1) * width + y] >= lengths[x * width + y + 1]) {
+      x++;
+    } else {
+      y++;
+    }
+  }
+
+  return match;
+}